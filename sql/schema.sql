@@ -6,10 +6,12 @@
 -- =============================================================================
 
 CREATE TYPE user_role AS ENUM ('employee', 'finance_manager', 'admin');
-CREATE TYPE trip_status AS ENUM ('draft', 'pending_review', 'approved', 'approved_exception', 'denied');
+CREATE TYPE trip_status AS ENUM ('draft', 'pending_review', 'approved', 'approved_exception', 'denied', 'cancelled');
 CREATE TYPE item_type AS ENUM ('flight', 'hotel', 'meal', 'transport');
 CREATE TYPE violation_severity AS ENUM ('warning', 'blocker');
-CREATE TYPE approval_decision AS ENUM ('approved', 'approved_exception', 'denied');
+CREATE TYPE approval_decision AS ENUM ('approved', 'approved_exception', 'denied', 'changes_requested');
+CREATE TYPE expense_report_status AS ENUM ('draft', 'reconciled', 'pending_review', 'approved', 'rejected');
+CREATE TYPE payment_batch_status AS ENUM ('draft', 'exported', 'paid');
 
 -- =============================================================================
 -- TABLES
@@ -21,17 +23,26 @@ CREATE TABLE users (
   name TEXT NOT NULL,
   role user_role NOT NULL,
   department TEXT NOT NULL,
+  manager_id UUID REFERENCES users(id) ON DELETE SET NULL,  -- Line manager; NULL skips the line manager stage
+  deactivated_at TIMESTAMPTZ,                               -- Set when the user leaves; rows are never deleted
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
 -- Travel policies
 -- All monetary values stored as INT CENTS for determinism
+-- Each row is one immutable policy version; a new version takes over on its
+-- effective_from date, and trips record the version they were evaluated under
 CREATE TABLE travel_policies (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INT NOT NULL UNIQUE CHECK (version > 0),
+  effective_from DATE NOT NULL,
+  change_note TEXT,                                           -- Why this version was introduced
   economy_only BOOLEAN NOT NULL DEFAULT true,
   hotel_nightly_cap_cents BIGINT NOT NULL DEFAULT 25000,      -- $250.00
   meal_daily_cap_cents BIGINT NOT NULL DEFAULT 7500,          -- $75.00
   preapproval_over_cents BIGINT NOT NULL DEFAULT 150000,      -- $1500.00
+  receipt_required_over_cents BIGINT NOT NULL DEFAULT 7500,   -- $75.00, items above need a receipt
+  business_class_min_flight_hours NUMERIC(4, 1),              -- Business allowed on flights this long; NULL = never
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
@@ -40,15 +51,20 @@ CREATE TABLE trips (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   destination_city TEXT NOT NULL,
+  destination_country CHAR(2),                     -- ISO 3166-1 alpha-2, used for per-diem lookup
   start_date DATE NOT NULL,
   end_date DATE NOT NULL,
   purpose TEXT NOT NULL,
   status trip_status NOT NULL DEFAULT 'draft',
+  policy_id UUID REFERENCES travel_policies(id),   -- Policy version in force at the last submission
+  submitted_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
 -- Trip items (expenses within trip)
--- amount_cents: stored as int cents
+-- amount_cents: stored as int cents in the item's own currency
+-- fx_rate: rate from the item currency to the reporting currency, locked in when the item is added
+-- reporting_amount_cents: amount converted to the reporting currency (used by policy checks and totals)
 -- meta: JSON for type-specific data
 CREATE TABLE trip_items (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -56,7 +72,192 @@ CREATE TABLE trip_items (
   type item_type NOT NULL,
   description TEXT NOT NULL,
   amount_cents BIGINT NOT NULL,
+  currency CHAR(3) NOT NULL DEFAULT 'USD',
+  fx_rate NUMERIC(18, 8) NOT NULL DEFAULT 1,
+  fx_rate_date DATE,
+  reporting_amount_cents BIGINT GENERATED ALWAYS AS (ROUND(amount_cents * fx_rate)::BIGINT) STORED,
   meta JSONB NOT NULL DEFAULT '{}'::jsonb,
+  company_paid BOOLEAN NOT NULL DEFAULT false,      -- Billed to the company (e.g. direct-billed flights); not reimbursed
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Expense reports (what an approved trip really cost, filed after the trip)
+CREATE TABLE expense_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL UNIQUE REFERENCES trips(id) ON DELETE CASCADE,
+  status expense_report_status NOT NULL DEFAULT 'draft',
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Actual expenses on an expense report, converted like trip items
+CREATE TABLE actual_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID NOT NULL REFERENCES expense_reports(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  type item_type NOT NULL,
+  description TEXT NOT NULL,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  currency CHAR(3) NOT NULL DEFAULT 'USD',
+  fx_rate NUMERIC(18, 8) NOT NULL DEFAULT 1,
+  fx_rate_date DATE,
+  reporting_amount_cents BIGINT GENERATED ALWAYS AS (ROUND(amount_cents * fx_rate)::BIGINT) STORED,
+  expense_date DATE NOT NULL,
+  company_paid BOOLEAN NOT NULL DEFAULT false,      -- Billed to the company; not reimbursed
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Payment batches: reimbursements paid out together
+-- draft -> exported (handed to the bank as a file) -> paid (confirmed by finance)
+CREATE TABLE payment_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT NOT NULL UNIQUE,                  -- e.g. PB-20261019-01, quoted on payslips and bank files
+  status payment_batch_status NOT NULL DEFAULT 'draft',
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  exported_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Reimbursement payments: how much of an approved trip a batch pays
+-- A trip can be paid over several batches (partial payments)
+CREATE TABLE reimbursement_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES payment_batches(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES trips(id),
+  user_id UUID NOT NULL REFERENCES users(id),     -- Payee (the trip owner)
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (batch_id, trip_id)
+);
+
+-- General-ledger accounts the accounting export posts to, configured by finance:
+-- an expense account per item type, and the payable accounts credited for
+-- employee-paid and company-paid spend
+CREATE TABLE gl_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purpose TEXT NOT NULL UNIQUE CHECK (purpose IN ('flight', 'hotel', 'meal', 'transport', 'employee_payable', 'company_payable')),
+  account_code TEXT NOT NULL,
+  account_name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Accounting exports: approved trips handed to the general ledger
+CREATE TABLE accounting_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT NOT NULL UNIQUE,                  -- e.g. AE-20261019-01, used as the journal batch
+  start_date DATE NOT NULL,                        -- Range of trip start dates requested
+  end_date DATE NOT NULL,
+  trip_count INTEGER NOT NULL,
+  total_cents BIGINT NOT NULL,                     -- Reporting currency
+  created_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Trips included in an accounting export; a trip is exported at most once
+CREATE TABLE accounting_export_trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  export_id UUID NOT NULL REFERENCES accounting_exports(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL UNIQUE REFERENCES trips(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Policy rule configuration: enables, tunes and defines the rules run on submission
+-- Registered rules (template NULL) run with defaults when they have no row here;
+-- rows with a template define custom rules declaratively
+CREATE TABLE policy_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,                       -- Violation code the rule produces
+  template TEXT,                                   -- e.g. item_amount_cap, max_trip_days
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  severity violation_severity,                     -- NULL = rule default
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Policy overrides layered on top of a policy version
+-- NULL fields inherit; precedence is user > role > department > base policy
+CREATE TABLE policy_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  policy_id UUID NOT NULL REFERENCES travel_policies(id) ON DELETE CASCADE,
+  scope_type TEXT NOT NULL CHECK (scope_type IN ('department', 'role', 'user')),
+  scope_value TEXT NOT NULL,                       -- Department name, role, or user ID
+  economy_only BOOLEAN,
+  hotel_nightly_cap_cents BIGINT,
+  meal_daily_cap_cents BIGINT,
+  preapproval_over_cents BIGINT,
+  receipt_required_over_cents BIGINT,
+  business_class_min_flight_hours NUMERIC(4, 1),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (policy_id, scope_type, scope_value)
+);
+
+-- Per-diem rates by destination (reporting currency cents)
+-- city NULL = country-wide rate; NULL caps fall back to the flat policy values
+CREATE TABLE per_diem_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  country CHAR(2) NOT NULL,
+  city TEXT,
+  hotel_nightly_cap_cents BIGINT,
+  meal_daily_cap_cents BIGINT,
+  effective_from DATE NOT NULL,
+  effective_to DATE,                               -- Inclusive; NULL = open-ended
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+-- Department travel budgets per fiscal period (reporting currency cents)
+-- Pending and approved trips starting in the period count against the budget
+CREATE TABLE department_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department TEXT NOT NULL,
+  fiscal_period TEXT NOT NULL,                     -- Label, e.g. FY2026-Q1
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,                        -- Inclusive
+  budget_cents BIGINT NOT NULL CHECK (budget_cents >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (period_end >= period_start),
+  UNIQUE (department, fiscal_period)
+);
+
+-- Receipts (proof of purchase for trip items)
+-- File contents live in the blob store under storage_key; this table holds metadata only
+CREATE TABLE receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  trip_item_id UUID NOT NULL REFERENCES trip_items(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  sha256 TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
+  uploaded_by_user_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Exchange rates keyed by date
+-- One unit of base_currency is worth `rate` units of quote_currency on rate_date
+CREATE TABLE exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rate_date DATE NOT NULL,
+  base_currency CHAR(3) NOT NULL,
+  quote_currency CHAR(3) NOT NULL,
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (rate_date, base_currency, quote_currency)
+);
+
+-- Edits and removals of trip items, kept for finance review
+CREATE TABLE trip_item_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  trip_item_id UUID NOT NULL,                      -- No foreign key: history outlives removed items
+  change_type TEXT NOT NULL CHECK (change_type IN ('updated', 'removed')),
+  previous_values JSONB NOT NULL,                  -- Changed fields before the edit (whole item for removals)
+  new_values JSONB,                                -- Changed fields after the edit; NULL for removals
+  changed_by_user_id UUID NOT NULL REFERENCES users(id),
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
@@ -64,7 +265,8 @@ CREATE TABLE trip_items (
 CREATE TABLE violations (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
-  code TEXT NOT NULL,                              -- BUSINESS_CLASS, HOTEL_CAP, MEAL_CAP, PREAPPROVAL
+  trip_item_id UUID REFERENCES trip_items(id) ON DELETE SET NULL,  -- Item at fault; NULL for trip-level rules
+  code TEXT NOT NULL,                              -- Built-in (BUSINESS_CLASS, HOTEL_CAP, ...) or custom rule code
   severity violation_severity NOT NULL,
   message TEXT NOT NULL,
   computed_value_cents BIGINT,                     -- Value that triggered violation
@@ -72,22 +274,136 @@ CREATE TABLE violations (
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
--- Approval decisions
+-- Approval chain: the stages a submitted trip passes through, in stage_order
+-- A stage with no applies_over_cents and applies_with_blockers false is always
+-- required; otherwise it is required when the trip total reaches
+-- applies_over_cents or (if applies_with_blockers) the trip has blockers
+CREATE TABLE approval_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stage_order INT NOT NULL UNIQUE,
+  key TEXT NOT NULL UNIQUE,                        -- Recorded on each approval, e.g. line_manager
+  name TEXT NOT NULL,
+  approver_type TEXT NOT NULL CHECK (approver_type IN ('line_manager', 'role')),
+  approver_role user_role,                         -- Required for role stages
+  applies_over_cents BIGINT,                       -- Reporting currency cents
+  applies_with_blockers BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (approver_type <> 'role' OR approver_role IS NOT NULL)
+);
+
+-- Optional separation-of-duties rules, configured by admins
+-- Self-approval is always blocked and has no row here
+CREATE TABLE separation_of_duties_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule TEXT NOT NULL UNIQUE CHECK (rule IN ('reports_to_owner', 'same_department', 'distinct_stage_approvers')),
+  enabled BOOLEAN NOT NULL,
+  updated_by_user_id UUID REFERENCES users(id),
+  updated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Review authority granted by a reviewer to a colleague for a date range
+-- (out-of-office cover). The delegate acts with the delegator's authority.
+CREATE TABLE approval_delegations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delegator_user_id UUID NOT NULL REFERENCES users(id),
+  delegate_user_id UUID NOT NULL REFERENCES users(id),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  note TEXT,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (delegator_user_id <> delegate_user_id),
+  CHECK (start_date <= end_date)
+);
+
+CREATE INDEX idx_approval_delegations_delegate ON approval_delegations(delegate_user_id, start_date, end_date);
+
+-- Approval decisions, one row per stage sign-off
 CREATE TABLE approvals (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
-  reviewer_user_id UUID NOT NULL REFERENCES users(id),
+  reviewer_user_id UUID NOT NULL REFERENCES users(id),  -- Who made the decision
+  on_behalf_of_user_id UUID REFERENCES users(id),      -- Reviewer they were covering for, if delegated
   decision approval_decision NOT NULL,
+  stage TEXT,                                      -- approval_stages.key the decision was made at
   reason TEXT,                                     -- Required for approved_exception
-  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Tamper evidence: each decision is hash-chained to the previous one.
+  -- NULL for rows recorded before the chain was introduced.
+  chain_position INTEGER UNIQUE,
+  prev_hash TEXT,
+  hash TEXT,
+  CHECK ((chain_position IS NULL) = (hash IS NULL))
+);
+
+-- Reviewer comments attached to a decision, optionally pointing at an item
+-- or at the violation they are about. Violations are recomputed on every
+-- submission, so the violation is recorded by code rather than by ID.
+CREATE TABLE review_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  approval_id UUID NOT NULL REFERENCES approvals(id) ON DELETE CASCADE,
+  trip_item_id UUID REFERENCES trip_items(id) ON DELETE SET NULL,
+  violation_code TEXT,                             -- Violation the comment is about, if any
+  comment TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Tamper evidence, as on approvals
+  chain_position INTEGER UNIQUE,
+  prev_hash TEXT,
+  hash TEXT,
+  CHECK ((chain_position IS NULL) = (hash IS NULL))
 );
 
+-- Append-only audit trail of every change made through the tools. No foreign
+-- keys to trips or items so events outlive the rows they describe.
+CREATE TABLE audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID,                                    -- Trip the event belongs to; NULL for settings changes
+  actor_user_id UUID NOT NULL REFERENCES users(id),
+  actor_role user_role NOT NULL,                   -- Role the actor held at the time
+  on_behalf_of_user_id UUID REFERENCES users(id),  -- Reviewer the actor covered for, if delegated
+  action TEXT NOT NULL,                            -- e.g. trip.created, trip.status_changed, violations.evaluated
+  entity_type TEXT NOT NULL,                       -- trip, trip_item, receipt, violation, approval, ...
+  entity_id UUID,
+  before JSONB,                                    -- Values before the change (NULL for creations)
+  after JSONB,                                     -- Values after the change (NULL for removals)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Tamper evidence, as on approvals
+  chain_position INTEGER UNIQUE,
+  prev_hash TEXT,
+  hash TEXT,
+  CHECK ((chain_position IS NULL) = (hash IS NULL))
+);
+
+CREATE FUNCTION reject_audit_event_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_event_change();
+
 -- =============================================================================
 -- INDEXES
 -- =============================================================================
 
 CREATE INDEX idx_trips_user_status ON trips(user_id, status);
+CREATE INDEX idx_travel_policies_effective ON travel_policies(effective_from, version);
 CREATE INDEX idx_trip_items_trip ON trip_items(trip_id);
+CREATE INDEX idx_trip_item_changes_trip ON trip_item_changes(trip_id, created_at);
 CREATE INDEX idx_violations_trip ON violations(trip_id);
 CREATE INDEX idx_approvals_trip ON approvals(trip_id);
-CREATE INDEX idx_violations_code_created ON violations(code, created_at);
\ No newline at end of file
+CREATE INDEX idx_review_comments_trip ON review_comments(trip_id, created_at);
+CREATE INDEX idx_audit_events_trip ON audit_events(trip_id, created_at);
+CREATE INDEX idx_violations_code_created ON violations(code, created_at);
+CREATE INDEX idx_policy_overrides_policy ON policy_overrides(policy_id);
+CREATE INDEX idx_per_diem_rates_country_city ON per_diem_rates(country, city);
+CREATE INDEX idx_department_budgets_department_period ON department_budgets(department, period_start, period_end);
+CREATE INDEX idx_receipts_trip ON receipts(trip_id);
+CREATE INDEX idx_actual_expenses_trip ON actual_expenses(trip_id);
+CREATE INDEX idx_reimbursement_payments_trip ON reimbursement_payments(trip_id);
+CREATE INDEX idx_receipts_item ON receipts(trip_item_id);
+CREATE INDEX idx_exchange_rates_pair_date ON exchange_rates(base_currency, quote_currency, rate_date);
\ No newline at end of file
@@ -5,24 +5,110 @@
 -- POLICY
 -- =============================================================================
 
-INSERT INTO travel_policies (id, economy_only, hotel_nightly_cap_cents, meal_daily_cap_cents, preapproval_over_cents)
+INSERT INTO travel_policies (id, version, effective_from, change_note, economy_only, hotel_nightly_cap_cents, meal_daily_cap_cents, preapproval_over_cents, receipt_required_over_cents)
 VALUES (
   '00000000-0000-0000-0000-000000000001',
+  1,                     -- version
+  '2026-01-01',          -- effective_from
+  'Initial travel policy',
   true,                  -- economy_only
   25000,                 -- $250.00 hotel nightly cap
   7500,                  -- $75.00 meal daily cap
-  150000                 -- $1500.00 preapproval threshold
+  150000,                -- $1500.00 preapproval threshold
+  7500                   -- $75.00 receipt required above
 );
 
 -- =============================================================================
--- USERS (3 employees, 1 finance_manager, 1 admin)
+-- POLICY RULES (built-in rule tuning plus an example custom rule, disabled)
 -- =============================================================================
 
--- Employees
+INSERT INTO policy_rules (code, template, enabled, severity, params, description) VALUES
+  ('BUSINESS_CLASS',  NULL, true, NULL, '{}'::jsonb, NULL),
+  ('HOTEL_CAP',       NULL, true, NULL, '{"tolerancePercent": 0}'::jsonb, NULL),
+  ('MEAL_CAP',        NULL, true, NULL, '{"tolerancePercent": 0}'::jsonb, NULL),
+  ('PREAPPROVAL',     NULL, true, NULL, '{}'::jsonb, NULL),
+  ('MISSING_RECEIPT', NULL, true, NULL, '{"itemTypes": ["flight", "hotel", "meal", "transport"]}'::jsonb, NULL),
+  ('BUDGET_EXCEEDED', NULL, true, NULL, '{}'::jsonb, NULL),
+  ('OVER_APPROVED_AMOUNT', NULL, true, NULL, '{"tolerancePercent": 10}'::jsonb, NULL),
+  ('TRANSPORT_CAP', 'item_amount_cap', false, 'warning', '{"itemType": "transport", "maxCents": 30000}'::jsonb,
+   'Ground transport items above $300 need a justification');
+
+-- =============================================================================
+-- EXCHANGE RATES (to USD, the default reporting currency)
+-- =============================================================================
+
+INSERT INTO exchange_rates (rate_date, base_currency, quote_currency, rate) VALUES
+  ('2026-01-01', 'EUR', 'USD', 1.08500000),
+  ('2026-01-01', 'GBP', 'USD', 1.27000000),
+  ('2026-01-01', 'CAD', 'USD', 0.74000000),
+  ('2026-01-01', 'JPY', 'USD', 0.00680000),
+  ('2026-02-01', 'EUR', 'USD', 1.09200000),
+  ('2026-02-01', 'GBP', 'USD', 1.26500000),
+  ('2026-02-01', 'CAD', 'USD', 0.73600000),
+  ('2026-02-01', 'JPY', 'USD', 0.00672000),
+  ('2026-03-01', 'EUR', 'USD', 1.08800000),
+  ('2026-03-01', 'GBP', 'USD', 1.27400000),
+  ('2026-03-01', 'CAD', 'USD', 0.73900000),
+  ('2026-03-01', 'JPY', 'USD', 0.00675000);
+
+-- =============================================================================
+-- PER-DIEM RATES (city rates win over country-wide rates; others use the flat policy)
+-- =============================================================================
+
+INSERT INTO per_diem_rates (country, city, hotel_nightly_cap_cents, meal_daily_cap_cents, effective_from, effective_to) VALUES
+  ('US', 'New York',      32500, 9500, '2026-01-01', NULL),
+  ('US', 'San Francisco', 30000, 9000, '2026-01-01', NULL),
+  ('US', 'Omaha',         14000, 6000, '2026-01-01', NULL),
+  ('GB', 'London',        30000, 9000, '2026-01-01', NULL),
+  ('GB', NULL,            20000, 7000, '2026-01-01', NULL),
+  ('FR', 'Paris',         28000, 9000, '2026-01-01', NULL),
+  ('JP', 'Tokyo',         26000, 8500, '2026-01-01', NULL);
+
+-- =============================================================================
+-- DEPARTMENT BUDGETS (FY2026 quarters; trips count against the quarter they start in)
+-- =============================================================================
+
+INSERT INTO department_budgets (department, fiscal_period, period_start, period_end, budget_cents) VALUES
+  ('Engineering', 'FY2026-Q1', '2026-01-01', '2026-03-31', 600000),
+  ('Engineering', 'FY2026-Q2', '2026-04-01', '2026-06-30', 600000),
+  ('Engineering', 'FY2026-Q3', '2026-07-01', '2026-09-30', 600000),
+  ('Engineering', 'FY2026-Q4', '2026-10-01', '2026-12-31', 600000),
+  ('Sales',       'FY2026-Q1', '2026-01-01', '2026-03-31', 500000),
+  ('Sales',       'FY2026-Q2', '2026-04-01', '2026-06-30', 500000),
+  ('Sales',       'FY2026-Q3', '2026-07-01', '2026-09-30', 500000),
+  ('Sales',       'FY2026-Q4', '2026-10-01', '2026-12-31', 500000),
+  -- Tight first quarter: submitting Carol's Seattle draft (trip 6) exceeds it
+  ('Marketing',   'FY2026-Q1', '2026-01-01', '2026-03-31', 150000),
+  ('Marketing',   'FY2026-Q2', '2026-04-01', '2026-06-30', 400000),
+  ('Marketing',   'FY2026-Q3', '2026-07-01', '2026-09-30', 400000),
+  ('Marketing',   'FY2026-Q4', '2026-10-01', '2026-12-31', 400000);
+
+-- =============================================================================
+-- GENERAL-LEDGER ACCOUNTS (used by the accounting export)
+-- =============================================================================
+
+INSERT INTO gl_accounts (purpose, account_code, account_name) VALUES
+  ('flight',           '6110', 'Travel - Airfare'),
+  ('hotel',            '6120', 'Travel - Lodging'),
+  ('meal',             '6130', 'Travel - Meals'),
+  ('transport',        '6140', 'Travel - Ground Transport'),
+  ('employee_payable', '2150', 'Employee Reimbursements Payable'),
+  ('company_payable',  '2100', 'Accounts Payable - Direct Billing');
+
+-- =============================================================================
+-- USERS (5 employees, 1 finance_manager, 1 admin)
+-- =============================================================================
+
+-- Line managers (inserted first so reports can reference them)
 INSERT INTO users (id, name, role, department) VALUES
-  ('11111111-1111-1111-1111-111111111111', 'Alice Johnson', 'employee', 'Engineering'),
-  ('22222222-2222-2222-2222-222222222222', 'Bob Smith', 'employee', 'Sales'),
-  ('33333333-3333-3333-3333-333333333333', 'Carol Williams', 'employee', 'Marketing');
+  ('66666666-6666-6666-6666-666666666666', 'Frank Osei', 'employee', 'Executive'),
+  ('77777777-7777-7777-7777-777777777777', 'Grace Park', 'employee', 'Engineering');
+
+-- Employees
+INSERT INTO users (id, name, role, department, manager_id) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Alice Johnson', 'employee', 'Engineering', '77777777-7777-7777-7777-777777777777'),
+  ('22222222-2222-2222-2222-222222222222', 'Bob Smith', 'employee', 'Sales', '66666666-6666-6666-6666-666666666666'),
+  ('33333333-3333-3333-3333-333333333333', 'Carol Williams', 'employee', 'Marketing', '77777777-7777-7777-7777-777777777777');
 
 -- Finance Manager
 INSERT INTO users (id, name, role, department) VALUES
@@ -32,6 +118,34 @@ INSERT INTO users (id, name, role, department) VALUES
 INSERT INTO users (id, name, role, department) VALUES
   ('55555555-5555-5555-5555-555555555555', 'Eva Martinez', 'admin', 'Finance');
 
+-- =============================================================================
+-- APPROVAL CHAIN (line manager, then finance, then an admin for large or blocked trips)
+-- =============================================================================
+
+INSERT INTO approval_stages (stage_order, key, name, approver_type, approver_role, applies_over_cents, applies_with_blockers) VALUES
+  (1, 'line_manager', 'Line manager', 'line_manager', NULL, NULL, false),
+  (2, 'finance', 'Finance', 'role', 'finance_manager', NULL, false),
+  (3, 'executive', 'Executive sign-off', 'role', 'admin', 300000, true);
+
+-- =============================================================================
+-- SEPARATION OF DUTIES (self-approval is always blocked)
+-- =============================================================================
+
+INSERT INTO separation_of_duties_rules (rule, enabled) VALUES
+  ('reports_to_owner', true),
+  ('same_department', false),
+  ('distinct_stage_approvers', true);
+
+-- =============================================================================
+-- POLICY OVERRIDES (user > role > department > base policy)
+-- =============================================================================
+
+INSERT INTO policy_overrides (policy_id, scope_type, scope_value, meal_daily_cap_cents, business_class_min_flight_hours, note) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'department', 'Sales', 10000, NULL,
+   'Sales entertains clients over meals'),
+  ('00000000-0000-0000-0000-000000000001', 'user', '66666666-6666-6666-6666-666666666666', NULL, 6,
+   'Executives may fly business on long-haul flights');
+
 -- =============================================================================
 -- TRIPS + ITEMS (6 trips with violation scenarios)
 -- =============================================================================
@@ -40,15 +154,18 @@ INSERT INTO users (id, name, role, department) VALUES
 -- Trip 1: Business Class Violation (BLOCKER)
 -- Alice - Engineering - pending_review
 -- -----------------------------------------------------------------------------
-INSERT INTO trips (id, user_id, destination_city, start_date, end_date, purpose, status)
+INSERT INTO trips (id, user_id, destination_city, destination_country, start_date, end_date, purpose, status, policy_id, submitted_at)
 VALUES (
   'aaaa0001-0000-0000-0000-000000000001',
   '11111111-1111-1111-1111-111111111111',
   'New York',
+  'US',
   '2026-02-01',
   '2026-02-03',
   'Client presentation at NYC headquarters',
-  'pending_review'
+  'pending_review',
+  '00000000-0000-0000-0000-000000000001',
+  '2026-01-20T09:00:00Z'
 );
 
 INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
@@ -70,15 +187,18 @@ INSERT INTO violations (trip_id, code, severity, message, computed_value_cents,
 -- Trip 2: Hotel Cap Violation
 -- Bob - Sales - pending_review
 -- -----------------------------------------------------------------------------
-INSERT INTO trips (id, user_id, destination_city, start_date, end_date, purpose, status)
+INSERT INTO trips (id, user_id, destination_city, destination_country, start_date, end_date, purpose, status, policy_id, submitted_at)
 VALUES (
   'aaaa0002-0000-0000-0000-000000000002',
   '22222222-2222-2222-2222-222222222222',
   'Chicago',
+  'US',
   '2026-02-10',
   '2026-02-12',
   'Sales conference and partner meetings',
-  'pending_review'
+  'pending_review',
+  '00000000-0000-0000-0000-000000000001',
+  '2026-01-28T09:00:00Z'
 );
 
 INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
@@ -100,15 +220,18 @@ INSERT INTO violations (trip_id, code, severity, message, computed_value_cents,
 -- Trip 3: Meal Cap Violation
 -- Carol - Marketing - pending_review
 -- -----------------------------------------------------------------------------
-INSERT INTO trips (id, user_id, destination_city, start_date, end_date, purpose, status)
+INSERT INTO trips (id, user_id, destination_city, destination_country, start_date, end_date, purpose, status, policy_id, submitted_at)
 VALUES (
   'aaaa0003-0000-0000-0000-000000000003',
   '33333333-3333-3333-3333-333333333333',
   'Miami',
+  'US',
   '2026-02-15',
   '2026-02-17',
   'Marketing summit and brand workshop',
-  'pending_review'
+  'pending_review',
+  '00000000-0000-0000-0000-000000000001',
+  '2026-02-02T09:00:00Z'
 );
 
 INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
@@ -130,15 +253,18 @@ INSERT INTO violations (trip_id, code, severity, message, computed_value_cents,
 -- Trip 4: Total Spend Over Preapproval Threshold (BLOCKER)
 -- Alice - Engineering - pending_review
 -- -----------------------------------------------------------------------------
-INSERT INTO trips (id, user_id, destination_city, start_date, end_date, purpose, status)
+INSERT INTO trips (id, user_id, destination_city, destination_country, start_date, end_date, purpose, status, policy_id, submitted_at)
 VALUES (
   'aaaa0004-0000-0000-0000-000000000004',
   '11111111-1111-1111-1111-111111111111',
   'London',
+  'GB',
   '2026-03-01',
   '2026-03-07',
   'International engineering conference',
-  'pending_review'
+  'pending_review',
+  '00000000-0000-0000-0000-000000000001',
+  '2026-02-10T09:00:00Z'
 );
 
 INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
@@ -165,15 +291,18 @@ INSERT INTO violations (trip_id, code, severity, message, computed_value_cents,
 -- Trip 5: Clean Trip
 -- Bob - Sales - pending_review
 -- -----------------------------------------------------------------------------
-INSERT INTO trips (id, user_id, destination_city, start_date, end_date, purpose, status)
+INSERT INTO trips (id, user_id, destination_city, destination_country, start_date, end_date, purpose, status, policy_id, submitted_at)
 VALUES (
   'aaaa0005-0000-0000-0000-000000000005',
   '22222222-2222-2222-2222-222222222222',
   'Denver',
+  'US',
   '2026-02-20',
   '2026-02-21',
   'Quick client check-in',
-  'pending_review'
+  'pending_review',
+  '00000000-0000-0000-0000-000000000001',
+  '2026-02-12T09:00:00Z'
 );
 
 INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
@@ -191,15 +320,18 @@ INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
 -- Trip 6: Draft Trip (not yet submitted)
 -- Carol - Marketing - draft
 -- -----------------------------------------------------------------------------
-INSERT INTO trips (id, user_id, destination_city, start_date, end_date, purpose, status)
+INSERT INTO trips (id, user_id, destination_city, destination_country, start_date, end_date, purpose, status, policy_id, submitted_at)
 VALUES (
   'aaaa0006-0000-0000-0000-000000000006',
   '33333333-3333-3333-3333-333333333333',
   'Seattle',
+  'US',
   '2026-03-15',
   '2026-03-17',
   'Product launch event',
-  'draft'
+  'draft',
+  NULL,
+  NULL
 );
 
 INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
@@ -209,4 +341,15 @@ INSERT INTO trip_items (trip_id, type, description, amount_cents, meta) VALUES
    '{"nightly_rate_cents": 24000, "nights": 2}'::jsonb);
 -- Incomplete trip - no meals yet, still in draft
 
--- No violations computed yet
\ No newline at end of file
+-- No violations computed yet
+
+-- =============================================================================
+-- APPROVALS (line manager sign-offs, so most pending trips wait at finance;
+-- Trip 4 still waits for Grace Park)
+-- =============================================================================
+
+INSERT INTO approvals (trip_id, reviewer_user_id, decision, stage, reason, created_at) VALUES
+  ('aaaa0001-0000-0000-0000-000000000001', '77777777-7777-7777-7777-777777777777', 'approved', 'line_manager', NULL, '2026-01-21T10:00:00Z'),
+  ('aaaa0002-0000-0000-0000-000000000002', '66666666-6666-6666-6666-666666666666', 'approved', 'line_manager', NULL, '2026-01-29T10:00:00Z'),
+  ('aaaa0003-0000-0000-0000-000000000003', '77777777-7777-7777-7777-777777777777', 'approved', 'line_manager', NULL, '2026-02-02T10:00:00Z'),
+  ('aaaa0005-0000-0000-0000-000000000005', '66666666-6666-6666-6666-666666666666', 'approved', 'line_manager', NULL, '2026-02-13T10:00:00Z');
@@ -0,0 +1,127 @@
+/**
+ * Hash Chain
+ *
+ * Tamper evidence for approvals, review comments and audit events. Each new
+ * row records its position in the chain, the hash of the row before it and
+ * an HMAC-SHA-256 of its own content plus that link, so editing, removing or
+ * reordering a row breaks every later link. The HMAC key (AUDIT_CHAIN_SECRET)
+ * is kept out of the database, so someone who can write to the tables cannot
+ * recompute the hashes to cover an edit. Both storage backends build links
+ * here so the hashes they write are identical.
+ */
+
+import { createHmac } from 'crypto';
+import type { ApprovalRow, AuditEventRow, ReviewCommentRow } from '../types/domain';
+
+/** Columns covered by an approval's hash */
+export const APPROVAL_CHAIN_FIELDS = [
+  'id',
+  'trip_id',
+  'reviewer_user_id',
+  'on_behalf_of_user_id',
+  'decision',
+  'stage',
+  'reason',
+  'created_at',
+] as const satisfies ReadonlyArray<keyof ApprovalRow>;
+
+/** Columns covered by a review comment's hash */
+export const REVIEW_COMMENT_CHAIN_FIELDS = [
+  'id',
+  'trip_id',
+  'approval_id',
+  'trip_item_id',
+  'violation_code',
+  'comment',
+  'created_at',
+] as const satisfies ReadonlyArray<keyof ReviewCommentRow>;
+
+/** Columns covered by an audit event's hash */
+export const AUDIT_EVENT_CHAIN_FIELDS = [
+  'id',
+  'trip_id',
+  'actor_user_id',
+  'actor_role',
+  'on_behalf_of_user_id',
+  'action',
+  'entity_type',
+  'entity_id',
+  'before',
+  'after',
+  'created_at',
+] as const satisfies ReadonlyArray<keyof AuditEventRow>;
+
+export interface ChainLink {
+  chain_position: number;
+  prev_hash: string | null;
+  hash: string;
+}
+
+/**
+ * The HMAC key for chain hashes, from the environment only.
+ */
+function getChainSecret(): string {
+  const secret = process.env.AUDIT_CHAIN_SECRET;
+  if (!secret) {
+    throw new Error(
+      'AUDIT_CHAIN_SECRET not configured. Set it to a long random value kept outside the database.'
+    );
+  }
+  return secret;
+}
+
+/**
+ * JSON with object keys sorted at every level. JSONB columns do not keep
+ * key order, so hashes must not depend on it.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash of a row's content and its link to the previous row.
+ */
+export function computeChainHash(
+  record: Record<string, unknown>,
+  fields: readonly string[],
+  position: number,
+  prevHash: string | null
+): string {
+  const content: Record<string, unknown> = {};
+  for (const field of fields) {
+    // Timestamps come back from Postgres in a different format than written
+    content[field] =
+      field === 'created_at' ? new Date(String(record[field])).toISOString() : record[field] ?? null;
+  }
+
+  return createHmac('sha256', getChainSecret())
+    .update(canonicalJson({ position, prev_hash: prevHash, content }))
+    .digest('hex');
+}
+
+/**
+ * Link a new row to the current end of the chain (null for an empty chain).
+ */
+export function buildChainLink(
+  record: Record<string, unknown>,
+  fields: readonly string[],
+  tail: { chain_position: number | null; hash: string | null } | null
+): ChainLink {
+  const position = (tail?.chain_position ?? 0) + 1;
+  const prevHash = tail?.hash ?? null;
+  return {
+    chain_position: position,
+    prev_hash: prevHash,
+    hash: computeChainHash(record, fields, position, prevHash),
+  };
+}
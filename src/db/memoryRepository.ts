@@ -0,0 +1,1128 @@
+/**
+ * In-Memory Repository
+ *
+ * Full implementation of the storage contract backed by plain arrays.
+ * Used for laptops and sandboxes with no network access. Seeded from
+ * sql/seed.sql so it starts with the same users, policy and trips as Supabase.
+ *
+ * Column defaults mirror sql/schema.sql. Rows are cloned on the way in and
+ * out so callers can never mutate stored state by accident.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  UserRow,
+  TravelPolicyRow,
+  TripRow,
+  TripItemRow,
+  TripItemChangeRow,
+  ViolationRow,
+  ApprovalRow,
+  ApprovalStageRow,
+  ApprovalDelegationRow,
+  SeparationOfDutiesConfigRow,
+  ReviewCommentRow,
+  AuditEventRow,
+  ExchangeRateRow,
+  PerDiemRateRow,
+  DepartmentBudgetRow,
+  PolicyOverrideRow,
+  PolicyRuleConfigRow,
+  ReceiptRow,
+  ExpenseReportRow,
+  ActualExpenseRow,
+  ExpenseReportStatus,
+  PaymentBatchRow,
+  PaymentBatchStatus,
+  ReimbursementPaymentRow,
+  GlAccountRow,
+  AccountingExportRow,
+  AccountingExportTripRow,
+  TripStatus,
+  ViolationCode,
+} from '../types/domain';
+import type {
+  TravelExpenseRepository,
+  CreateUserParams,
+  UpdateUserParams,
+  ListUsersParams,
+  CreatePolicyVersionParams,
+  CreateTripParams,
+  UpdateTripParams,
+  CreateTripItemParams,
+  UpdateTripItemParams,
+  CreateTripItemChangeParams,
+  CreateViolationParams,
+  CreateApprovalParams,
+  CreateApprovalDelegationParams,
+  CreateReviewCommentParams,
+  CreateAuditEventParams,
+  SetSeparationOfDutiesRuleParams,
+  CreateReceiptParams,
+  CreateExpenseReportParams,
+  CreateActualExpenseParams,
+  CreatePaymentBatchParams,
+  CreateReimbursementPaymentParams,
+  CreateAccountingExportParams,
+} from './repository';
+import { loadSeedRows, type SeedRow } from './seedLoader';
+import {
+  buildChainLink,
+  APPROVAL_CHAIN_FIELDS,
+  AUDIT_EVENT_CHAIN_FIELDS,
+  REVIEW_COMMENT_CHAIN_FIELDS,
+} from './hashChain';
+
+interface MemoryTables {
+  users: UserRow[];
+  travel_policies: TravelPolicyRow[];
+  policy_overrides: PolicyOverrideRow[];
+  policy_rules: PolicyRuleConfigRow[];
+  trips: TripRow[];
+  trip_items: TripItemRow[];
+  trip_item_changes: TripItemChangeRow[];
+  violations: ViolationRow[];
+  approval_stages: ApprovalStageRow[];
+  separation_of_duties_rules: SeparationOfDutiesConfigRow[];
+  approval_delegations: ApprovalDelegationRow[];
+  approvals: ApprovalRow[];
+  audit_events: AuditEventRow[];
+  review_comments: ReviewCommentRow[];
+  per_diem_rates: PerDiemRateRow[];
+  department_budgets: DepartmentBudgetRow[];
+  receipts: ReceiptRow[];
+  expense_reports: ExpenseReportRow[];
+  actual_expenses: ActualExpenseRow[];
+  payment_batches: PaymentBatchRow[];
+  reimbursement_payments: ReimbursementPaymentRow[];
+  gl_accounts: GlAccountRow[];
+  accounting_exports: AccountingExportRow[];
+  accounting_export_trips: AccountingExportTripRow[];
+  exchange_rates: ExchangeRateRow[];
+}
+
+type TableName = keyof MemoryTables;
+type RowOf<T extends TableName> = MemoryTables[T][number];
+
+/**
+ * Column defaults from sql/schema.sql (id and created_at are always generated)
+ */
+const TABLE_DEFAULTS: { [T in TableName]: Partial<RowOf<T>> } = {
+  users: { manager_id: null, deactivated_at: null },
+  travel_policies: {
+    change_note: null,
+    economy_only: true,
+    hotel_nightly_cap_cents: 25000,
+    meal_daily_cap_cents: 7500,
+    preapproval_over_cents: 150000,
+    receipt_required_over_cents: 7500,
+    business_class_min_flight_hours: null,
+  },
+  policy_overrides: {
+    economy_only: null,
+    hotel_nightly_cap_cents: null,
+    meal_daily_cap_cents: null,
+    preapproval_over_cents: null,
+    receipt_required_over_cents: null,
+    business_class_min_flight_hours: null,
+    note: null,
+  },
+  policy_rules: { template: null, enabled: true, severity: null, params: {}, description: null },
+  trips: { destination_country: null, status: 'draft', policy_id: null, submitted_at: null },
+  trip_items: { currency: 'USD', fx_rate: 1, fx_rate_date: null, meta: {}, company_paid: false },
+  trip_item_changes: { new_values: null },
+  violations: { trip_item_id: null, computed_value_cents: null, policy_value_cents: null },
+  approval_stages: { approver_role: null, applies_over_cents: null, applies_with_blockers: false },
+  separation_of_duties_rules: { updated_by_user_id: null, updated_at: null },
+  approval_delegations: { note: null, revoked_at: null },
+  approvals: {
+    stage: null,
+    reason: null,
+    on_behalf_of_user_id: null,
+    chain_position: null,
+    prev_hash: null,
+    hash: null,
+  },
+  review_comments: {
+    trip_item_id: null,
+    violation_code: null,
+    chain_position: null,
+    prev_hash: null,
+    hash: null,
+  },
+  audit_events: {
+    trip_id: null,
+    on_behalf_of_user_id: null,
+    entity_id: null,
+    before: null,
+    after: null,
+    chain_position: null,
+    prev_hash: null,
+    hash: null,
+  },
+  per_diem_rates: {
+    city: null,
+    hotel_nightly_cap_cents: null,
+    meal_daily_cap_cents: null,
+    effective_to: null,
+  },
+  department_budgets: {},
+  receipts: {},
+  expense_reports: { status: 'draft', submitted_at: null },
+  actual_expenses: { currency: 'USD', fx_rate: 1, fx_rate_date: null, company_paid: false },
+  payment_batches: { status: 'draft', exported_at: null, paid_at: null },
+  reimbursement_payments: {},
+  gl_accounts: {},
+  accounting_exports: {},
+  accounting_export_trips: {},
+  exchange_rates: {},
+};
+
+/**
+ * Generated columns from sql/schema.sql, recomputed whenever a row is written
+ */
+const GENERATED_COLUMNS: { [T in TableName]?: (row: RowOf<T>) => Partial<RowOf<T>> } = {
+  trip_items: (row) => ({
+    reporting_amount_cents: Math.round(row.amount_cents * row.fx_rate),
+  }),
+  actual_expenses: (row) => ({
+    reporting_amount_cents: Math.round(row.amount_cents * row.fx_rate),
+  }),
+};
+
+export interface MemoryRepositoryOptions {
+  /** Seed rows to load; defaults to the rows in sql/seed.sql */
+  seed?: SeedRow[] | false;
+}
+
+export function createMemoryRepository(
+  options: MemoryRepositoryOptions = {}
+): TravelExpenseRepository {
+  const tables: MemoryTables = {
+    users: [],
+    travel_policies: [],
+    policy_overrides: [],
+    policy_rules: [],
+    trips: [],
+    trip_items: [],
+    trip_item_changes: [],
+    violations: [],
+    approval_stages: [],
+    separation_of_duties_rules: [],
+    approval_delegations: [],
+    approvals: [],
+    review_comments: [],
+    audit_events: [],
+    per_diem_rates: [],
+    department_budgets: [],
+    receipts: [],
+    expense_reports: [],
+    actual_expenses: [],
+    payment_batches: [],
+    reimbursement_payments: [],
+    gl_accounts: [],
+    accounting_exports: [],
+    accounting_export_trips: [],
+    exchange_rates: [],
+  };
+
+  // One strictly increasing clock for every timestamp, so created_at ordering
+  // is deterministic and submitted_at compares reliably with created_at
+  let lastTimestamp = 0;
+  const nextTimestamp = (): string => {
+    lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+    return new Date(lastTimestamp).toISOString();
+  };
+
+  const applyGenerated = <T extends TableName>(table: T, row: RowOf<T>): void => {
+    const generate = GENERATED_COLUMNS[table] as ((r: RowOf<T>) => Partial<RowOf<T>>) | undefined;
+    if (generate) Object.assign(row, generate(row));
+  };
+
+  const insertRow = <T extends TableName>(
+    table: T,
+    values: Partial<RowOf<T>>
+  ): RowOf<T> => {
+    const row = {
+      id: randomUUID(),
+      created_at: nextTimestamp(),
+      ...structuredClone(TABLE_DEFAULTS[table]),
+      ...structuredClone(values),
+    } as RowOf<T>;
+    applyGenerated(table, row);
+    (tables[table] as RowOf<T>[]).push(row);
+    return structuredClone(row);
+  };
+
+  const byCreatedAt = (direction: 'asc' | 'desc') =>
+    (a: { created_at: string }, b: { created_at: string }) =>
+      direction === 'asc'
+        ? a.created_at.localeCompare(b.created_at)
+        : b.created_at.localeCompare(a.created_at);
+
+  const findUser = (userId: string) => tables.users.find((u) => u.id === userId);
+
+  const chainTail = (rows: Array<{ chain_position: number | null; hash: string | null }>) =>
+    rows.reduce<{ chain_position: number | null; hash: string | null } | null>(
+      (tail, row) =>
+        row.chain_position !== null && row.chain_position > (tail?.chain_position ?? 0) ? row : tail,
+      null
+    );
+
+  // Rows that predate the hash chain first (by creation), then in chain order
+  const chainOrder = (
+    a: { chain_position: number | null; created_at: string },
+    b: { chain_position: number | null; created_at: string }
+  ): number => {
+    if (a.chain_position === null || b.chain_position === null) {
+      if (a.chain_position !== null) return 1;
+      if (b.chain_position !== null) return -1;
+      return a.created_at.localeCompare(b.created_at);
+    }
+    return a.chain_position - b.chain_position;
+  };
+
+  // Load seed data
+  const seedRows = options.seed === false ? [] : options.seed ?? loadSeedRows();
+  for (const { table, row } of seedRows) {
+    if (!(table in tables)) {
+      throw new Error(`Seed data references unknown table '${table}'`);
+    }
+    insertRow(table as TableName, row as Partial<RowOf<TableName>>);
+  }
+
+  return {
+    async testConnection(): Promise<boolean> {
+      return true;
+    },
+
+    // =========================================================================
+    // USERS
+    // =========================================================================
+
+    async getUserById(userId: string): Promise<UserRow | null> {
+      const user = findUser(userId);
+      return user ? structuredClone(user) : null;
+    },
+
+    async listUsers(params?: ListUsersParams): Promise<UserRow[]> {
+      return tables.users
+        .filter(
+          (u) =>
+            (!params?.department || u.department.toLowerCase() === params.department.toLowerCase()) &&
+            (!params?.role || u.role === params.role) &&
+            (params?.includeDeactivated || !u.deactivated_at)
+        )
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((u) => structuredClone(u));
+    },
+
+    async createUser(params: CreateUserParams): Promise<UserRow | null> {
+      if (params.managerId && !findUser(params.managerId)) return null;
+
+      return insertRow('users', {
+        name: params.name,
+        role: params.role,
+        department: params.department,
+        manager_id: params.managerId ?? null,
+      });
+    },
+
+    async updateUser(userId: string, params: UpdateUserParams): Promise<UserRow | null> {
+      const user = findUser(userId);
+      if (!user) return null;
+      if (params.managerId && !findUser(params.managerId)) return null;
+      user.name = params.name;
+      user.role = params.role;
+      user.department = params.department;
+      user.manager_id = params.managerId ?? null;
+      return structuredClone(user);
+    },
+
+    async deactivateUser(userId: string): Promise<boolean> {
+      const user = findUser(userId);
+      if (!user) return false;
+      user.deactivated_at = nextTimestamp();
+      return true;
+    },
+
+    // =========================================================================
+    // POLICIES
+    // =========================================================================
+
+    async getActivePolicy(
+      onDate: string = new Date().toISOString().slice(0, 10)
+    ): Promise<TravelPolicyRow | null> {
+      const [latest] = tables.travel_policies
+        .filter((p) => p.effective_from <= onDate)
+        .sort((a, b) => b.version - a.version);
+      return latest ? structuredClone(latest) : null;
+    },
+
+    async getPolicyById(policyId: string): Promise<TravelPolicyRow | null> {
+      const policy = tables.travel_policies.find((p) => p.id === policyId);
+      return policy ? structuredClone(policy) : null;
+    },
+
+    async getPolicyVersions(): Promise<TravelPolicyRow[]> {
+      return [...tables.travel_policies]
+        .sort((a, b) => a.version - b.version)
+        .map((p) => structuredClone(p));
+    },
+
+    async getPolicyOverrides(policyId: string): Promise<PolicyOverrideRow[]> {
+      return tables.policy_overrides
+        .filter((o) => o.policy_id === policyId)
+        .sort(byCreatedAt('asc'))
+        .map((o) => structuredClone(o));
+    },
+
+    async createPolicyVersion(params: CreatePolicyVersionParams): Promise<TravelPolicyRow | null> {
+      const latest = Math.max(0, ...tables.travel_policies.map((p) => p.version));
+
+      const policy = insertRow('travel_policies', {
+        version: latest + 1,
+        effective_from: params.effectiveFrom,
+        change_note: params.changeNote,
+        economy_only: params.economyOnly,
+        hotel_nightly_cap_cents: params.hotelNightlyCapCents,
+        meal_daily_cap_cents: params.mealDailyCapCents,
+        preapproval_over_cents: params.preapprovalOverCents,
+        receipt_required_over_cents: params.receiptRequiredOverCents,
+        business_class_min_flight_hours: params.businessClassMinFlightHours,
+      });
+
+      const overrides = tables.policy_overrides.filter(
+        (o) => o.policy_id === params.overridesFromPolicyId
+      );
+      for (const { id, created_at, ...override } of overrides) {
+        insertRow('policy_overrides', { ...override, policy_id: policy.id });
+      }
+
+      return policy;
+    },
+
+    // =========================================================================
+    // POLICY RULES
+    // =========================================================================
+
+    async getPolicyRuleConfigs(): Promise<PolicyRuleConfigRow[]> {
+      return [...tables.policy_rules].sort(byCreatedAt('asc')).map((r) => structuredClone(r));
+    },
+
+    // =========================================================================
+    // TRIPS
+    // =========================================================================
+
+    async createTrip(params: CreateTripParams): Promise<TripRow | null> {
+      return insertRow('trips', {
+        user_id: params.userId,
+        destination_city: params.destinationCity,
+        destination_country: params.destinationCountry ?? null,
+        start_date: params.startDate,
+        end_date: params.endDate,
+        purpose: params.purpose,
+        status: 'draft',
+      });
+    },
+
+    async getTripById(tripId: string): Promise<TripRow | null> {
+      const trip = tables.trips.find((t) => t.id === tripId);
+      return trip ? structuredClone(trip) : null;
+    },
+
+    async getTripsByUserId(userId: string, status?: TripStatus): Promise<TripRow[]> {
+      return tables.trips
+        .filter((t) => t.user_id === userId && (!status || t.status === status))
+        .sort(byCreatedAt('desc'))
+        .map((t) => structuredClone(t));
+    },
+
+    async getPendingTrips(params?: {
+      department?: string;
+    }): Promise<Array<TripRow & { user: UserRow }>> {
+      const results: Array<TripRow & { user: UserRow }> = [];
+
+      for (const trip of [...tables.trips].sort(byCreatedAt('desc'))) {
+        if (trip.status !== 'pending_review') continue;
+        const user = findUser(trip.user_id);
+        if (!user) continue;
+        if (params?.department && user.department !== params.department) continue;
+        results.push(structuredClone({ ...trip, user }));
+      }
+
+      return results;
+    },
+
+    async getApprovedTrips(): Promise<Array<TripRow & { user: UserRow; items: TripItemRow[] }>> {
+      const results: Array<TripRow & { user: UserRow; items: TripItemRow[] }> = [];
+
+      for (const trip of [...tables.trips].sort(byCreatedAt('desc'))) {
+        if (trip.status !== 'approved' && trip.status !== 'approved_exception') continue;
+        const user = findUser(trip.user_id);
+        if (!user) continue;
+        const items = tables.trip_items
+          .filter((i) => i.trip_id === trip.id)
+          .sort(byCreatedAt('asc'));
+        results.push(structuredClone({ ...trip, user, items }));
+      }
+
+      return results;
+    },
+
+    async updateTrip(tripId: string, params: UpdateTripParams): Promise<TripRow | null> {
+      const trip = tables.trips.find((t) => t.id === tripId);
+      if (!trip) return null;
+      trip.destination_city = params.destinationCity;
+      trip.destination_country = params.destinationCountry ?? null;
+      trip.start_date = params.startDate;
+      trip.end_date = params.endDate;
+      trip.purpose = params.purpose;
+      return structuredClone(trip);
+    },
+
+    async updateTripStatus(tripId: string, status: TripStatus): Promise<boolean> {
+      const trip = tables.trips.find((t) => t.id === tripId);
+      if (!trip) return false;
+      trip.status = status;
+      return true;
+    },
+
+    async recordTripSubmission(tripId: string, policyId: string): Promise<boolean> {
+      const trip = tables.trips.find((t) => t.id === tripId);
+      if (!trip) return false;
+      trip.policy_id = policyId;
+      trip.submitted_at = nextTimestamp();
+      return true;
+    },
+
+    async clearTripSubmission(tripId: string): Promise<boolean> {
+      const trip = tables.trips.find((t) => t.id === tripId);
+      if (!trip) return false;
+      trip.policy_id = null;
+      trip.submitted_at = null;
+      return true;
+    },
+
+    // =========================================================================
+    // TRIP ITEMS
+    // =========================================================================
+
+    async createTripItem(params: CreateTripItemParams): Promise<TripItemRow | null> {
+      if (!tables.trips.some((t) => t.id === params.tripId)) return null;
+
+      return insertRow('trip_items', {
+        trip_id: params.tripId,
+        type: params.type,
+        description: params.description,
+        amount_cents: params.amountCents,
+        currency: params.currency,
+        fx_rate: params.fxRate,
+        fx_rate_date: params.fxRateDate,
+        meta: params.meta,
+        company_paid: params.companyPaid,
+      });
+    },
+
+    async getTripItemById(itemId: string): Promise<TripItemRow | null> {
+      const item = tables.trip_items.find((i) => i.id === itemId);
+      return item ? structuredClone(item) : null;
+    },
+
+    async getTripItems(tripId: string): Promise<TripItemRow[]> {
+      return tables.trip_items
+        .filter((i) => i.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((i) => structuredClone(i));
+    },
+
+    async updateTripItem(
+      itemId: string,
+      params: UpdateTripItemParams
+    ): Promise<TripItemRow | null> {
+      const item = tables.trip_items.find((i) => i.id === itemId);
+      if (!item) return null;
+
+      Object.assign(item, {
+        type: params.type,
+        description: params.description,
+        amount_cents: params.amountCents,
+        currency: params.currency,
+        fx_rate: params.fxRate,
+        fx_rate_date: params.fxRateDate,
+        meta: structuredClone(params.meta),
+        company_paid: params.companyPaid,
+      });
+      applyGenerated('trip_items', item);
+      return structuredClone(item);
+    },
+
+    async deleteTripItem(itemId: string): Promise<boolean> {
+      if (!tables.trip_items.some((i) => i.id === itemId)) return false;
+
+      // Mirror the foreign keys: receipts cascade, violations and comments are detached
+      tables.trip_items = tables.trip_items.filter((i) => i.id !== itemId);
+      tables.receipts = tables.receipts.filter((r) => r.trip_item_id !== itemId);
+      for (const violation of tables.violations) {
+        if (violation.trip_item_id === itemId) violation.trip_item_id = null;
+      }
+      for (const comment of tables.review_comments) {
+        if (comment.trip_item_id === itemId) comment.trip_item_id = null;
+      }
+      return true;
+    },
+
+    // =========================================================================
+    // TRIP ITEM CHANGES
+    // =========================================================================
+
+    async createTripItemChange(
+      params: CreateTripItemChangeParams
+    ): Promise<TripItemChangeRow | null> {
+      if (!tables.trips.some((t) => t.id === params.tripId)) return null;
+
+      return insertRow('trip_item_changes', {
+        trip_id: params.tripId,
+        trip_item_id: params.tripItemId,
+        change_type: params.changeType,
+        previous_values: params.previousValues,
+        new_values: params.newValues,
+        changed_by_user_id: params.changedByUserId,
+      });
+    },
+
+    async getTripItemChanges(tripId: string): Promise<TripItemChangeRow[]> {
+      return tables.trip_item_changes
+        .filter((c) => c.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((c) => structuredClone(c));
+    },
+
+    // =========================================================================
+    // VIOLATIONS
+    // =========================================================================
+
+    async deleteViolationsForTrip(tripId: string, codes?: ViolationCode[]): Promise<void> {
+      tables.violations = tables.violations.filter(
+        (v) => v.trip_id !== tripId || (codes !== undefined && !codes.includes(v.code))
+      );
+    },
+
+    async createViolation(params: CreateViolationParams): Promise<ViolationRow | null> {
+      if (!tables.trips.some((t) => t.id === params.tripId)) return null;
+
+      return insertRow('violations', {
+        trip_id: params.tripId,
+        code: params.code,
+        severity: params.severity,
+        message: params.message,
+        trip_item_id: params.tripItemId ?? null,
+        computed_value_cents: params.computedValueCents ?? null,
+        policy_value_cents: params.policyValueCents ?? null,
+      });
+    },
+
+    async getViolationsForTrip(tripId: string): Promise<ViolationRow[]> {
+      return tables.violations
+        .filter((v) => v.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((v) => structuredClone(v));
+    },
+
+    async getViolationsInDateRange(
+      startDate: string,
+      endDate: string
+    ): Promise<Array<ViolationRow & { trip: TripRow & { user: UserRow } }>> {
+      const from = `${startDate}T00:00:00`;
+      const to = `${endDate}T23:59:59.999`;
+      const results: Array<ViolationRow & { trip: TripRow & { user: UserRow } }> = [];
+
+      for (const violation of tables.violations) {
+        if (violation.created_at < from || violation.created_at > to) continue;
+        const trip = tables.trips.find((t) => t.id === violation.trip_id);
+        const user = trip && findUser(trip.user_id);
+        if (!trip || !user) continue;
+        results.push(structuredClone({ ...violation, trip: { ...trip, user } }));
+      }
+
+      return results;
+    },
+
+    // =========================================================================
+    // APPROVALS
+    // =========================================================================
+
+    async getApprovalStages(): Promise<ApprovalStageRow[]> {
+      return [...tables.approval_stages]
+        .sort((a, b) => a.stage_order - b.stage_order)
+        .map((s) => structuredClone(s));
+    },
+
+    async createApproval(params: CreateApprovalParams): Promise<ApprovalRow | null> {
+      if (!tables.trips.some((t) => t.id === params.tripId)) return null;
+      if (!findUser(params.reviewerUserId)) return null;
+
+      const values = {
+        id: randomUUID(),
+        trip_id: params.tripId,
+        reviewer_user_id: params.reviewerUserId,
+        on_behalf_of_user_id: params.onBehalfOfUserId ?? null,
+        decision: params.decision,
+        stage: params.stage ?? null,
+        reason: params.reason ?? null,
+        created_at: nextTimestamp(),
+      };
+      return insertRow('approvals', {
+        ...values,
+        ...buildChainLink(values, APPROVAL_CHAIN_FIELDS, chainTail(tables.approvals)),
+      });
+    },
+
+    async getApprovalsForTrip(tripId: string): Promise<ApprovalRow[]> {
+      return tables.approvals
+        .filter((a) => a.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((a) => structuredClone(a));
+    },
+
+    async getApprovalChain(): Promise<ApprovalRow[]> {
+      return [...tables.approvals].sort(chainOrder).map((a) => structuredClone(a));
+    },
+
+    // =========================================================================
+    // APPROVAL DELEGATIONS
+    // =========================================================================
+
+    async createApprovalDelegation(
+      params: CreateApprovalDelegationParams
+    ): Promise<ApprovalDelegationRow | null> {
+      if (!findUser(params.delegatorUserId) || !findUser(params.delegateUserId)) return null;
+      if (params.delegatorUserId === params.delegateUserId) return null;
+      if (params.startDate > params.endDate) return null;
+
+      return insertRow('approval_delegations', {
+        delegator_user_id: params.delegatorUserId,
+        delegate_user_id: params.delegateUserId,
+        start_date: params.startDate,
+        end_date: params.endDate,
+        note: params.note ?? null,
+      });
+    },
+
+    async getApprovalDelegationById(delegationId: string): Promise<ApprovalDelegationRow | null> {
+      const delegation = tables.approval_delegations.find((d) => d.id === delegationId);
+      return delegation ? structuredClone(delegation) : null;
+    },
+
+    async getApprovalDelegationsForUser(userId: string): Promise<ApprovalDelegationRow[]> {
+      return tables.approval_delegations
+        .filter((d) => d.delegator_user_id === userId || d.delegate_user_id === userId)
+        .sort(byCreatedAt('desc'))
+        .map((d) => structuredClone(d));
+    },
+
+    async getActiveDelegationsForDelegate(
+      delegateUserId: string,
+      onDate: string
+    ): Promise<ApprovalDelegationRow[]> {
+      return tables.approval_delegations
+        .filter(
+          (d) =>
+            d.delegate_user_id === delegateUserId &&
+            d.revoked_at === null &&
+            d.start_date <= onDate &&
+            d.end_date >= onDate
+        )
+        .map((d) => structuredClone(d));
+    },
+
+    async revokeApprovalDelegation(delegationId: string): Promise<boolean> {
+      const delegation = tables.approval_delegations.find((d) => d.id === delegationId);
+      if (!delegation) return false;
+      delegation.revoked_at = nextTimestamp();
+      return true;
+    },
+
+    // =========================================================================
+    // REVIEW COMMENTS
+    // =========================================================================
+
+    async createReviewComment(
+      params: CreateReviewCommentParams
+    ): Promise<ReviewCommentRow | null> {
+      if (!tables.approvals.some((a) => a.id === params.approvalId)) return null;
+
+      const values = {
+        id: randomUUID(),
+        trip_id: params.tripId,
+        approval_id: params.approvalId,
+        trip_item_id: params.tripItemId ?? null,
+        violation_code: params.violationCode ?? null,
+        comment: params.comment,
+        created_at: nextTimestamp(),
+      };
+      return insertRow('review_comments', {
+        ...values,
+        ...buildChainLink(values, REVIEW_COMMENT_CHAIN_FIELDS, chainTail(tables.review_comments)),
+      });
+    },
+
+    async getReviewCommentsForTrip(tripId: string): Promise<ReviewCommentRow[]> {
+      return tables.review_comments
+        .filter((c) => c.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((c) => structuredClone(c));
+    },
+
+    async getReviewCommentChain(): Promise<ReviewCommentRow[]> {
+      return [...tables.review_comments].sort(chainOrder).map((c) => structuredClone(c));
+    },
+
+    // =========================================================================
+    // AUDIT TRAIL
+    // =========================================================================
+
+    async createAuditEvent(params: CreateAuditEventParams): Promise<AuditEventRow | null> {
+      if (!findUser(params.actorUserId)) return null;
+
+      const values = {
+        id: randomUUID(),
+        trip_id: params.tripId ?? null,
+        actor_user_id: params.actorUserId,
+        actor_role: params.actorRole,
+        on_behalf_of_user_id: params.onBehalfOfUserId ?? null,
+        action: params.action,
+        entity_type: params.entityType,
+        entity_id: params.entityId ?? null,
+        before: params.before ?? null,
+        after: params.after ?? null,
+        created_at: nextTimestamp(),
+      };
+      return insertRow('audit_events', {
+        ...values,
+        ...buildChainLink(values, AUDIT_EVENT_CHAIN_FIELDS, chainTail(tables.audit_events)),
+      });
+    },
+
+    async getAuditEventsForTrip(tripId: string): Promise<AuditEventRow[]> {
+      return tables.audit_events
+        .filter((e) => e.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((e) => structuredClone(e));
+    },
+
+    async getAuditEventChain(): Promise<AuditEventRow[]> {
+      return [...tables.audit_events].sort(chainOrder).map((e) => structuredClone(e));
+    },
+
+    // =========================================================================
+    // PER-DIEM RATES
+    // =========================================================================
+
+    async getPerDiemRates(onDate: string): Promise<PerDiemRateRow[]> {
+      return tables.per_diem_rates
+        .filter(
+          (r) => r.effective_from <= onDate && (r.effective_to === null || r.effective_to >= onDate)
+        )
+        .sort((a, b) => b.effective_from.localeCompare(a.effective_from))
+        .map((r) => structuredClone(r));
+    },
+
+    // =========================================================================
+    // DEPARTMENT BUDGETS
+    // =========================================================================
+
+    async getDepartmentBudgets(onDate: string): Promise<DepartmentBudgetRow[]> {
+      return tables.department_budgets
+        .filter((b) => b.period_start <= onDate && b.period_end >= onDate)
+        .sort((a, b) => a.department.localeCompare(b.department))
+        .map((b) => structuredClone(b));
+    },
+
+    // =========================================================================
+    // SEPARATION OF DUTIES
+    // =========================================================================
+
+    async getSeparationOfDutiesConfig(): Promise<SeparationOfDutiesConfigRow[]> {
+      return tables.separation_of_duties_rules.map((r) => structuredClone(r));
+    },
+
+    async setSeparationOfDutiesRule(
+      params: SetSeparationOfDutiesRuleParams
+    ): Promise<SeparationOfDutiesConfigRow | null> {
+      if (!findUser(params.updatedByUserId)) return null;
+
+      const existing = tables.separation_of_duties_rules.find((r) => r.rule === params.rule);
+      if (!existing) {
+        return insertRow('separation_of_duties_rules', {
+          rule: params.rule,
+          enabled: params.enabled,
+          updated_by_user_id: params.updatedByUserId,
+          updated_at: nextTimestamp(),
+        });
+      }
+
+      existing.enabled = params.enabled;
+      existing.updated_by_user_id = params.updatedByUserId;
+      existing.updated_at = nextTimestamp();
+      return structuredClone(existing);
+    },
+
+    // =========================================================================
+    // RECEIPTS
+    // =========================================================================
+
+    async createReceipt(params: CreateReceiptParams): Promise<ReceiptRow | null> {
+      const item = tables.trip_items.find((i) => i.id === params.tripItemId);
+      if (!item || item.trip_id !== params.tripId) return null;
+      if (!findUser(params.uploadedByUserId)) return null;
+
+      return insertRow('receipts', {
+        trip_id: params.tripId,
+        trip_item_id: params.tripItemId,
+        file_name: params.fileName,
+        content_type: params.contentType,
+        size_bytes: params.sizeBytes,
+        sha256: params.sha256,
+        storage_key: params.storageKey,
+        uploaded_by_user_id: params.uploadedByUserId,
+      });
+    },
+
+    async getReceiptsForTrip(tripId: string): Promise<ReceiptRow[]> {
+      return tables.receipts
+        .filter((r) => r.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((r) => structuredClone(r));
+    },
+
+    // =========================================================================
+    // EXPENSE REPORTS
+    // =========================================================================
+
+    async createExpenseReport(params: CreateExpenseReportParams): Promise<ExpenseReportRow | null> {
+      if (!tables.trips.some((t) => t.id === params.tripId)) return null;
+      // One report per trip (UNIQUE trip_id)
+      if (tables.expense_reports.some((r) => r.trip_id === params.tripId)) return null;
+
+      return insertRow('expense_reports', {
+        trip_id: params.tripId,
+      });
+    },
+
+    async getExpenseReportForTrip(tripId: string): Promise<ExpenseReportRow | null> {
+      const report = tables.expense_reports.find((r) => r.trip_id === tripId);
+      return report ? structuredClone(report) : null;
+    },
+
+    async updateExpenseReportStatus(
+      reportId: string,
+      status: ExpenseReportStatus
+    ): Promise<boolean> {
+      const report = tables.expense_reports.find((r) => r.id === reportId);
+      if (!report) return false;
+      report.status = status;
+      return true;
+    },
+
+    async recordExpenseReportSubmission(reportId: string): Promise<boolean> {
+      const report = tables.expense_reports.find((r) => r.id === reportId);
+      if (!report) return false;
+      report.submitted_at = nextTimestamp();
+      return true;
+    },
+
+    async createActualExpense(params: CreateActualExpenseParams): Promise<ActualExpenseRow | null> {
+      const report = tables.expense_reports.find((r) => r.id === params.reportId);
+      if (!report || report.trip_id !== params.tripId) return null;
+
+      return insertRow('actual_expenses', {
+        report_id: params.reportId,
+        trip_id: params.tripId,
+        type: params.type,
+        description: params.description,
+        amount_cents: params.amountCents,
+        currency: params.currency,
+        fx_rate: params.fxRate,
+        fx_rate_date: params.fxRateDate,
+        expense_date: params.expenseDate,
+        company_paid: params.companyPaid,
+      });
+    },
+
+    async getActualExpenseById(expenseId: string): Promise<ActualExpenseRow | null> {
+      const expense = tables.actual_expenses.find((e) => e.id === expenseId);
+      return expense ? structuredClone(expense) : null;
+    },
+
+    async getActualExpensesForTrip(tripId: string): Promise<ActualExpenseRow[]> {
+      return tables.actual_expenses
+        .filter((e) => e.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((e) => structuredClone(e));
+    },
+
+    async deleteActualExpense(expenseId: string): Promise<boolean> {
+      if (!tables.actual_expenses.some((e) => e.id === expenseId)) return false;
+      tables.actual_expenses = tables.actual_expenses.filter((e) => e.id !== expenseId);
+      return true;
+    },
+
+    // =========================================================================
+    // REIMBURSEMENTS
+    // =========================================================================
+
+    async createPaymentBatch(params: CreatePaymentBatchParams): Promise<PaymentBatchRow | null> {
+      if (tables.payment_batches.some((b) => b.reference === params.reference)) return null;
+
+      return insertRow('payment_batches', {
+        reference: params.reference,
+        created_by_user_id: params.createdByUserId,
+      });
+    },
+
+    async getPaymentBatchById(batchId: string): Promise<PaymentBatchRow | null> {
+      const batch = tables.payment_batches.find((b) => b.id === batchId);
+      return batch ? structuredClone(batch) : null;
+    },
+
+    async getPaymentBatches(): Promise<PaymentBatchRow[]> {
+      return [...tables.payment_batches]
+        .sort(byCreatedAt('desc'))
+        .map((b) => structuredClone(b));
+    },
+
+    async updatePaymentBatchStatus(
+      batchId: string,
+      status: PaymentBatchStatus
+    ): Promise<PaymentBatchRow | null> {
+      const batch = tables.payment_batches.find((b) => b.id === batchId);
+      if (!batch) return null;
+      batch.status = status;
+      if (status === 'exported') batch.exported_at = nextTimestamp();
+      if (status === 'paid') batch.paid_at = nextTimestamp();
+      return structuredClone(batch);
+    },
+
+    async createReimbursementPayment(
+      params: CreateReimbursementPaymentParams
+    ): Promise<ReimbursementPaymentRow | null> {
+      if (!tables.payment_batches.some((b) => b.id === params.batchId)) return null;
+      if (
+        tables.reimbursement_payments.some(
+          (p) => p.batch_id === params.batchId && p.trip_id === params.tripId
+        )
+      ) {
+        return null;
+      }
+
+      return insertRow('reimbursement_payments', {
+        batch_id: params.batchId,
+        trip_id: params.tripId,
+        user_id: params.userId,
+        amount_cents: params.amountCents,
+      });
+    },
+
+    async getReimbursementPayments(): Promise<ReimbursementPaymentRow[]> {
+      return [...tables.reimbursement_payments]
+        .sort(byCreatedAt('asc'))
+        .map((p) => structuredClone(p));
+    },
+
+    async getReimbursementPaymentsForBatch(batchId: string): Promise<ReimbursementPaymentRow[]> {
+      return tables.reimbursement_payments
+        .filter((p) => p.batch_id === batchId)
+        .sort(byCreatedAt('asc'))
+        .map((p) => structuredClone(p));
+    },
+
+    async getReimbursementPaymentsForTrip(tripId: string): Promise<ReimbursementPaymentRow[]> {
+      return tables.reimbursement_payments
+        .filter((p) => p.trip_id === tripId)
+        .sort(byCreatedAt('asc'))
+        .map((p) => structuredClone(p));
+    },
+
+    // =========================================================================
+    // ACCOUNTING EXPORTS
+    // =========================================================================
+
+    async getGlAccounts(): Promise<GlAccountRow[]> {
+      return tables.gl_accounts.map((a) => structuredClone(a));
+    },
+
+    async createAccountingExport(
+      params: CreateAccountingExportParams
+    ): Promise<AccountingExportRow | null> {
+      if (tables.accounting_exports.some((e) => e.reference === params.reference)) return null;
+      if (tables.accounting_export_trips.some((t) => params.tripIds.includes(t.trip_id))) return null;
+
+      const exportRow = insertRow('accounting_exports', {
+        reference: params.reference,
+        start_date: params.startDate,
+        end_date: params.endDate,
+        trip_count: params.tripIds.length,
+        total_cents: params.totalCents,
+        created_by_user_id: params.createdByUserId,
+      });
+      for (const tripId of params.tripIds) {
+        insertRow('accounting_export_trips', { export_id: exportRow.id, trip_id: tripId });
+      }
+      return exportRow;
+    },
+
+    async getAccountingExports(): Promise<AccountingExportRow[]> {
+      return [...tables.accounting_exports]
+        .sort(byCreatedAt('desc'))
+        .map((e) => structuredClone(e));
+    },
+
+    async getExportedTripIds(tripIds: string[]): Promise<string[]> {
+      return tables.accounting_export_trips
+        .filter((t) => tripIds.includes(t.trip_id))
+        .map((t) => t.trip_id);
+    },
+
+    // =========================================================================
+    // EXCHANGE RATES
+    // =========================================================================
+
+    async getExchangeRate(
+      baseCurrency: string,
+      quoteCurrency: string,
+      onDate: string
+    ): Promise<ExchangeRateRow | null> {
+      const [latest] = tables.exchange_rates
+        .filter(
+          (r) =>
+            r.base_currency === baseCurrency &&
+            r.quote_currency === quoteCurrency &&
+            r.rate_date <= onDate
+        )
+        .sort((a, b) => b.rate_date.localeCompare(a.rate_date));
+      return latest ? structuredClone(latest) : null;
+    },
+
+    // =========================================================================
+    // ANALYTICS QUERIES
+    // =========================================================================
+
+    async getTripsInDateRange(
+      startDate: string,
+      endDate: string
+    ): Promise<Array<TripRow & { user: UserRow; items: TripItemRow[] }>> {
+      const results: Array<TripRow & { user: UserRow; items: TripItemRow[] }> = [];
+
+      for (const trip of tables.trips) {
+        if (trip.start_date < startDate || trip.start_date > endDate) continue;
+        const user = findUser(trip.user_id);
+        if (!user) continue;
+        const items = tables.trip_items.filter((i) => i.trip_id === trip.id);
+        results.push(structuredClone({ ...trip, user, items }));
+      }
+
+      return results;
+    },
+  };
+}
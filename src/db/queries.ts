@@ -1,23 +1,64 @@
 /**
  * Database Query Helpers
- * 
- * Encapsulates all Supabase queries. Tool functions use these helpers
- * rather than making direct database calls.
+ *
+ * Entry point for all storage access. Tool functions use these helpers
+ * rather than making direct database calls; each helper delegates to the
+ * repository selected by STORAGE_BACKEND (Supabase or in-memory).
  */
 
-import { getSupabase } from './supabaseClient';
+import { getRepository } from './repository';
+import type {
+  CreateUserParams,
+  UpdateUserParams,
+  ListUsersParams,
+  CreatePolicyVersionParams,
+  CreateTripParams,
+  UpdateTripParams,
+  CreateTripItemParams,
+  UpdateTripItemParams,
+  CreateTripItemChangeParams,
+  CreateViolationParams,
+  CreateApprovalParams,
+  CreateApprovalDelegationParams,
+  CreateReviewCommentParams,
+  CreateAuditEventParams,
+  SetSeparationOfDutiesRuleParams,
+  CreateReceiptParams,
+  CreateExpenseReportParams,
+  CreateActualExpenseParams,
+  CreatePaymentBatchParams,
+  CreateReimbursementPaymentParams,
+  CreateAccountingExportParams,
+} from './repository';
 import type {
   UserRow,
   TravelPolicyRow,
   TripRow,
   TripItemRow,
+  TripItemChangeRow,
   ViolationRow,
   ApprovalRow,
+  ApprovalStageRow,
+  ApprovalDelegationRow,
+  SeparationOfDutiesConfigRow,
+  ReviewCommentRow,
+  AuditEventRow,
+  ExchangeRateRow,
+  PerDiemRateRow,
+  DepartmentBudgetRow,
+  PolicyOverrideRow,
+  PolicyRuleConfigRow,
+  ReceiptRow,
+  ExpenseReportRow,
+  ActualExpenseRow,
+  ExpenseReportStatus,
+  PaymentBatchRow,
+  PaymentBatchStatus,
+  ReimbursementPaymentRow,
+  GlAccountRow,
+  AccountingExportRow,
   TripStatus,
-  ItemType,
   ViolationCode,
-  ViolationSeverity,
-  ApprovalDecision,
 } from '../types/domain';
 
 // =============================================================================
@@ -25,286 +66,448 @@ import type {
 // =============================================================================
 
 export async function getUserById(userId: string): Promise<UserRow | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('users')
-    .select('*')
-    .eq('id', userId)
-    .single();
+  return getRepository().getUserById(userId);
+}
+
+export async function listUsers(params?: ListUsersParams): Promise<UserRow[]> {
+  return getRepository().listUsers(params);
+}
+
+export async function createUser(params: CreateUserParams): Promise<UserRow | null> {
+  return getRepository().createUser(params);
+}
 
-  if (error) return null;
-  return data as UserRow;
+export async function updateUser(
+  userId: string,
+  params: UpdateUserParams
+): Promise<UserRow | null> {
+  return getRepository().updateUser(userId, params);
+}
+
+export async function deactivateUser(userId: string): Promise<boolean> {
+  return getRepository().deactivateUser(userId);
 }
 
 // =============================================================================
 // POLICIES
 // =============================================================================
 
-export async function getActivePolicy(): Promise<TravelPolicyRow | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('travel_policies')
-    .select('*')
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .single();
+export async function getActivePolicy(onDate?: string): Promise<TravelPolicyRow | null> {
+  return getRepository().getActivePolicy(onDate);
+}
+
+export async function getPolicyById(policyId: string): Promise<TravelPolicyRow | null> {
+  return getRepository().getPolicyById(policyId);
+}
 
-  if (error) return null;
-  return data as TravelPolicyRow;
+export async function getPolicyVersions(): Promise<TravelPolicyRow[]> {
+  return getRepository().getPolicyVersions();
+}
+
+export async function getPolicyOverrides(policyId: string): Promise<PolicyOverrideRow[]> {
+  return getRepository().getPolicyOverrides(policyId);
+}
+
+export async function createPolicyVersion(
+  params: CreatePolicyVersionParams
+): Promise<TravelPolicyRow | null> {
+  return getRepository().createPolicyVersion(params);
 }
 
 // =============================================================================
-// TRIPS
+// POLICY RULES
 // =============================================================================
 
-export async function createTrip(params: {
-  userId: string;
-  destinationCity: string;
-  startDate: string;
-  endDate: string;
-  purpose: string;
-}): Promise<TripRow | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('trips')
-    .insert({
-      user_id: params.userId,
-      destination_city: params.destinationCity,
-      start_date: params.startDate,
-      end_date: params.endDate,
-      purpose: params.purpose,
-      status: 'draft',
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('createTrip error:', error);
-    return null;
+export async function getPolicyRuleConfigs(): Promise<PolicyRuleConfigRow[]> {
+  return getRepository().getPolicyRuleConfigs();
+}
+
+/**
+ * The policy a trip was evaluated under, or the current policy if the
+ * trip has not been submitted yet.
+ */
+export async function getPolicyForTrip(trip: TripRow): Promise<TravelPolicyRow | null> {
+  if (trip.policy_id) {
+    return getRepository().getPolicyById(trip.policy_id);
   }
-  return data as TripRow;
+  return getRepository().getActivePolicy();
 }
 
-export async function getTripById(tripId: string): Promise<TripRow | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('trips')
-    .select('*')
-    .eq('id', tripId)
-    .single();
+// =============================================================================
+// TRIPS
+// =============================================================================
+
+export async function createTrip(params: CreateTripParams): Promise<TripRow | null> {
+  return getRepository().createTrip(params);
+}
 
-  if (error) return null;
-  return data as TripRow;
+export async function getTripById(tripId: string): Promise<TripRow | null> {
+  return getRepository().getTripById(tripId);
 }
 
 export async function getTripsByUserId(
   userId: string,
   status?: TripStatus
 ): Promise<TripRow[]> {
-  const supabase = getSupabase();
-  let query = supabase
-    .from('trips')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false });
-
-  if (status) {
-    query = query.eq('status', status);
-  }
-
-  const { data, error } = await query;
-  if (error) return [];
-  return data as TripRow[];
+  return getRepository().getTripsByUserId(userId, status);
 }
 
 export async function getPendingTrips(params?: {
   department?: string;
 }): Promise<Array<TripRow & { user: UserRow }>> {
-  const supabase = getSupabase();
-  let query = supabase
-    .from('trips')
-    .select('*, user:users(*)')
-    .eq('status', 'pending_review')
-    .order('created_at', { ascending: false });
-
-  const { data, error } = await query;
-  if (error) return [];
-
-  let results = data as Array<TripRow & { user: UserRow }>;
+  return getRepository().getPendingTrips(params);
+}
 
-  // Filter by department if specified
-  if (params?.department) {
-    results = results.filter((t) => t.user.department === params.department);
-  }
+export async function getApprovedTrips(): Promise<
+  Array<TripRow & { user: UserRow; items: TripItemRow[] }>
+> {
+  return getRepository().getApprovedTrips();
+}
 
-  return results;
+export async function updateTrip(
+  tripId: string,
+  params: UpdateTripParams
+): Promise<TripRow | null> {
+  return getRepository().updateTrip(tripId, params);
 }
 
 export async function updateTripStatus(
   tripId: string,
   status: TripStatus
 ): Promise<boolean> {
-  const supabase = getSupabase();
-  const { error } = await supabase
-    .from('trips')
-    .update({ status })
-    .eq('id', tripId);
+  return getRepository().updateTripStatus(tripId, status);
+}
 
-  return !error;
+export async function recordTripSubmission(tripId: string, policyId: string): Promise<boolean> {
+  return getRepository().recordTripSubmission(tripId, policyId);
+}
+
+export async function clearTripSubmission(tripId: string): Promise<boolean> {
+  return getRepository().clearTripSubmission(tripId);
 }
 
 // =============================================================================
 // TRIP ITEMS
 // =============================================================================
 
-export async function createTripItem(params: {
-  tripId: string;
-  type: ItemType;
-  description: string;
-  amountCents: number;
-  meta: Record<string, unknown>;
-}): Promise<TripItemRow | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('trip_items')
-    .insert({
-      trip_id: params.tripId,
-      type: params.type,
-      description: params.description,
-      amount_cents: params.amountCents,
-      meta: params.meta,
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('createTripItem error:', error);
-    return null;
-  }
-  return data as TripItemRow;
+export async function createTripItem(params: CreateTripItemParams): Promise<TripItemRow | null> {
+  return getRepository().createTripItem(params);
+}
+
+export async function getTripItemById(itemId: string): Promise<TripItemRow | null> {
+  return getRepository().getTripItemById(itemId);
 }
 
 export async function getTripItems(tripId: string): Promise<TripItemRow[]> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('trip_items')
-    .select('*')
-    .eq('trip_id', tripId)
-    .order('created_at', { ascending: true });
+  return getRepository().getTripItems(tripId);
+}
+
+export async function updateTripItem(
+  itemId: string,
+  params: UpdateTripItemParams
+): Promise<TripItemRow | null> {
+  return getRepository().updateTripItem(itemId, params);
+}
 
-  if (error) return [];
-  return data as TripItemRow[];
+export async function deleteTripItem(itemId: string): Promise<boolean> {
+  return getRepository().deleteTripItem(itemId);
 }
 
 export async function getTripTotalCents(tripId: string): Promise<number> {
   const items = await getTripItems(tripId);
-  return items.reduce((sum, item) => sum + item.amount_cents, 0);
+  return items.reduce((sum, item) => sum + item.reporting_amount_cents, 0);
+}
+
+// =============================================================================
+// TRIP ITEM CHANGES
+// =============================================================================
+
+export async function createTripItemChange(
+  params: CreateTripItemChangeParams
+): Promise<TripItemChangeRow | null> {
+  return getRepository().createTripItemChange(params);
+}
+
+export async function getTripItemChanges(tripId: string): Promise<TripItemChangeRow[]> {
+  return getRepository().getTripItemChanges(tripId);
 }
 
 // =============================================================================
 // VIOLATIONS
 // =============================================================================
 
-export async function deleteViolationsForTrip(tripId: string): Promise<void> {
-  const supabase = getSupabase();
-  await supabase.from('violations').delete().eq('trip_id', tripId);
-}
-
-export async function createViolation(params: {
-  tripId: string;
-  code: ViolationCode;
-  severity: ViolationSeverity;
-  message: string;
-  computedValueCents?: number | null;
-  policyValueCents?: number | null;
-}): Promise<ViolationRow | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('violations')
-    .insert({
-      trip_id: params.tripId,
-      code: params.code,
-      severity: params.severity,
-      message: params.message,
-      computed_value_cents: params.computedValueCents ?? null,
-      policy_value_cents: params.policyValueCents ?? null,
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('createViolation error:', error);
-    return null;
-  }
-  return data as ViolationRow;
+export async function deleteViolationsForTrip(tripId: string, codes?: ViolationCode[]): Promise<void> {
+  return getRepository().deleteViolationsForTrip(tripId, codes);
 }
 
-export async function getViolationsForTrip(tripId: string): Promise<ViolationRow[]> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('violations')
-    .select('*')
-    .eq('trip_id', tripId)
-    .order('created_at', { ascending: true });
+export async function createViolation(params: CreateViolationParams): Promise<ViolationRow | null> {
+  return getRepository().createViolation(params);
+}
 
-  if (error) return [];
-  return data as ViolationRow[];
+export async function getViolationsForTrip(tripId: string): Promise<ViolationRow[]> {
+  return getRepository().getViolationsForTrip(tripId);
 }
 
 export async function getViolationsInDateRange(
   startDate: string,
   endDate: string
 ): Promise<Array<ViolationRow & { trip: TripRow & { user: UserRow } }>> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('violations')
-    .select('*, trip:trips(*, user:users(*))')
-    .gte('created_at', `${startDate}T00:00:00Z`)
-    .lte('created_at', `${endDate}T23:59:59Z`);
-
-  if (error) return [];
-  return data as Array<ViolationRow & { trip: TripRow & { user: UserRow } }>;
+  return getRepository().getViolationsInDateRange(startDate, endDate);
 }
 
 // =============================================================================
 // APPROVALS
 // =============================================================================
 
-export async function createApproval(params: {
-  tripId: string;
-  reviewerUserId: string;
-  decision: ApprovalDecision;
-  reason?: string | null;
-}): Promise<ApprovalRow | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('approvals')
-    .insert({
-      trip_id: params.tripId,
-      reviewer_user_id: params.reviewerUserId,
-      decision: params.decision,
-      reason: params.reason ?? null,
-    })
-    .select()
-    .single();
-
-  if (error) {
-    console.error('createApproval error:', error);
-    return null;
-  }
-  return data as ApprovalRow;
+export async function getApprovalStages(): Promise<ApprovalStageRow[]> {
+  return getRepository().getApprovalStages();
+}
+
+export async function createApproval(params: CreateApprovalParams): Promise<ApprovalRow | null> {
+  return getRepository().createApproval(params);
 }
 
 export async function getApprovalsForTrip(tripId: string): Promise<ApprovalRow[]> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('approvals')
-    .select('*')
-    .eq('trip_id', tripId)
-    .order('created_at', { ascending: true });
+  return getRepository().getApprovalsForTrip(tripId);
+}
+
+export async function getApprovalChain(): Promise<ApprovalRow[]> {
+  return getRepository().getApprovalChain();
+}
+
+// =============================================================================
+// APPROVAL DELEGATIONS
+// =============================================================================
+
+export async function createApprovalDelegation(
+  params: CreateApprovalDelegationParams
+): Promise<ApprovalDelegationRow | null> {
+  return getRepository().createApprovalDelegation(params);
+}
+
+export async function getApprovalDelegationById(
+  delegationId: string
+): Promise<ApprovalDelegationRow | null> {
+  return getRepository().getApprovalDelegationById(delegationId);
+}
+
+export async function getApprovalDelegationsForUser(
+  userId: string
+): Promise<ApprovalDelegationRow[]> {
+  return getRepository().getApprovalDelegationsForUser(userId);
+}
+
+export async function getActiveDelegationsForDelegate(
+  delegateUserId: string,
+  onDate: string
+): Promise<ApprovalDelegationRow[]> {
+  return getRepository().getActiveDelegationsForDelegate(delegateUserId, onDate);
+}
+
+export async function revokeApprovalDelegation(delegationId: string): Promise<boolean> {
+  return getRepository().revokeApprovalDelegation(delegationId);
+}
+
+// =============================================================================
+// REVIEW COMMENTS
+// =============================================================================
+
+export async function createReviewComment(
+  params: CreateReviewCommentParams
+): Promise<ReviewCommentRow | null> {
+  return getRepository().createReviewComment(params);
+}
 
-  if (error) return [];
-  return data as ApprovalRow[];
+export async function getReviewCommentsForTrip(tripId: string): Promise<ReviewCommentRow[]> {
+  return getRepository().getReviewCommentsForTrip(tripId);
+}
+
+export async function getReviewCommentChain(): Promise<ReviewCommentRow[]> {
+  return getRepository().getReviewCommentChain();
+}
+
+// =============================================================================
+// SEPARATION OF DUTIES
+// =============================================================================
+
+export async function getSeparationOfDutiesConfig(): Promise<SeparationOfDutiesConfigRow[]> {
+  return getRepository().getSeparationOfDutiesConfig();
+}
+
+export async function setSeparationOfDutiesRule(
+  params: SetSeparationOfDutiesRuleParams
+): Promise<SeparationOfDutiesConfigRow | null> {
+  return getRepository().setSeparationOfDutiesRule(params);
+}
+
+// =============================================================================
+// AUDIT TRAIL
+// =============================================================================
+
+export async function createAuditEvent(
+  params: CreateAuditEventParams
+): Promise<AuditEventRow | null> {
+  return getRepository().createAuditEvent(params);
+}
+
+export async function getAuditEventsForTrip(tripId: string): Promise<AuditEventRow[]> {
+  return getRepository().getAuditEventsForTrip(tripId);
+}
+
+export async function getAuditEventChain(): Promise<AuditEventRow[]> {
+  return getRepository().getAuditEventChain();
+}
+
+// =============================================================================
+// PER-DIEM RATES
+// =============================================================================
+
+export async function getPerDiemRates(onDate: string): Promise<PerDiemRateRow[]> {
+  return getRepository().getPerDiemRates(onDate);
+}
+
+// =============================================================================
+// DEPARTMENT BUDGETS
+// =============================================================================
+
+export async function getDepartmentBudgets(onDate: string): Promise<DepartmentBudgetRow[]> {
+  return getRepository().getDepartmentBudgets(onDate);
+}
+
+// =============================================================================
+// RECEIPTS
+// =============================================================================
+
+export async function createReceipt(params: CreateReceiptParams): Promise<ReceiptRow | null> {
+  return getRepository().createReceipt(params);
+}
+
+export async function getReceiptsForTrip(tripId: string): Promise<ReceiptRow[]> {
+  return getRepository().getReceiptsForTrip(tripId);
+}
+
+// =============================================================================
+// EXPENSE REPORTS
+// =============================================================================
+
+export async function createExpenseReport(
+  params: CreateExpenseReportParams
+): Promise<ExpenseReportRow | null> {
+  return getRepository().createExpenseReport(params);
+}
+
+export async function getExpenseReportForTrip(tripId: string): Promise<ExpenseReportRow | null> {
+  return getRepository().getExpenseReportForTrip(tripId);
+}
+
+export async function updateExpenseReportStatus(
+  reportId: string,
+  status: ExpenseReportStatus
+): Promise<boolean> {
+  return getRepository().updateExpenseReportStatus(reportId, status);
+}
+
+export async function recordExpenseReportSubmission(reportId: string): Promise<boolean> {
+  return getRepository().recordExpenseReportSubmission(reportId);
+}
+
+export async function createActualExpense(
+  params: CreateActualExpenseParams
+): Promise<ActualExpenseRow | null> {
+  return getRepository().createActualExpense(params);
+}
+
+export async function getActualExpenseById(expenseId: string): Promise<ActualExpenseRow | null> {
+  return getRepository().getActualExpenseById(expenseId);
+}
+
+export async function getActualExpensesForTrip(tripId: string): Promise<ActualExpenseRow[]> {
+  return getRepository().getActualExpensesForTrip(tripId);
+}
+
+export async function deleteActualExpense(expenseId: string): Promise<boolean> {
+  return getRepository().deleteActualExpense(expenseId);
+}
+
+// =============================================================================
+// REIMBURSEMENTS
+// =============================================================================
+
+export async function createPaymentBatch(
+  params: CreatePaymentBatchParams
+): Promise<PaymentBatchRow | null> {
+  return getRepository().createPaymentBatch(params);
+}
+
+export async function getPaymentBatchById(batchId: string): Promise<PaymentBatchRow | null> {
+  return getRepository().getPaymentBatchById(batchId);
+}
+
+export async function getPaymentBatches(): Promise<PaymentBatchRow[]> {
+  return getRepository().getPaymentBatches();
+}
+
+export async function updatePaymentBatchStatus(
+  batchId: string,
+  status: PaymentBatchStatus
+): Promise<PaymentBatchRow | null> {
+  return getRepository().updatePaymentBatchStatus(batchId, status);
+}
+
+export async function createReimbursementPayment(
+  params: CreateReimbursementPaymentParams
+): Promise<ReimbursementPaymentRow | null> {
+  return getRepository().createReimbursementPayment(params);
+}
+
+export async function getReimbursementPayments(): Promise<ReimbursementPaymentRow[]> {
+  return getRepository().getReimbursementPayments();
+}
+
+export async function getReimbursementPaymentsForBatch(
+  batchId: string
+): Promise<ReimbursementPaymentRow[]> {
+  return getRepository().getReimbursementPaymentsForBatch(batchId);
+}
+
+export async function getReimbursementPaymentsForTrip(
+  tripId: string
+): Promise<ReimbursementPaymentRow[]> {
+  return getRepository().getReimbursementPaymentsForTrip(tripId);
+}
+
+// =============================================================================
+// ACCOUNTING EXPORTS
+// =============================================================================
+
+export async function getGlAccounts(): Promise<GlAccountRow[]> {
+  return getRepository().getGlAccounts();
+}
+
+export async function createAccountingExport(
+  params: CreateAccountingExportParams
+): Promise<AccountingExportRow | null> {
+  return getRepository().createAccountingExport(params);
+}
+
+export async function getAccountingExports(): Promise<AccountingExportRow[]> {
+  return getRepository().getAccountingExports();
+}
+
+export async function getExportedTripIds(tripIds: string[]): Promise<string[]> {
+  return getRepository().getExportedTripIds(tripIds);
+}
+
+// =============================================================================
+// EXCHANGE RATES
+// =============================================================================
+
+export async function getExchangeRate(
+  baseCurrency: string,
+  quoteCurrency: string,
+  onDate: string
+): Promise<ExchangeRateRow | null> {
+  return getRepository().getExchangeRate(baseCurrency, quoteCurrency, onDate);
 }
 
 // =============================================================================
@@ -315,13 +518,13 @@ export async function getTripsInDateRange(
   startDate: string,
   endDate: string
 ): Promise<Array<TripRow & { user: UserRow; items: TripItemRow[] }>> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('trips')
-    .select('*, user:users(*), items:trip_items(*)')
-    .gte('start_date', startDate)
-    .lte('start_date', endDate);
-
-  if (error) return [];
-  return data as Array<TripRow & { user: UserRow; items: TripItemRow[] }>;
-}
\ No newline at end of file
+  return getRepository().getTripsInDateRange(startDate, endDate);
+}
+
+// =============================================================================
+// CONNECTION
+// =============================================================================
+
+export async function testConnection(): Promise<boolean> {
+  return getRepository().testConnection();
+}
@@ -0,0 +1,438 @@
+/**
+ * Storage Repository
+ *
+ * Defines the storage contract used by every tool function. The backend is
+ * chosen by configuration (STORAGE_BACKEND), so the policy logic and the
+ * agent can run against Supabase or fully in memory with the same code.
+ */
+
+import type {
+  UserRow,
+  TravelPolicyRow,
+  TripRow,
+  TripItemRow,
+  TripItemChangeRow,
+  ViolationRow,
+  ApprovalRow,
+  ApprovalStageRow,
+  ApprovalDelegationRow,
+  SeparationOfDutiesConfigRow,
+  ReviewCommentRow,
+  ExchangeRateRow,
+  PerDiemRateRow,
+  DepartmentBudgetRow,
+  PolicyOverrideRow,
+  PolicyRuleConfigRow,
+  ReceiptRow,
+  ExpenseReportRow,
+  ActualExpenseRow,
+  ExpenseReportStatus,
+  PaymentBatchRow,
+  PaymentBatchStatus,
+  ReimbursementPaymentRow,
+  GlAccountRow,
+  AccountingExportRow,
+  TripStatus,
+  TripItemChangeType,
+  ItemType,
+  ViolationCode,
+  ViolationSeverity,
+  ApprovalDecision,
+  SeparationOfDutiesRule,
+  AuditEventRow,
+  AuditAction,
+  AuditEntityType,
+  UserRole,
+} from '../types/domain';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+
+// =============================================================================
+// PARAMETER TYPES
+// =============================================================================
+
+export interface CreateUserParams {
+  name: string;
+  role: UserRole;
+  department: string;
+  managerId?: string | null;
+}
+
+/** Full new values for an existing user */
+export type UpdateUserParams = CreateUserParams;
+
+export interface ListUsersParams {
+  department?: string;
+  role?: UserRole;
+  /** Include deactivated users (default false) */
+  includeDeactivated?: boolean;
+}
+
+export interface CreatePolicyVersionParams {
+  effectiveFrom: string;
+  changeNote: string;
+  economyOnly: boolean;
+  hotelNightlyCapCents: number;
+  mealDailyCapCents: number;
+  preapprovalOverCents: number;
+  receiptRequiredOverCents: number;
+  businessClassMinFlightHours: number | null;
+  /** Copy this version's overrides so they keep applying */
+  overridesFromPolicyId?: string | null;
+}
+
+export interface CreateTripParams {
+  userId: string;
+  destinationCity: string;
+  destinationCountry?: string | null;
+  startDate: string;
+  endDate: string;
+  purpose: string;
+}
+
+/** Full new header values for an existing trip */
+export type UpdateTripParams = Omit<CreateTripParams, 'userId'>;
+
+export interface CreateTripItemParams {
+  tripId: string;
+  type: ItemType;
+  description: string;
+  amountCents: number;
+  currency: string;
+  fxRate: number;
+  fxRateDate: string | null;
+  meta: Record<string, unknown>;
+  companyPaid: boolean;
+}
+
+/** Full new values for an existing item */
+export type UpdateTripItemParams = Omit<CreateTripItemParams, 'tripId'>;
+
+export interface CreateTripItemChangeParams {
+  tripId: string;
+  tripItemId: string;
+  changeType: TripItemChangeType;
+  previousValues: Record<string, unknown>;
+  newValues: Record<string, unknown> | null;
+  changedByUserId: string;
+}
+
+export interface CreateViolationParams {
+  tripId: string;
+  tripItemId?: string | null;
+  code: ViolationCode;
+  severity: ViolationSeverity;
+  message: string;
+  computedValueCents?: number | null;
+  policyValueCents?: number | null;
+}
+
+export interface CreateApprovalParams {
+  tripId: string;
+  reviewerUserId: string;
+  decision: ApprovalDecision;
+  /** Approval chain stage the decision was made at */
+  stage?: string | null;
+  reason?: string | null;
+  /** Reviewer the decision was made for under a delegation */
+  onBehalfOfUserId?: string | null;
+}
+
+export interface CreateApprovalDelegationParams {
+  delegatorUserId: string;
+  delegateUserId: string;
+  startDate: string;
+  endDate: string;
+  note?: string | null;
+}
+
+export interface CreateReviewCommentParams {
+  tripId: string;
+  approvalId: string;
+  tripItemId?: string | null;
+  violationCode?: ViolationCode | null;
+  comment: string;
+}
+
+export interface SetSeparationOfDutiesRuleParams {
+  rule: SeparationOfDutiesRule;
+  enabled: boolean;
+  updatedByUserId: string;
+}
+
+export interface CreateAuditEventParams {
+  tripId?: string | null;
+  actorUserId: string;
+  actorRole: UserRole;
+  onBehalfOfUserId?: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface CreateReceiptParams {
+  tripId: string;
+  tripItemId: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  sha256: string;
+  storageKey: string;
+  uploadedByUserId: string;
+}
+
+export interface CreateExpenseReportParams {
+  tripId: string;
+}
+
+export interface CreateActualExpenseParams {
+  reportId: string;
+  tripId: string;
+  type: ItemType;
+  description: string;
+  amountCents: number;
+  currency: string;
+  fxRate: number;
+  fxRateDate: string | null;
+  expenseDate: string;
+  companyPaid: boolean;
+}
+
+export interface CreatePaymentBatchParams {
+  reference: string;
+  createdByUserId: string;
+}
+
+export interface CreateReimbursementPaymentParams {
+  batchId: string;
+  tripId: string;
+  userId: string;
+  amountCents: number;
+}
+
+export interface CreateAccountingExportParams {
+  reference: string;
+  startDate: string;
+  endDate: string;
+  totalCents: number;
+  createdByUserId: string;
+  tripIds: string[];
+}
+
+// =============================================================================
+// REPOSITORY CONTRACT
+// =============================================================================
+
+export interface TravelExpenseRepository {
+  /** Verify the backend is reachable */
+  testConnection(): Promise<boolean>;
+
+  // Users
+  getUserById(userId: string): Promise<UserRow | null>;
+  /** Users ordered by name */
+  listUsers(params?: ListUsersParams): Promise<UserRow[]>;
+  createUser(params: CreateUserParams): Promise<UserRow | null>;
+  updateUser(userId: string, params: UpdateUserParams): Promise<UserRow | null>;
+  deactivateUser(userId: string): Promise<boolean>;
+
+  // Policies
+  /** Newest policy version in effect on the given date (defaults to today) */
+  getActivePolicy(onDate?: string): Promise<TravelPolicyRow | null>;
+  getPolicyById(policyId: string): Promise<TravelPolicyRow | null>;
+  /** Every policy version, oldest first */
+  getPolicyVersions(): Promise<TravelPolicyRow[]>;
+  getPolicyOverrides(policyId: string): Promise<PolicyOverrideRow[]>;
+  /** Add the next policy version (numbered after the latest) */
+  createPolicyVersion(params: CreatePolicyVersionParams): Promise<TravelPolicyRow | null>;
+
+  // Policy rule configuration
+  getPolicyRuleConfigs(): Promise<PolicyRuleConfigRow[]>;
+
+  // Trips
+  createTrip(params: CreateTripParams): Promise<TripRow | null>;
+  getTripById(tripId: string): Promise<TripRow | null>;
+  getTripsByUserId(userId: string, status?: TripStatus): Promise<TripRow[]>;
+  getPendingTrips(params?: { department?: string }): Promise<Array<TripRow & { user: UserRow }>>;
+  /** Approved and approved_exception trips, newest first */
+  getApprovedTrips(): Promise<Array<TripRow & { user: UserRow; items: TripItemRow[] }>>;
+  updateTrip(tripId: string, params: UpdateTripParams): Promise<TripRow | null>;
+  updateTripStatus(tripId: string, status: TripStatus): Promise<boolean>;
+  /** Pin the policy version a submission was evaluated under */
+  recordTripSubmission(tripId: string, policyId: string): Promise<boolean>;
+  /** Unpin the policy version when a submission is withdrawn */
+  clearTripSubmission(tripId: string): Promise<boolean>;
+
+  // Trip items
+  createTripItem(params: CreateTripItemParams): Promise<TripItemRow | null>;
+  getTripItemById(itemId: string): Promise<TripItemRow | null>;
+  getTripItems(tripId: string): Promise<TripItemRow[]>;
+  updateTripItem(itemId: string, params: UpdateTripItemParams): Promise<TripItemRow | null>;
+  /** Removes the item and, by cascade, its receipts */
+  deleteTripItem(itemId: string): Promise<boolean>;
+
+  // Trip item change history
+  createTripItemChange(params: CreateTripItemChangeParams): Promise<TripItemChangeRow | null>;
+  getTripItemChanges(tripId: string): Promise<TripItemChangeRow[]>;
+
+  // Violations
+  /** Only the violations with the given codes, when codes are passed */
+  deleteViolationsForTrip(tripId: string, codes?: ViolationCode[]): Promise<void>;
+  createViolation(params: CreateViolationParams): Promise<ViolationRow | null>;
+  getViolationsForTrip(tripId: string): Promise<ViolationRow[]>;
+  getViolationsInDateRange(
+    startDate: string,
+    endDate: string
+  ): Promise<Array<ViolationRow & { trip: TripRow & { user: UserRow } }>>;
+
+  // Approval chain
+  /** Every configured stage, in stage_order */
+  getApprovalStages(): Promise<ApprovalStageRow[]>;
+
+  // Approvals (hash-chained on insert)
+  createApproval(params: CreateApprovalParams): Promise<ApprovalRow | null>;
+  getApprovalsForTrip(tripId: string): Promise<ApprovalRow[]>;
+  /** Every approval: rows that predate the chain first, then in chain order */
+  getApprovalChain(): Promise<ApprovalRow[]>;
+
+  // Approval delegations
+  createApprovalDelegation(
+    params: CreateApprovalDelegationParams
+  ): Promise<ApprovalDelegationRow | null>;
+  getApprovalDelegationById(delegationId: string): Promise<ApprovalDelegationRow | null>;
+  /** Delegations the user granted or received, newest first */
+  getApprovalDelegationsForUser(userId: string): Promise<ApprovalDelegationRow[]>;
+  /** Unrevoked delegations to the user covering the given date */
+  getActiveDelegationsForDelegate(
+    delegateUserId: string,
+    onDate: string
+  ): Promise<ApprovalDelegationRow[]>;
+  revokeApprovalDelegation(delegationId: string): Promise<boolean>;
+
+  // Review comments (hash-chained on insert)
+  createReviewComment(params: CreateReviewCommentParams): Promise<ReviewCommentRow | null>;
+  getReviewCommentsForTrip(tripId: string): Promise<ReviewCommentRow[]>;
+  /** Every review comment: rows that predate the chain first, then in chain order */
+  getReviewCommentChain(): Promise<ReviewCommentRow[]>;
+
+  // Separation of duties
+  getSeparationOfDutiesConfig(): Promise<SeparationOfDutiesConfigRow[]>;
+  /** Insert or update the row for a rule */
+  setSeparationOfDutiesRule(
+    params: SetSeparationOfDutiesRuleParams
+  ): Promise<SeparationOfDutiesConfigRow | null>;
+
+  // Audit trail (append-only: there is no update or delete; hash-chained on insert)
+  createAuditEvent(params: CreateAuditEventParams): Promise<AuditEventRow | null>;
+  /** Events for a trip, oldest first */
+  getAuditEventsForTrip(tripId: string): Promise<AuditEventRow[]>;
+  /** Every audit event: rows that predate the chain first, then in chain order */
+  getAuditEventChain(): Promise<AuditEventRow[]>;
+
+  // Per-diem rates
+  /** All per-diem rates in effect on the given date */
+  getPerDiemRates(onDate: string): Promise<PerDiemRateRow[]>;
+
+  // Department budgets
+  /** Budgets whose fiscal period includes the given date, by department */
+  getDepartmentBudgets(onDate: string): Promise<DepartmentBudgetRow[]>;
+
+  // Receipts
+  createReceipt(params: CreateReceiptParams): Promise<ReceiptRow | null>;
+  getReceiptsForTrip(tripId: string): Promise<ReceiptRow[]>;
+
+  // Expense reports
+  createExpenseReport(params: CreateExpenseReportParams): Promise<ExpenseReportRow | null>;
+  getExpenseReportForTrip(tripId: string): Promise<ExpenseReportRow | null>;
+  updateExpenseReportStatus(reportId: string, status: ExpenseReportStatus): Promise<boolean>;
+  /** Stamp submitted_at with the current time */
+  recordExpenseReportSubmission(reportId: string): Promise<boolean>;
+  createActualExpense(params: CreateActualExpenseParams): Promise<ActualExpenseRow | null>;
+  getActualExpenseById(expenseId: string): Promise<ActualExpenseRow | null>;
+  getActualExpensesForTrip(tripId: string): Promise<ActualExpenseRow[]>;
+  deleteActualExpense(expenseId: string): Promise<boolean>;
+
+  // Reimbursements
+  createPaymentBatch(params: CreatePaymentBatchParams): Promise<PaymentBatchRow | null>;
+  getPaymentBatchById(batchId: string): Promise<PaymentBatchRow | null>;
+  getPaymentBatches(): Promise<PaymentBatchRow[]>;
+  /** Also stamps exported_at or paid_at when moving to that status */
+  updatePaymentBatchStatus(batchId: string, status: PaymentBatchStatus): Promise<PaymentBatchRow | null>;
+  createReimbursementPayment(
+    params: CreateReimbursementPaymentParams
+  ): Promise<ReimbursementPaymentRow | null>;
+  getReimbursementPayments(): Promise<ReimbursementPaymentRow[]>;
+  getReimbursementPaymentsForBatch(batchId: string): Promise<ReimbursementPaymentRow[]>;
+  getReimbursementPaymentsForTrip(tripId: string): Promise<ReimbursementPaymentRow[]>;
+
+  // Accounting exports
+  getGlAccounts(): Promise<GlAccountRow[]>;
+  /** Fails (null) if any of the trips has already been exported */
+  createAccountingExport(params: CreateAccountingExportParams): Promise<AccountingExportRow | null>;
+  getAccountingExports(): Promise<AccountingExportRow[]>;
+  /** The subset of the given trips that have already been exported */
+  getExportedTripIds(tripIds: string[]): Promise<string[]>;
+
+  // Exchange rates
+  /** Most recent rate for the pair on or before the given date */
+  getExchangeRate(
+    baseCurrency: string,
+    quoteCurrency: string,
+    onDate: string
+  ): Promise<ExchangeRateRow | null>;
+
+  // Analytics
+  getTripsInDateRange(
+    startDate: string,
+    endDate: string
+  ): Promise<Array<TripRow & { user: UserRow; items: TripItemRow[] }>>;
+}
+
+// =============================================================================
+// BACKEND SELECTION
+// =============================================================================
+
+export type StorageBackend = 'supabase' | 'memory';
+
+const VALID_BACKENDS: StorageBackend[] = ['supabase', 'memory'];
+
+let repositoryInstance: TravelExpenseRepository | null = null;
+
+/**
+ * Read the configured storage backend (defaults to supabase).
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'supabase') as StorageBackend;
+
+  if (!VALID_BACKENDS.includes(backend)) {
+    throw new Error(
+      `STORAGE_BACKEND must be one of: ${VALID_BACKENDS.join(', ')}. Got: ${backend}`
+    );
+  }
+
+  return backend;
+}
+
+/**
+ * Get the repository singleton for the configured backend.
+ */
+export function getRepository(): TravelExpenseRepository {
+  if (repositoryInstance) {
+    return repositoryInstance;
+  }
+
+  repositoryInstance =
+    getStorageBackend() === 'memory'
+      ? createMemoryRepository()
+      : createSupabaseRepository();
+
+  return repositoryInstance;
+}
+
+/**
+ * Replace the active repository (e.g. a pre-seeded in-memory store in a sandbox).
+ */
+export function setRepository(repository: TravelExpenseRepository): void {
+  repositoryInstance = repository;
+}
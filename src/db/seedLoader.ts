@@ -0,0 +1,214 @@
+/**
+ * Seed Loader
+ *
+ * Reads the INSERT statements in sql/seed.sql so the in-memory backend is
+ * seeded from exactly the same data as a freshly provisioned Supabase project.
+ * Only the subset of SQL used by the seed file is supported:
+ * INSERT INTO table (columns) VALUES (...), (...);
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+export interface SeedRow {
+  table: string;
+  row: Record<string, unknown>;
+}
+
+type Token =
+  | { kind: 'string'; value: string; cast?: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'word'; value: string }
+  | { kind: 'punct'; value: string };
+
+/**
+ * Default location of the seed file (works from both src/ and dist/)
+ */
+export function getDefaultSeedPath(): string {
+  return process.env.SEED_FILE || resolve(__dirname, '../../sql/seed.sql');
+}
+
+/**
+ * Load and parse seed rows in file order
+ */
+export function loadSeedRows(seedPath: string = getDefaultSeedPath()): SeedRow[] {
+  return parseSeedSql(readFileSync(seedPath, 'utf8'));
+}
+
+/**
+ * Parse INSERT statements from SQL text into table rows
+ */
+export function parseSeedSql(sql: string): SeedRow[] {
+  const tokens = tokenize(sql);
+  const rows: SeedRow[] = [];
+  let pos = 0;
+
+  const expectWord = (word: string) => {
+    const token = tokens[pos++];
+    if (!token || token.kind !== 'word' || token.value.toUpperCase() !== word) {
+      throw new Error(`Seed parse error: expected ${word}`);
+    }
+  };
+
+  const expectPunct = (punct: string) => {
+    const token = tokens[pos++];
+    if (!token || token.kind !== 'punct' || token.value !== punct) {
+      throw new Error(`Seed parse error: expected '${punct}'`);
+    }
+  };
+
+  while (pos < tokens.length) {
+    const token = tokens[pos];
+
+    // Skip anything that is not an INSERT statement
+    if (token.kind !== 'word' || token.value.toUpperCase() !== 'INSERT') {
+      pos++;
+      continue;
+    }
+
+    pos++;
+    expectWord('INTO');
+    const tableToken = tokens[pos++];
+    if (tableToken.kind !== 'word') {
+      throw new Error('Seed parse error: expected table name');
+    }
+
+    // Column list
+    const columns: string[] = [];
+    expectPunct('(');
+    while (tokens[pos].kind !== 'punct' || tokens[pos].value !== ')') {
+      const col = tokens[pos++];
+      if (col.kind === 'word') columns.push(col.value);
+    }
+    pos++;
+
+    expectWord('VALUES');
+
+    // One or more value tuples
+    for (;;) {
+      expectPunct('(');
+      const values: unknown[] = [];
+      while (tokens[pos].kind !== 'punct' || tokens[pos].value !== ')') {
+        const valueToken = tokens[pos++];
+        if (valueToken.kind === 'punct' && valueToken.value === ',') continue;
+        values.push(tokenToValue(valueToken));
+      }
+      pos++;
+
+      if (values.length !== columns.length) {
+        throw new Error(
+          `Seed parse error: ${tableToken.value} expects ${columns.length} values, got ${values.length}`
+        );
+      }
+
+      const row: Record<string, unknown> = {};
+      columns.forEach((col, i) => {
+        row[col] = values[i];
+      });
+      rows.push({ table: tableToken.value, row });
+
+      const next = tokens[pos++];
+      if (!next || (next.kind === 'punct' && next.value === ';')) break;
+      if (next.kind !== 'punct' || next.value !== ',') {
+        throw new Error('Seed parse error: expected \',\' or \';\' after values');
+      }
+    }
+  }
+
+  return rows;
+}
+
+// =============================================================================
+// INTERNALS
+// =============================================================================
+
+function tokenToValue(token: Token): unknown {
+  switch (token.kind) {
+    case 'string':
+      return token.cast === 'jsonb' || token.cast === 'json'
+        ? JSON.parse(token.value)
+        : token.value;
+    case 'number':
+      return token.value;
+    case 'word': {
+      const upper = token.value.toUpperCase();
+      if (upper === 'NULL') return null;
+      if (upper === 'TRUE') return true;
+      if (upper === 'FALSE') return false;
+      throw new Error(`Seed parse error: unsupported value ${token.value}`);
+    }
+    default:
+      throw new Error(`Seed parse error: unexpected '${token.value}'`);
+  }
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (ch === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      continue;
+    }
+
+    // String literal ('' escapes a quote), with optional ::type cast
+    if (ch === '\'') {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= sql.length) throw new Error('Seed parse error: unterminated string');
+        if (sql[i] === '\'') {
+          if (sql[i + 1] === '\'') {
+            value += '\'';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+
+      let cast: string | undefined;
+      const castMatch = /^::(\w+)/.exec(sql.slice(i));
+      if (castMatch) {
+        cast = castMatch[1].toLowerCase();
+        i += castMatch[0].length;
+      }
+
+      tokens.push({ kind: 'string', value, cast });
+      continue;
+    }
+
+    // Number (allow leading minus)
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(sql.slice(i));
+    if (numberMatch && (ch !== '-' || /\d/.test(sql[i + 1] ?? ''))) {
+      tokens.push({ kind: 'number', value: Number(numberMatch[0]) });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    // Identifier / keyword
+    const wordMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(sql.slice(i));
+    if (wordMatch) {
+      tokens.push({ kind: 'word', value: wordMatch[0] });
+      i += wordMatch[0].length;
+      continue;
+    }
+
+    tokens.push({ kind: 'punct', value: ch });
+    i++;
+  }
+
+  return tokens;
+}
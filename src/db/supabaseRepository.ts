@@ -0,0 +1,1387 @@
+/**
+ * Supabase Repository
+ *
+ * Supabase-backed implementation of the storage contract. Tool functions
+ * never call this directly; they go through db/queries.
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabase, testConnection } from './supabaseClient';
+import {
+  buildChainLink,
+  APPROVAL_CHAIN_FIELDS,
+  AUDIT_EVENT_CHAIN_FIELDS,
+  REVIEW_COMMENT_CHAIN_FIELDS,
+} from './hashChain';
+import type {
+  UserRow,
+  TravelPolicyRow,
+  TripRow,
+  TripItemRow,
+  TripItemChangeRow,
+  ViolationRow,
+  ApprovalRow,
+  ApprovalStageRow,
+  ApprovalDelegationRow,
+  SeparationOfDutiesConfigRow,
+  ReviewCommentRow,
+  AuditEventRow,
+  ExchangeRateRow,
+  PerDiemRateRow,
+  DepartmentBudgetRow,
+  PolicyOverrideRow,
+  PolicyRuleConfigRow,
+  ReceiptRow,
+  ExpenseReportRow,
+  ActualExpenseRow,
+  ExpenseReportStatus,
+  PaymentBatchRow,
+  PaymentBatchStatus,
+  ReimbursementPaymentRow,
+  GlAccountRow,
+  AccountingExportRow,
+  TripStatus,
+  ViolationCode,
+} from '../types/domain';
+import type {
+  TravelExpenseRepository,
+  CreateUserParams,
+  UpdateUserParams,
+  ListUsersParams,
+  CreatePolicyVersionParams,
+  CreateTripParams,
+  UpdateTripParams,
+  CreateTripItemParams,
+  UpdateTripItemParams,
+  CreateTripItemChangeParams,
+  CreateViolationParams,
+  CreateApprovalParams,
+  CreateApprovalDelegationParams,
+  CreateReviewCommentParams,
+  CreateAuditEventParams,
+  SetSeparationOfDutiesRuleParams,
+  CreateReceiptParams,
+  CreateExpenseReportParams,
+  CreateActualExpenseParams,
+  CreatePaymentBatchParams,
+  CreateReimbursementPaymentParams,
+  CreateAccountingExportParams,
+} from './repository';
+
+/**
+ * Escape LIKE wildcards so a value matches only itself, ignoring case,
+ * when passed to ilike.
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/** Attempts at linking a row when concurrent inserts race for the same position */
+const CHAIN_INSERT_ATTEMPTS = 3;
+
+/**
+ * Insert a hash-chained row after the current end of its chain.
+ * chain_position is unique, so an insert that raced another for the same
+ * position fails and is linked again to the new end.
+ */
+async function insertChained<T>(
+  table: 'approvals' | 'review_comments' | 'audit_events',
+  values: Record<string, unknown>,
+  fields: readonly string[]
+): Promise<{ data: T | null; error: unknown }> {
+  const supabase = getSupabase();
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt < CHAIN_INSERT_ATTEMPTS; attempt++) {
+    const { data: tail, error: tailError } = await supabase
+      .from(table)
+      .select('chain_position, hash')
+      .not('chain_position', 'is', null)
+      .order('chain_position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (tailError) return { data: null, error: tailError };
+
+    const { data, error } = await supabase
+      .from(table)
+      .insert({ ...values, ...buildChainLink(values, fields, tail) })
+      .select()
+      .single();
+
+    if (!error) return { data: data as T, error: null };
+    if (error.code !== '23505') return { data: null, error };
+    lastError = error;
+  }
+
+  return { data: null, error: lastError };
+}
+
+export function createSupabaseRepository(): TravelExpenseRepository {
+  return {
+    testConnection,
+
+    // =========================================================================
+    // USERS
+    // =========================================================================
+
+    async getUserById(userId: string): Promise<UserRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('id', userId)
+        .single();
+
+      if (error) return null;
+      return data as UserRow;
+    },
+
+    async listUsers(params?: ListUsersParams): Promise<UserRow[]> {
+      const supabase = getSupabase();
+      let query = supabase.from('users').select('*');
+
+      if (params?.department) {
+        query = query.ilike('department', escapeLikePattern(params.department));
+      }
+      if (params?.role) {
+        query = query.eq('role', params.role);
+      }
+      if (!params?.includeDeactivated) {
+        query = query.is('deactivated_at', null);
+      }
+
+      const { data, error } = await query.order('name', { ascending: true });
+
+      if (error) return [];
+      return data as UserRow[];
+    },
+
+    async createUser(params: CreateUserParams): Promise<UserRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('users')
+        .insert({
+          name: params.name,
+          role: params.role,
+          department: params.department,
+          manager_id: params.managerId ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createUser error:', error);
+        return null;
+      }
+      return data as UserRow;
+    },
+
+    async updateUser(userId: string, params: UpdateUserParams): Promise<UserRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('users')
+        .update({
+          name: params.name,
+          role: params.role,
+          department: params.department,
+          manager_id: params.managerId ?? null,
+        })
+        .eq('id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('updateUser error:', error);
+        return null;
+      }
+      return data as UserRow;
+    },
+
+    async deactivateUser(userId: string): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase
+        .from('users')
+        .update({ deactivated_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      return !error;
+    },
+
+    // =========================================================================
+    // POLICIES
+    // =========================================================================
+
+    async getActivePolicy(
+      onDate: string = new Date().toISOString().slice(0, 10)
+    ): Promise<TravelPolicyRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('travel_policies')
+        .select('*')
+        .lte('effective_from', onDate)
+        .order('version', { ascending: false })
+        .limit(1)
+        .single();
+
+      if (error) return null;
+      return data as TravelPolicyRow;
+    },
+
+    async getPolicyById(policyId: string): Promise<TravelPolicyRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('travel_policies')
+        .select('*')
+        .eq('id', policyId)
+        .single();
+
+      if (error) return null;
+      return data as TravelPolicyRow;
+    },
+
+    async getPolicyVersions(): Promise<TravelPolicyRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('travel_policies')
+        .select('*')
+        .order('version', { ascending: true });
+
+      if (error) return [];
+      return data as TravelPolicyRow[];
+    },
+
+    async getPolicyOverrides(policyId: string): Promise<PolicyOverrideRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('policy_overrides')
+        .select('*')
+        .eq('policy_id', policyId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as PolicyOverrideRow[];
+    },
+
+    async createPolicyVersion(params: CreatePolicyVersionParams): Promise<TravelPolicyRow | null> {
+      const supabase = getSupabase();
+      const { data: latest, error: latestError } = await supabase
+        .from('travel_policies')
+        .select('version')
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) {
+        console.error('createPolicyVersion error:', latestError);
+        return null;
+      }
+
+      // The unique version column rejects a concurrent insert of the same number
+      const { data, error } = await supabase
+        .from('travel_policies')
+        .insert({
+          version: (latest?.version ?? 0) + 1,
+          effective_from: params.effectiveFrom,
+          change_note: params.changeNote,
+          economy_only: params.economyOnly,
+          hotel_nightly_cap_cents: params.hotelNightlyCapCents,
+          meal_daily_cap_cents: params.mealDailyCapCents,
+          preapproval_over_cents: params.preapprovalOverCents,
+          receipt_required_over_cents: params.receiptRequiredOverCents,
+          business_class_min_flight_hours: params.businessClassMinFlightHours,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createPolicyVersion error:', error);
+        return null;
+      }
+      const policy = data as TravelPolicyRow;
+
+      if (params.overridesFromPolicyId) {
+        const { data: overrides } = await supabase
+          .from('policy_overrides')
+          .select('*')
+          .eq('policy_id', params.overridesFromPolicyId);
+
+        if (overrides && overrides.length > 0) {
+          const { error: overridesError } = await supabase
+            .from('policy_overrides')
+            .insert(
+              (overrides as PolicyOverrideRow[]).map(({ id, created_at, ...override }) => ({
+                ...override,
+                policy_id: policy.id,
+              }))
+            );
+
+          if (overridesError) {
+            console.error('createPolicyVersion overrides error:', overridesError);
+          }
+        }
+      }
+
+      return policy;
+    },
+
+    // =========================================================================
+    // POLICY RULES
+    // =========================================================================
+
+    async getPolicyRuleConfigs(): Promise<PolicyRuleConfigRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('policy_rules')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as PolicyRuleConfigRow[];
+    },
+
+    // =========================================================================
+    // TRIPS
+    // =========================================================================
+
+    async createTrip(params: CreateTripParams): Promise<TripRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trips')
+        .insert({
+          user_id: params.userId,
+          destination_city: params.destinationCity,
+          destination_country: params.destinationCountry ?? null,
+          start_date: params.startDate,
+          end_date: params.endDate,
+          purpose: params.purpose,
+          status: 'draft',
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createTrip error:', error);
+        return null;
+      }
+      return data as TripRow;
+    },
+
+    async getTripById(tripId: string): Promise<TripRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .eq('id', tripId)
+        .single();
+
+      if (error) return null;
+      return data as TripRow;
+    },
+
+    async getTripsByUserId(
+      userId: string,
+      status?: TripStatus
+    ): Promise<TripRow[]> {
+      const supabase = getSupabase();
+      let query = supabase
+        .from('trips')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) return [];
+      return data as TripRow[];
+    },
+
+    async getPendingTrips(params?: {
+      department?: string;
+    }): Promise<Array<TripRow & { user: UserRow }>> {
+      const supabase = getSupabase();
+      let query = supabase
+        .from('trips')
+        .select('*, user:users(*)')
+        .eq('status', 'pending_review')
+        .order('created_at', { ascending: false });
+
+      const { data, error } = await query;
+      if (error) return [];
+
+      let results = data as Array<TripRow & { user: UserRow }>;
+
+      // Filter by department if specified
+      if (params?.department) {
+        results = results.filter((t) => t.user.department === params.department);
+      }
+
+      return results;
+    },
+
+    async getApprovedTrips(): Promise<Array<TripRow & { user: UserRow; items: TripItemRow[] }>> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*, user:users(*), items:trip_items(*)')
+        .in('status', ['approved', 'approved_exception'])
+        .order('created_at', { ascending: false });
+
+      if (error) return [];
+      return data as Array<TripRow & { user: UserRow; items: TripItemRow[] }>;
+    },
+
+    async updateTrip(tripId: string, params: UpdateTripParams): Promise<TripRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trips')
+        .update({
+          destination_city: params.destinationCity,
+          destination_country: params.destinationCountry ?? null,
+          start_date: params.startDate,
+          end_date: params.endDate,
+          purpose: params.purpose,
+        })
+        .eq('id', tripId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('updateTrip error:', error);
+        return null;
+      }
+      return data as TripRow;
+    },
+
+    async updateTripStatus(
+      tripId: string,
+      status: TripStatus
+    ): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase
+        .from('trips')
+        .update({ status })
+        .eq('id', tripId);
+
+      return !error;
+    },
+
+    async recordTripSubmission(tripId: string, policyId: string): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase
+        .from('trips')
+        .update({ policy_id: policyId, submitted_at: new Date().toISOString() })
+        .eq('id', tripId);
+
+      return !error;
+    },
+
+    async clearTripSubmission(tripId: string): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase
+        .from('trips')
+        .update({ policy_id: null, submitted_at: null })
+        .eq('id', tripId);
+
+      return !error;
+    },
+
+    // =========================================================================
+    // TRIP ITEMS
+    // =========================================================================
+
+    async createTripItem(params: CreateTripItemParams): Promise<TripItemRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trip_items')
+        .insert({
+          trip_id: params.tripId,
+          type: params.type,
+          description: params.description,
+          amount_cents: params.amountCents,
+          currency: params.currency,
+          fx_rate: params.fxRate,
+          fx_rate_date: params.fxRateDate,
+          meta: params.meta,
+          company_paid: params.companyPaid,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createTripItem error:', error);
+        return null;
+      }
+      return data as TripItemRow;
+    },
+
+    async getTripItemById(itemId: string): Promise<TripItemRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trip_items')
+        .select('*')
+        .eq('id', itemId)
+        .single();
+
+      if (error) return null;
+      return data as TripItemRow;
+    },
+
+    async getTripItems(tripId: string): Promise<TripItemRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trip_items')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as TripItemRow[];
+    },
+
+    async updateTripItem(
+      itemId: string,
+      params: UpdateTripItemParams
+    ): Promise<TripItemRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trip_items')
+        .update({
+          type: params.type,
+          description: params.description,
+          amount_cents: params.amountCents,
+          currency: params.currency,
+          fx_rate: params.fxRate,
+          fx_rate_date: params.fxRateDate,
+          meta: params.meta,
+          company_paid: params.companyPaid,
+        })
+        .eq('id', itemId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('updateTripItem error:', error);
+        return null;
+      }
+      return data as TripItemRow;
+    },
+
+    async deleteTripItem(itemId: string): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase.from('trip_items').delete().eq('id', itemId);
+
+      return !error;
+    },
+
+    // =========================================================================
+    // TRIP ITEM CHANGES
+    // =========================================================================
+
+    async createTripItemChange(
+      params: CreateTripItemChangeParams
+    ): Promise<TripItemChangeRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trip_item_changes')
+        .insert({
+          trip_id: params.tripId,
+          trip_item_id: params.tripItemId,
+          change_type: params.changeType,
+          previous_values: params.previousValues,
+          new_values: params.newValues,
+          changed_by_user_id: params.changedByUserId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createTripItemChange error:', error);
+        return null;
+      }
+      return data as TripItemChangeRow;
+    },
+
+    async getTripItemChanges(tripId: string): Promise<TripItemChangeRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trip_item_changes')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as TripItemChangeRow[];
+    },
+
+    // =========================================================================
+    // VIOLATIONS
+    // =========================================================================
+
+    async deleteViolationsForTrip(tripId: string, codes?: ViolationCode[]): Promise<void> {
+      const supabase = getSupabase();
+      let query = supabase.from('violations').delete().eq('trip_id', tripId);
+      if (codes) query = query.in('code', codes);
+      await query;
+    },
+
+    async createViolation(params: CreateViolationParams): Promise<ViolationRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('violations')
+        .insert({
+          trip_id: params.tripId,
+          code: params.code,
+          severity: params.severity,
+          message: params.message,
+          trip_item_id: params.tripItemId ?? null,
+          computed_value_cents: params.computedValueCents ?? null,
+          policy_value_cents: params.policyValueCents ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createViolation error:', error);
+        return null;
+      }
+      return data as ViolationRow;
+    },
+
+    async getViolationsForTrip(tripId: string): Promise<ViolationRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('violations')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ViolationRow[];
+    },
+
+    async getViolationsInDateRange(
+      startDate: string,
+      endDate: string
+    ): Promise<Array<ViolationRow & { trip: TripRow & { user: UserRow } }>> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('violations')
+        .select('*, trip:trips(*, user:users(*))')
+        .gte('created_at', `${startDate}T00:00:00Z`)
+        .lte('created_at', `${endDate}T23:59:59Z`);
+
+      if (error) return [];
+      return data as Array<ViolationRow & { trip: TripRow & { user: UserRow } }>;
+    },
+
+    // =========================================================================
+    // APPROVALS
+    // =========================================================================
+
+    async getApprovalStages(): Promise<ApprovalStageRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('approval_stages')
+        .select('*')
+        .order('stage_order', { ascending: true });
+
+      if (error) return [];
+      return data as ApprovalStageRow[];
+    },
+
+    async createApproval(params: CreateApprovalParams): Promise<ApprovalRow | null> {
+      // id and created_at are set here because the hash covers them
+      const { data, error } = await insertChained<ApprovalRow>(
+        'approvals',
+        {
+          id: randomUUID(),
+          trip_id: params.tripId,
+          reviewer_user_id: params.reviewerUserId,
+          on_behalf_of_user_id: params.onBehalfOfUserId ?? null,
+          decision: params.decision,
+          stage: params.stage ?? null,
+          reason: params.reason ?? null,
+          created_at: new Date().toISOString(),
+        },
+        APPROVAL_CHAIN_FIELDS
+      );
+
+      if (error) {
+        console.error('createApproval error:', error);
+        return null;
+      }
+      return data;
+    },
+
+    async getApprovalsForTrip(tripId: string): Promise<ApprovalRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('approvals')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ApprovalRow[];
+    },
+
+    async getApprovalChain(): Promise<ApprovalRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('approvals')
+        .select('*')
+        .order('chain_position', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ApprovalRow[];
+    },
+
+    // =========================================================================
+    // APPROVAL DELEGATIONS
+    // =========================================================================
+
+    async createApprovalDelegation(
+      params: CreateApprovalDelegationParams
+    ): Promise<ApprovalDelegationRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('approval_delegations')
+        .insert({
+          delegator_user_id: params.delegatorUserId,
+          delegate_user_id: params.delegateUserId,
+          start_date: params.startDate,
+          end_date: params.endDate,
+          note: params.note ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createApprovalDelegation error:', error);
+        return null;
+      }
+      return data as ApprovalDelegationRow;
+    },
+
+    async getApprovalDelegationById(delegationId: string): Promise<ApprovalDelegationRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('approval_delegations')
+        .select('*')
+        .eq('id', delegationId)
+        .single();
+
+      if (error) return null;
+      return data as ApprovalDelegationRow;
+    },
+
+    async getApprovalDelegationsForUser(userId: string): Promise<ApprovalDelegationRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('approval_delegations')
+        .select('*')
+        .or(`delegator_user_id.eq.${userId},delegate_user_id.eq.${userId}`)
+        .order('created_at', { ascending: false });
+
+      if (error) return [];
+      return data as ApprovalDelegationRow[];
+    },
+
+    async getActiveDelegationsForDelegate(
+      delegateUserId: string,
+      onDate: string
+    ): Promise<ApprovalDelegationRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('approval_delegations')
+        .select('*')
+        .eq('delegate_user_id', delegateUserId)
+        .is('revoked_at', null)
+        .lte('start_date', onDate)
+        .gte('end_date', onDate);
+
+      if (error) return [];
+      return data as ApprovalDelegationRow[];
+    },
+
+    async revokeApprovalDelegation(delegationId: string): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase
+        .from('approval_delegations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', delegationId);
+
+      return !error;
+    },
+
+    // =========================================================================
+    // REVIEW COMMENTS
+    // =========================================================================
+
+    async createReviewComment(
+      params: CreateReviewCommentParams
+    ): Promise<ReviewCommentRow | null> {
+      // id and created_at are set here because the hash covers them
+      const { data, error } = await insertChained<ReviewCommentRow>(
+        'review_comments',
+        {
+          id: randomUUID(),
+          trip_id: params.tripId,
+          approval_id: params.approvalId,
+          trip_item_id: params.tripItemId ?? null,
+          violation_code: params.violationCode ?? null,
+          comment: params.comment,
+          created_at: new Date().toISOString(),
+        },
+        REVIEW_COMMENT_CHAIN_FIELDS
+      );
+
+      if (error) {
+        console.error('createReviewComment error:', error);
+        return null;
+      }
+      return data;
+    },
+
+    async getReviewCommentsForTrip(tripId: string): Promise<ReviewCommentRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('review_comments')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ReviewCommentRow[];
+    },
+
+    async getReviewCommentChain(): Promise<ReviewCommentRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('review_comments')
+        .select('*')
+        .order('chain_position', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ReviewCommentRow[];
+    },
+
+    // =========================================================================
+    // AUDIT TRAIL
+    // =========================================================================
+
+    async createAuditEvent(params: CreateAuditEventParams): Promise<AuditEventRow | null> {
+      const { data, error } = await insertChained<AuditEventRow>(
+        'audit_events',
+        {
+          id: randomUUID(),
+          trip_id: params.tripId ?? null,
+          actor_user_id: params.actorUserId,
+          actor_role: params.actorRole,
+          on_behalf_of_user_id: params.onBehalfOfUserId ?? null,
+          action: params.action,
+          entity_type: params.entityType,
+          entity_id: params.entityId ?? null,
+          before: params.before ?? null,
+          after: params.after ?? null,
+          created_at: new Date().toISOString(),
+        },
+        AUDIT_EVENT_CHAIN_FIELDS
+      );
+
+      if (error) {
+        console.error('createAuditEvent error:', error);
+        return null;
+      }
+      return data;
+    },
+
+    async getAuditEventChain(): Promise<AuditEventRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('audit_events')
+        .select('*')
+        .order('chain_position', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as AuditEventRow[];
+    },
+
+    async getAuditEventsForTrip(tripId: string): Promise<AuditEventRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('audit_events')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as AuditEventRow[];
+    },
+
+    // =========================================================================
+    // PER-DIEM RATES
+    // =========================================================================
+
+    async getPerDiemRates(onDate: string): Promise<PerDiemRateRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('per_diem_rates')
+        .select('*')
+        .lte('effective_from', onDate)
+        .or(`effective_to.is.null,effective_to.gte.${onDate}`)
+        .order('effective_from', { ascending: false });
+
+      if (error) return [];
+      return data as PerDiemRateRow[];
+    },
+
+    // =========================================================================
+    // DEPARTMENT BUDGETS
+    // =========================================================================
+
+    async getDepartmentBudgets(onDate: string): Promise<DepartmentBudgetRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('department_budgets')
+        .select('*')
+        .lte('period_start', onDate)
+        .gte('period_end', onDate)
+        .order('department');
+
+      if (error) return [];
+      return data as DepartmentBudgetRow[];
+    },
+
+    // =========================================================================
+    // SEPARATION OF DUTIES
+    // =========================================================================
+
+    async getSeparationOfDutiesConfig(): Promise<SeparationOfDutiesConfigRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('separation_of_duties_rules')
+        .select('*');
+
+      if (error) return [];
+      return data as SeparationOfDutiesConfigRow[];
+    },
+
+    async setSeparationOfDutiesRule(
+      params: SetSeparationOfDutiesRuleParams
+    ): Promise<SeparationOfDutiesConfigRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('separation_of_duties_rules')
+        .upsert(
+          {
+            rule: params.rule,
+            enabled: params.enabled,
+            updated_by_user_id: params.updatedByUserId,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'rule' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('setSeparationOfDutiesRule error:', error);
+        return null;
+      }
+      return data as SeparationOfDutiesConfigRow;
+    },
+
+    // =========================================================================
+    // RECEIPTS
+    // =========================================================================
+
+    async createReceipt(params: CreateReceiptParams): Promise<ReceiptRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('receipts')
+        .insert({
+          trip_id: params.tripId,
+          trip_item_id: params.tripItemId,
+          file_name: params.fileName,
+          content_type: params.contentType,
+          size_bytes: params.sizeBytes,
+          sha256: params.sha256,
+          storage_key: params.storageKey,
+          uploaded_by_user_id: params.uploadedByUserId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createReceipt error:', error);
+        return null;
+      }
+      return data as ReceiptRow;
+    },
+
+    async getReceiptsForTrip(tripId: string): Promise<ReceiptRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('receipts')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ReceiptRow[];
+    },
+
+    // =========================================================================
+    // EXPENSE REPORTS
+    // =========================================================================
+
+    async createExpenseReport(params: CreateExpenseReportParams): Promise<ExpenseReportRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('expense_reports')
+        .insert({
+          trip_id: params.tripId,
+        })
+        .select()
+        .single();
+
+      if (error) return null;
+      return data as ExpenseReportRow;
+    },
+
+    async getExpenseReportForTrip(tripId: string): Promise<ExpenseReportRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('expense_reports')
+        .select('*')
+        .eq('trip_id', tripId)
+        .maybeSingle();
+
+      if (error) return null;
+      return data as ExpenseReportRow | null;
+    },
+
+    async updateExpenseReportStatus(
+      reportId: string,
+      status: ExpenseReportStatus
+    ): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase
+        .from('expense_reports')
+        .update({ status })
+        .eq('id', reportId);
+
+      return !error;
+    },
+
+    async recordExpenseReportSubmission(reportId: string): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase
+        .from('expense_reports')
+        .update({ submitted_at: new Date().toISOString() })
+        .eq('id', reportId);
+
+      return !error;
+    },
+
+    async createActualExpense(params: CreateActualExpenseParams): Promise<ActualExpenseRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('actual_expenses')
+        .insert({
+          report_id: params.reportId,
+          trip_id: params.tripId,
+          type: params.type,
+          description: params.description,
+          amount_cents: params.amountCents,
+          currency: params.currency,
+          fx_rate: params.fxRate,
+          fx_rate_date: params.fxRateDate,
+          expense_date: params.expenseDate,
+          company_paid: params.companyPaid,
+        })
+        .select()
+        .single();
+
+      if (error) return null;
+      return data as ActualExpenseRow;
+    },
+
+    async getActualExpenseById(expenseId: string): Promise<ActualExpenseRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('actual_expenses')
+        .select('*')
+        .eq('id', expenseId)
+        .single();
+
+      if (error) return null;
+      return data as ActualExpenseRow;
+    },
+
+    async getActualExpensesForTrip(tripId: string): Promise<ActualExpenseRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('actual_expenses')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ActualExpenseRow[];
+    },
+
+    async deleteActualExpense(expenseId: string): Promise<boolean> {
+      const supabase = getSupabase();
+      const { error } = await supabase.from('actual_expenses').delete().eq('id', expenseId);
+
+      return !error;
+    },
+
+    // =========================================================================
+    // REIMBURSEMENTS
+    // =========================================================================
+
+    async createPaymentBatch(params: CreatePaymentBatchParams): Promise<PaymentBatchRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('payment_batches')
+        .insert({
+          reference: params.reference,
+          created_by_user_id: params.createdByUserId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createPaymentBatch error:', error);
+        return null;
+      }
+      return data as PaymentBatchRow;
+    },
+
+    async getPaymentBatchById(batchId: string): Promise<PaymentBatchRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('payment_batches')
+        .select('*')
+        .eq('id', batchId)
+        .single();
+
+      if (error) return null;
+      return data as PaymentBatchRow;
+    },
+
+    async getPaymentBatches(): Promise<PaymentBatchRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('payment_batches')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) return [];
+      return data as PaymentBatchRow[];
+    },
+
+    async updatePaymentBatchStatus(
+      batchId: string,
+      status: PaymentBatchStatus
+    ): Promise<PaymentBatchRow | null> {
+      const supabase = getSupabase();
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('payment_batches')
+        .update({
+          status,
+          ...(status === 'exported' ? { exported_at: now } : {}),
+          ...(status === 'paid' ? { paid_at: now } : {}),
+        })
+        .eq('id', batchId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('updatePaymentBatchStatus error:', error);
+        return null;
+      }
+      return data as PaymentBatchRow;
+    },
+
+    async createReimbursementPayment(
+      params: CreateReimbursementPaymentParams
+    ): Promise<ReimbursementPaymentRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('reimbursement_payments')
+        .insert({
+          batch_id: params.batchId,
+          trip_id: params.tripId,
+          user_id: params.userId,
+          amount_cents: params.amountCents,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createReimbursementPayment error:', error);
+        return null;
+      }
+      return data as ReimbursementPaymentRow;
+    },
+
+    async getReimbursementPayments(): Promise<ReimbursementPaymentRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('reimbursement_payments')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ReimbursementPaymentRow[];
+    },
+
+    async getReimbursementPaymentsForBatch(batchId: string): Promise<ReimbursementPaymentRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('reimbursement_payments')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ReimbursementPaymentRow[];
+    },
+
+    async getReimbursementPaymentsForTrip(tripId: string): Promise<ReimbursementPaymentRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('reimbursement_payments')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) return [];
+      return data as ReimbursementPaymentRow[];
+    },
+
+    // =========================================================================
+    // ACCOUNTING EXPORTS
+    // =========================================================================
+
+    async getGlAccounts(): Promise<GlAccountRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase.from('gl_accounts').select('*');
+
+      if (error) return [];
+      return data as GlAccountRow[];
+    },
+
+    async createAccountingExport(
+      params: CreateAccountingExportParams
+    ): Promise<AccountingExportRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('accounting_exports')
+        .insert({
+          reference: params.reference,
+          start_date: params.startDate,
+          end_date: params.endDate,
+          trip_count: params.tripIds.length,
+          total_cents: params.totalCents,
+          created_by_user_id: params.createdByUserId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('createAccountingExport error:', error);
+        return null;
+      }
+
+      // The unique trip_id rejects trips exported in the meantime
+      const { error: tripsError } = await supabase
+        .from('accounting_export_trips')
+        .insert(params.tripIds.map((tripId) => ({ export_id: data.id, trip_id: tripId })));
+
+      if (tripsError) {
+        console.error('createAccountingExport trips error:', tripsError);
+        await supabase.from('accounting_exports').delete().eq('id', data.id);
+        return null;
+      }
+      return data as AccountingExportRow;
+    },
+
+    async getAccountingExports(): Promise<AccountingExportRow[]> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('accounting_exports')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) return [];
+      return data as AccountingExportRow[];
+    },
+
+    async getExportedTripIds(tripIds: string[]): Promise<string[]> {
+      if (tripIds.length === 0) return [];
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('accounting_export_trips')
+        .select('trip_id')
+        .in('trip_id', tripIds);
+
+      if (error) return [];
+      return (data as Array<{ trip_id: string }>).map((row) => row.trip_id);
+    },
+
+    // =========================================================================
+    // EXCHANGE RATES
+    // =========================================================================
+
+    async getExchangeRate(
+      baseCurrency: string,
+      quoteCurrency: string,
+      onDate: string
+    ): Promise<ExchangeRateRow | null> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('base_currency', baseCurrency)
+        .eq('quote_currency', quoteCurrency)
+        .lte('rate_date', onDate)
+        .order('rate_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error || !data) return null;
+      return data as ExchangeRateRow;
+    },
+
+    // =========================================================================
+    // ANALYTICS QUERIES
+    // =========================================================================
+
+    async getTripsInDateRange(
+      startDate: string,
+      endDate: string
+    ): Promise<Array<TripRow & { user: UserRow; items: TripItemRow[] }>> {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*, user:users(*), items:trip_items(*)')
+        .gte('start_date', startDate)
+        .lte('start_date', endDate);
+
+      if (error) return [];
+      return data as Array<TripRow & { user: UserRow; items: TripItemRow[] }>;
+    },
+  };
+}
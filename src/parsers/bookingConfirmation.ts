@@ -0,0 +1,627 @@
+/**
+ * Booking Confirmation Parser
+ *
+ * Deterministically extracts draft trip items from pasted airline, hotel
+ * and car rental confirmation emails. Nothing here guesses: a field is
+ * either found in the text by an explicit pattern or reported back as a
+ * structured warning, so policy checks run on facts rather than on an
+ * LLM's paraphrase of the email.
+ */
+
+import type { ItemType } from '../types/domain';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type BookingType = 'flight' | 'hotel' | 'car_rental' | 'unknown';
+
+export interface DraftTripItem {
+  type: ItemType;
+  description: string;
+  amountCents: number | null;
+  currency: string | null;
+  meta: Record<string, unknown>;
+  /** True when the draft has every field addTripItem and the policy checks need */
+  complete: boolean;
+}
+
+export interface ParseWarning {
+  field: string;
+  message: string;
+}
+
+export interface BookingParseResult {
+  bookingType: BookingType;
+  items: DraftTripItem[];
+  warnings: ParseWarning[];
+}
+
+// =============================================================================
+// REFERENCE DATA
+// =============================================================================
+
+const AIRLINES: Record<string, string> = {
+  UA: 'United',
+  AA: 'American',
+  DL: 'Delta',
+  WN: 'Southwest',
+  AS: 'Alaska',
+  B6: 'JetBlue',
+  BA: 'British Airways',
+  LH: 'Lufthansa',
+  AF: 'Air France',
+  KL: 'KLM',
+  AC: 'Air Canada',
+  EK: 'Emirates',
+  VS: 'Virgin Atlantic',
+  NH: 'ANA',
+  JL: 'Japan Airlines',
+};
+
+const HOTEL_BRANDS = [
+  'Marriott', 'Hilton', 'Hyatt', 'Sheraton', 'Westin', 'Four Seasons', 'Holiday Inn',
+  'Hampton Inn', 'Premier Inn', 'Radisson', 'InterContinental', 'Courtyard', 'Ritz-Carlton',
+  'Best Western', 'Novotel', 'Ibis', 'Doubletree', 'Embassy Suites', 'Fairmont', 'Kimpton',
+];
+
+const CAR_RENTAL_COMPANIES = [
+  'Hertz', 'Avis', 'Enterprise', 'National', 'Budget', 'Sixt', 'Alamo', 'Thrifty', 'Dollar', 'Europcar',
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'US$': 'USD',
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+};
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CAD', 'JPY', 'AUD', 'CHF', 'MXN', 'SGD'];
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const DETECTION_KEYWORDS: Record<Exclude<BookingType, 'unknown'>, RegExp[]> = {
+  flight: [
+    /\bflights?\b/i, /\bairlines?\b/i, /\bdepart(s|ure)?\b/i, /\bboarding\b/i, /\brecord locator\b/i,
+    /\bcabin\b/i, /\bseat\b/i, /\b(economy|premium economy|business|first)\s+class\b/i, /\bfare\b/i,
+    /\be-?ticket\b/i, /\bbooking code\b/i, /\bpassengers?\b/i,
+  ],
+  hotel: [/\bhotel\b/i, /\bcheck[\s-]?in\b/i, /\bcheck[\s-]?out\b/i, /\bnights?\b/i, /\broom\b/i, /\bguests?\b/i],
+  car_rental: [/\brental\b/i, /\bpick[\s-]?up\b/i, /\bdrop[\s-]?off\b/i, /\bvehicle\b/i, /\bcar (class|type)\b/i],
+};
+
+// =============================================================================
+// ENTRY POINT
+// =============================================================================
+
+/**
+ * Parse a pasted booking confirmation into draft trip items.
+ */
+export function parseBookingConfirmation(text: string): BookingParseResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0);
+
+  const bookingType = detectBookingType(text);
+
+  switch (bookingType) {
+    case 'flight':
+      return parseFlight(text, lines);
+    case 'hotel':
+      return parseHotel(text, lines);
+    case 'car_rental':
+      return parseCarRental(text, lines);
+    default:
+      return {
+        bookingType: 'unknown',
+        items: [],
+        warnings: [
+          {
+            field: 'bookingType',
+            message: 'Could not recognise an airline, hotel or car rental confirmation',
+          },
+        ],
+      };
+  }
+}
+
+/**
+ * Pick the booking type with the most keyword hits (ties resolve in the
+ * order flight, hotel, car rental). It takes two hits, or one next to a
+ * flight number of a known airline.
+ */
+export function detectBookingType(text: string): BookingType {
+  let best: BookingType = 'unknown';
+  let bestScore = 0;
+
+  for (const [type, patterns] of Object.entries(DETECTION_KEYWORDS)) {
+    const score = patterns.filter((p) => p.test(text)).length;
+    if (score > bestScore) {
+      best = type as BookingType;
+      bestScore = score;
+    }
+  }
+
+  if (bestScore >= 2) return best;
+  if (bestScore === 1 && findFlightNumbers(text).length > 0) return 'flight';
+  return 'unknown';
+}
+
+// =============================================================================
+// FLIGHTS
+// =============================================================================
+
+function parseFlight(text: string, lines: string[]): BookingParseResult {
+  const warnings: ParseWarning[] = [];
+  const meta: Record<string, unknown> = {};
+
+  const flightNumbers = findFlightNumbers(text);
+  if (flightNumbers.length > 0) meta.flight_numbers = flightNumbers;
+
+  // Airline: explicit label, then a known name, then the flight number carrier
+  const airline =
+    findLabeledValue(lines, /^(airline|carrier|operated by)\b/i) ??
+    Object.values(AIRLINES).find((name) => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text)) ??
+    (flightNumbers.length > 0 ? AIRLINES[flightNumbers[0].slice(0, 2)] : undefined);
+  if (airline) {
+    meta.airline = airline;
+  } else {
+    warnings.push({ field: 'meta.airline', message: 'Airline not found' });
+  }
+
+  // Cabin
+  const cabins = findCabins(lines);
+  if (cabins.length === 0) {
+    warnings.push({ field: 'meta.cabin', message: 'Cabin class not found; policy checks need economy, business or first' });
+  } else {
+    meta.cabin = cabins[0];
+    if (cabins.length > 1) {
+      warnings.push({
+        field: 'meta.cabin',
+        message: `Multiple cabin classes found (${cabins.join(', ')}); using the highest`,
+      });
+    }
+  }
+  if (/premium economy/i.test(text)) {
+    warnings.push({ field: 'meta.cabin', message: 'Premium economy fare recorded as economy; confirm with the policy' });
+  }
+
+  // Route
+  const route = findRoute(lines);
+  if (route) {
+    meta.origin = route.origin;
+    meta.destination = route.destination;
+  } else {
+    warnings.push({ field: 'meta.route', message: 'Origin and destination airports not found' });
+  }
+
+  // Dates
+  const departure =
+    findLabeledDate(lines, /\b(depart(s|ure)?|outbound)\b/i) ?? findAllDates(text)[0] ?? null;
+  const returnDate = findLabeledDate(lines, /\b(return(ing)?|inbound)\b/i);
+  if (departure) {
+    meta.date = departure;
+  } else {
+    warnings.push({ field: 'meta.date', message: 'Departure date not found' });
+  }
+  if (returnDate) meta.return_date = returnDate;
+
+  const confirmation = findConfirmationCode(text);
+  if (confirmation) meta.confirmation = confirmation;
+
+  const total = findTotal(lines);
+  if (!total) warnings.push({ field: 'amountCents', message: 'Total fare not found' });
+
+  const routeLabel = route ? ` ${route.origin} to ${route.destination}` : '';
+  const tripLabel = returnDate ? 'Round trip' : 'Flight';
+  const cabinLabel = meta.cabin ? ` - ${capitalize(meta.cabin as string)}` : '';
+
+  return {
+    bookingType: 'flight',
+    items: [
+      {
+        type: 'flight',
+        description: `${tripLabel}${routeLabel}${airline ? ` (${airline})` : ''}${cabinLabel}`,
+        amountCents: total?.cents ?? null,
+        currency: total?.currency ?? null,
+        meta,
+        complete: Boolean(total && meta.cabin),
+      },
+    ],
+    warnings,
+  };
+}
+
+/**
+ * Flight numbers of known airlines, e.g. "UA 1234" or "BA287"
+ */
+function findFlightNumbers(text: string): string[] {
+  return Array.from(
+    new Set(
+      Array.from(text.matchAll(/\b([A-Z][A-Z0-9]|[A-Z0-9][A-Z])\s?(\d{1,4})\b/g))
+        .filter((m) => AIRLINES[m[1]])
+        .map((m) => `${m[1]}${m[2]}`)
+    )
+  );
+}
+
+function findCabins(lines: string[]): Array<'economy' | 'business' | 'first'> {
+  const found = new Set<'economy' | 'business' | 'first'>();
+
+  for (const line of lines) {
+    // "first" and "business" only count next to a cabin/class label ("First name" is not a cabin)
+    const hasCabinContext = /\b(cabin|class|fare|seat)\b/i.test(line);
+    if (hasCabinContext && /\bfirst\b/i.test(line)) found.add('first');
+    if (hasCabinContext && /\bbusiness\b/i.test(line)) found.add('business');
+    if (/\b(economy|coach|main cabin)\b/i.test(line)) found.add('economy');
+  }
+
+  const rank = { first: 3, business: 2, economy: 1 };
+  return Array.from(found).sort((a, b) => rank[b] - rank[a]);
+}
+
+function findRoute(lines: string[]): { origin: string; destination: string } | null {
+  for (const line of lines) {
+    const match =
+      /\b([A-Z]{3})\s*(?:→|->|–|-|to)\s*([A-Z]{3})\b/.exec(line) ??
+      /\bfrom\s+.*?\(([A-Z]{3})\).*?\bto\s+.*?\(([A-Z]{3})\)/i.exec(line);
+    if (match && match[1] !== match[2] && !CURRENCY_CODES.includes(match[1])) {
+      return { origin: match[1], destination: match[2] };
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// HOTELS
+// =============================================================================
+
+function parseHotel(text: string, lines: string[]): BookingParseResult {
+  const warnings: ParseWarning[] = [];
+  const meta: Record<string, unknown> = {};
+
+  const hotel = findLabeledValue(lines, /^(hotel|property)(\s+name)?\b/i) ?? findHotelBrandName(lines);
+  if (hotel) {
+    meta.hotel = hotel;
+  } else {
+    warnings.push({ field: 'meta.hotel', message: 'Hotel name not found' });
+  }
+
+  const checkIn = findLabeledDate(lines, /\bcheck[\s-]?in\b|\barriv(al|e|ing)\b/i);
+  const checkOut = findLabeledDate(lines, /\bcheck[\s-]?out\b|\bdepart(ure|ing)?\b/i);
+  if (checkIn) {
+    meta.check_in = checkIn;
+    meta.date = checkIn;
+  } else {
+    warnings.push({ field: 'meta.check_in', message: 'Check-in date not found' });
+  }
+  if (checkOut) {
+    meta.check_out = checkOut;
+  } else {
+    warnings.push({ field: 'meta.check_out', message: 'Check-out date not found' });
+  }
+
+  // Nights: stated count, checked against the dates when both are present
+  const statedNights = findCount(text, /(\d{1,2})\s*nights?\b/i);
+  const dateNights = checkIn && checkOut ? daysBetween(checkIn, checkOut) : null;
+  if (dateNights !== null && dateNights > 0) {
+    meta.nights = dateNights;
+    if (statedNights !== null && statedNights !== dateNights) {
+      warnings.push({
+        field: 'meta.nights',
+        message: `Stated ${statedNights} nights but dates span ${dateNights}; using the dates`,
+      });
+    }
+  } else if (statedNights !== null) {
+    meta.nights = statedNights;
+  } else {
+    warnings.push({ field: 'meta.nights', message: 'Number of nights not found' });
+  }
+
+  const nightly = findLabeledAmount(lines, /(per night|\/\s*night|nightly|avg\.?\s+rate|average rate|room rate)/i);
+  const total = findTotal(lines);
+  const nights = meta.nights as number | undefined;
+
+  if (nightly) {
+    meta.nightly_rate_cents = nightly.cents;
+  } else if (total && nights) {
+    meta.nightly_rate_cents = Math.round(total.cents / nights);
+    warnings.push({
+      field: 'meta.nightly_rate_cents',
+      message: 'Nightly rate not stated; derived from the total divided by nights (includes taxes and fees)',
+    });
+  } else {
+    warnings.push({ field: 'meta.nightly_rate_cents', message: 'Nightly rate not found' });
+  }
+
+  let amount = total;
+  if (!amount && nightly && nights) {
+    amount = { cents: nightly.cents * nights, currency: nightly.currency };
+    warnings.push({
+      field: 'amountCents',
+      message: 'Total not stated; computed as nightly rate times nights (excludes taxes and fees)',
+    });
+  } else if (!amount) {
+    warnings.push({ field: 'amountCents', message: 'Total amount not found' });
+  }
+
+  const confirmation = findConfirmationCode(text);
+  if (confirmation) meta.confirmation = confirmation;
+
+  return {
+    bookingType: 'hotel',
+    items: [
+      {
+        type: 'hotel',
+        description: `${hotel ?? 'Hotel stay'}${nights ? ` - ${nights} night${nights === 1 ? '' : 's'}` : ''}`,
+        amountCents: amount?.cents ?? null,
+        currency: amount?.currency ?? null,
+        meta,
+        complete: Boolean(amount && meta.nightly_rate_cents && meta.nights),
+      },
+    ],
+    warnings,
+  };
+}
+
+/**
+ * Hotel name from the first line mentioning a known brand, starting at the brand
+ * ("Booking confirmation - Premier Inn London" -> "Premier Inn London")
+ */
+function findHotelBrandName(lines: string[]): string | undefined {
+  for (const line of lines) {
+    for (const brand of HOTEL_BRANDS) {
+      const match = new RegExp(`\\b${escapeRegExp(brand)}\\b`, 'i').exec(line);
+      if (match) return line.slice(match.index).replace(/[.!,]+$/, '').trim();
+    }
+  }
+  return undefined;
+}
+
+// =============================================================================
+// CAR RENTALS
+// =============================================================================
+
+function parseCarRental(text: string, lines: string[]): BookingParseResult {
+  const warnings: ParseWarning[] = [];
+  const meta: Record<string, unknown> = { type: 'car_rental' };
+
+  const company = CAR_RENTAL_COMPANIES.find((c) => new RegExp(`\\b${c}\\b`, 'i').test(text));
+  if (company) {
+    meta.company = company;
+  } else {
+    warnings.push({ field: 'meta.company', message: 'Rental company not found' });
+  }
+
+  const pickup = findLabeledDate(lines, /\bpick[\s-]?up\b/i);
+  const dropoff = findLabeledDate(lines, /\b(drop[\s-]?off|return)\b/i);
+  if (pickup) {
+    meta.pickup_date = pickup;
+    meta.date = pickup;
+  } else {
+    warnings.push({ field: 'meta.pickup_date', message: 'Pick-up date not found' });
+  }
+  if (dropoff) {
+    meta.dropoff_date = dropoff;
+  } else {
+    warnings.push({ field: 'meta.dropoff_date', message: 'Drop-off date not found' });
+  }
+
+  const days =
+    pickup && dropoff ? Math.max(1, daysBetween(pickup, dropoff)) : findCount(text, /(\d{1,2})\s*days?\b/i);
+  if (days) meta.days = days;
+
+  const vehicleClass = findLabeledValue(lines, /^(car|vehicle)\s*(class|type|category)?\b/i);
+  if (vehicleClass) meta.vehicle_class = vehicleClass;
+
+  const daily = findLabeledAmount(lines, /(per day|\/\s*day|daily rate)/i);
+  if (daily) meta.daily_rate_cents = daily.cents;
+
+  const total = findTotal(lines);
+  if (!total) warnings.push({ field: 'amountCents', message: 'Estimated total not found' });
+
+  const confirmation = findConfirmationCode(text);
+  if (confirmation) meta.confirmation = confirmation;
+
+  return {
+    bookingType: 'car_rental',
+    items: [
+      {
+        type: 'transport',
+        description: `${company ?? 'Car'} rental${days ? ` - ${days} day${days === 1 ? '' : 's'}` : ''}`,
+        amountCents: total?.cents ?? null,
+        currency: total?.currency ?? null,
+        meta,
+        complete: Boolean(total),
+      },
+    ],
+    warnings,
+  };
+}
+
+// =============================================================================
+// FIELD EXTRACTION HELPERS
+// =============================================================================
+
+interface Money {
+  cents: number;
+  currency: string;
+}
+
+/**
+ * Parse the first amount in a string, e.g. "$1,234.56", "EUR 300", "300.00 GBP"
+ */
+export function parseMoney(input: string): Money | null {
+  const symbols = Object.keys(CURRENCY_SYMBOLS)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const codes = CURRENCY_CODES.join('|');
+  const number = '(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d{1,2}))?';
+
+  const prefix = new RegExp(`(${symbols}|\\b(?:${codes})\\b)\\s?${number}`).exec(input);
+  if (prefix) {
+    return {
+      cents: toCents(prefix[2], prefix[3]),
+      currency: CURRENCY_SYMBOLS[prefix[1]] ?? prefix[1],
+    };
+  }
+
+  const suffix = new RegExp(`${number}\\s?\\b(${codes})\\b`).exec(input);
+  if (suffix) {
+    return { cents: toCents(suffix[1], suffix[2]), currency: suffix[3] };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a date in ISO, "March 5, 2026", "Thu, Mar 5 2026" or "5 March 2026" form.
+ * Numeric day/month forms are ambiguous and are not accepted.
+ */
+export function parseDate(input: string): string | null {
+  const iso = /\b(\d{4})-(\d{2})-(\d{2})\b/.exec(input);
+  if (iso) return formatDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const monthFirst = /\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/.exec(input);
+  if (monthFirst) {
+    const month = MONTHS[monthFirst[1].toLowerCase().slice(0, 4)] ?? MONTHS[monthFirst[1].toLowerCase().slice(0, 3)];
+    if (month) return formatDate(Number(monthFirst[3]), month, Number(monthFirst[2]));
+  }
+
+  const dayFirst = /\b(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})\b/.exec(input);
+  if (dayFirst) {
+    const month = MONTHS[dayFirst[2].toLowerCase().slice(0, 4)] ?? MONTHS[dayFirst[2].toLowerCase().slice(0, 3)];
+    if (month) return formatDate(Number(dayFirst[3]), month, Number(dayFirst[1]));
+  }
+
+  return null;
+}
+
+function findAllDates(text: string): string[] {
+  const dates: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const date = parseDate(line);
+    if (date) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Value after "Label:" on a line whose start matches the label pattern
+ */
+function findLabeledValue(lines: string[], label: RegExp): string | undefined {
+  for (const line of lines) {
+    if (!label.test(line)) continue;
+    const match = /^[^:]{1,40}:\s*(.+)$/.exec(line);
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
+
+/**
+ * Date on a line matching the label (or on the following line)
+ */
+function findLabeledDate(lines: string[], label: RegExp): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    if (!label.test(lines[i])) continue;
+    const date = parseDate(lines[i]) ?? (lines[i + 1] ? parseDate(lines[i + 1]) : null);
+    if (date) return date;
+  }
+  return null;
+}
+
+function findLabeledAmount(lines: string[], label: RegExp): Money | null {
+  for (const line of lines) {
+    if (!label.test(line)) continue;
+    const money = parseMoney(line);
+    if (money) return money;
+  }
+  return null;
+}
+
+/**
+ * Total lines, most authoritative first. Lines about what was paid up front
+ * ("paid today", "deposit") rank last: they are not the price of the booking.
+ */
+const TOTAL_LABELS: Array<{ label: RegExp; rank: number }> = [
+  { label: /\bgrand\s+total\b/i, rank: 3 },
+  { label: /\btotal\s+(price|fare|cost|amount|charges?)\b|\bamount charged\b/i, rank: 2 },
+  { label: /\b(total|amount (paid|due))\b/i, rank: 1 },
+];
+
+const UP_FRONT_PAYMENT = /\b(paid today|due (today|now)|pay now|deposit|prepaid)\b/i;
+
+function totalLineRank(line: string): number | null {
+  const match = TOTAL_LABELS.find((t) => t.label.test(line));
+  if (!match) return null;
+  return UP_FRONT_PAYMENT.test(line) ? 0 : match.rank;
+}
+
+/**
+ * The highest-ranked total line with a non-zero amount; among equals the
+ * last one (usually the amount charged after taxes).
+ */
+function findTotal(lines: string[]): Money | null {
+  let best: Money | null = null;
+  let bestRank = -1;
+  for (const line of lines) {
+    const rank = totalLineRank(line);
+    if (rank === null || rank < bestRank) continue;
+    const money = parseMoney(line);
+    // "€0.00" is a payment status (nothing paid yet), not the price
+    if (!money || money.cents === 0) continue;
+    best = money;
+    bestRank = rank;
+  }
+  return best;
+}
+
+function findCount(text: string, pattern: RegExp): number | null {
+  const match = pattern.exec(text);
+  return match ? Number(match[1]) : null;
+}
+
+function findConfirmationCode(text: string): string | null {
+  const pattern =
+    /\b(?:confirmation|record locator|booking reference|reservation|conf\.?)\s*(?:number|code|no\.?|#)?\s*[:#]?\s*([A-Za-z0-9]{5,12})\b/gi;
+  for (const match of text.matchAll(pattern)) {
+    // Codes are upper case with at least one letter or digit mix ("confirmed" is not a code)
+    if (match[1] === match[1].toUpperCase() && /[0-9A-Z]/.test(match[1])) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function toCents(whole: string, fraction: string | undefined): number {
+  const units = Number(whole.replace(/,/g, ''));
+  const cents = fraction ? Number(fraction.padEnd(2, '0')) : 0;
+  return units * 100 + cents;
+}
+
+function formatDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,228 @@
+/**
+ * Policy Rule Engine
+ *
+ * Runs the configured policy rules over a trip. Rule configuration comes
+ * from the policy_rules table: registered rules run with their defaults
+ * unless a row disables or tunes them, and rows with a template define
+ * custom rules. Every rule's findings become violation rows through
+ * persistViolationDrafts, the only place violations are written.
+ */
+
+import * as db from '../db/queries';
+import type {
+  PolicyRuleConfigRow,
+  TravelPolicyRow,
+  TripRow,
+  ViolationCode,
+  ViolationRow,
+  ViolationSeverity,
+} from '../types/domain';
+import { resolvePerDiem } from '../services/perDiem';
+import { resolveBudgetPosition } from '../services/budgets';
+import { resolveExpenseReport } from '../services/expenseReports';
+import { resolvePolicyForUser } from '../services/policyOverrides';
+import { getPolicyRule, getRuleTemplate, listRegisteredRules } from './registry';
+import type { PolicyEvaluationContext, PolicyRuleDefinition, ViolationDraft } from './types';
+
+/**
+ * A rule combined with its configuration.
+ */
+export interface ConfiguredRule {
+  code: string;
+  rule: PolicyRuleDefinition;
+  /** Template a custom rule instantiates (null for registered rules) */
+  template: string | null;
+  enabled: boolean;
+  severity: ViolationSeverity;
+  params: unknown;
+  description: string;
+}
+
+function configureRule(
+  code: string,
+  rule: PolicyRuleDefinition,
+  config: PolicyRuleConfigRow | null
+): ConfiguredRule | null {
+  let parsed = rule.params.safeParse(config?.params ?? {});
+  if (!parsed.success) {
+    console.error(`Invalid params for policy rule ${code}: ${parsed.error.message}`);
+    // Fall back to the defaults; custom rules without defaults cannot run
+    parsed = rule.params.safeParse({});
+    if (!parsed.success) return null;
+  }
+
+  return {
+    code,
+    rule,
+    template: config?.template ?? null,
+    enabled: config ? config.enabled : true,
+    severity: config?.severity ?? rule.severity,
+    params: parsed.data,
+    description: config?.description ?? rule.description,
+  };
+}
+
+/**
+ * Load every registered and custom rule with its configuration applied.
+ * Includes disabled rules so callers can report on them.
+ */
+export async function loadConfiguredRules(): Promise<ConfiguredRule[]> {
+  const configs = await db.getPolicyRuleConfigs();
+  const configured: ConfiguredRule[] = [];
+
+  // Registered rules, in registration order
+  for (const rule of listRegisteredRules()) {
+    const config = configs.find((c) => c.code === rule.code && !c.template) ?? null;
+    const entry = configureRule(rule.code, rule, config);
+    if (entry) configured.push(entry);
+  }
+
+  // Custom rules defined from templates, in configuration order
+  for (const config of configs) {
+    if (!config.template) {
+      if (!getPolicyRule(config.code)) {
+        console.error(`policy_rules: no registered rule ${config.code}; row ignored`);
+      }
+      continue;
+    }
+
+    if (getPolicyRule(config.code)) {
+      console.error(`policy_rules: custom rule ${config.code} clashes with a registered rule; row ignored`);
+      continue;
+    }
+
+    const template = getRuleTemplate(config.template);
+    if (!template) {
+      console.error(`policy_rules: unknown template ${config.template} for ${config.code}; row ignored`);
+      continue;
+    }
+
+    const entry = configureRule(config.code, template, config);
+    if (entry) configured.push(entry);
+  }
+
+  return configured;
+}
+
+/**
+ * Gather what the rules need to evaluate a trip under a policy version.
+ * Returns null if the trip owner no longer exists.
+ */
+export async function buildEvaluationContext(
+  trip: TripRow,
+  policyRow: TravelPolicyRow
+): Promise<PolicyEvaluationContext | null> {
+  const owner = await db.getUserById(trip.user_id);
+  if (!owner) return null;
+
+  // Layer the owner's department/role/user overrides on the base policy
+  const resolved = await resolvePolicyForUser(policyRow, owner);
+  const items = await db.getTripItems(trip.id);
+  const receipts = await db.getReceiptsForTrip(trip.id);
+  const perDiem = await resolvePerDiem(trip, resolved);
+  const budget = await resolveBudgetPosition(trip, owner);
+  const expenseReport = await resolveExpenseReport(trip.id);
+
+  return { trip, owner, items, receipts, policy: resolved.policy, perDiem, budget, expenseReport };
+}
+
+/**
+ * Run the enabled rules. Pure: nothing is written.
+ */
+export function collectViolationDrafts(
+  ctx: PolicyEvaluationContext,
+  rules: ConfiguredRule[]
+): ViolationDraft[] {
+  const drafts: ViolationDraft[] = [];
+
+  for (const configured of rules) {
+    if (!configured.enabled) continue;
+
+    for (const finding of configured.rule.evaluate(ctx, configured.params)) {
+      drafts.push({ code: configured.code, severity: configured.severity, ...finding });
+    }
+  }
+
+  return drafts;
+}
+
+/**
+ * Replace a trip's violations with the given drafts. When codes are passed,
+ * only violations with those codes are replaced and the rest are kept.
+ */
+export async function persistViolationDrafts(
+  tripId: string,
+  drafts: ViolationDraft[],
+  codes?: ViolationCode[]
+): Promise<ViolationRow[]> {
+  // Clear existing violations and recompute from scratch
+  await db.deleteViolationsForTrip(tripId, codes);
+
+  const rows: ViolationRow[] = [];
+  for (const draft of drafts) {
+    const row = await db.createViolation({
+      tripId,
+      tripItemId: draft.tripItemId,
+      code: draft.code,
+      severity: draft.severity,
+      message: draft.message,
+      computedValueCents: draft.computedValueCents,
+      policyValueCents: draft.policyValueCents,
+    });
+    if (row) rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Evaluate a trip under a policy version and store the resulting violations.
+ */
+export async function evaluateTripPolicy(
+  trip: TripRow,
+  policyRow: TravelPolicyRow
+): Promise<{ context: PolicyEvaluationContext; violations: ViolationRow[] } | null> {
+  const context = await buildEvaluationContext(trip, policyRow);
+  if (!context) return null;
+
+  const rules = await loadConfiguredRules();
+  const drafts = collectViolationDrafts(context, rules);
+  const violations = await persistViolationDrafts(trip.id, drafts);
+
+  return { context, violations };
+}
+
+/**
+ * Re-run only the given rules and replace their violations, leaving the
+ * trip's other violations as they were decided on. Returns the violations
+ * the rules raised.
+ */
+export async function reevaluateTripRules(
+  trip: TripRow,
+  policyRow: TravelPolicyRow,
+  codes: ViolationCode[]
+): Promise<{ context: PolicyEvaluationContext; violations: ViolationRow[] } | null> {
+  const context = await buildEvaluationContext(trip, policyRow);
+  if (!context) return null;
+
+  const rules = (await loadConfiguredRules()).filter((r) => codes.includes(r.code));
+  const drafts = collectViolationDrafts(context, rules);
+  const violations = await persistViolationDrafts(trip.id, drafts, codes);
+
+  return { context, violations };
+}
+
+/**
+ * Evaluate a trip as if it were submitted now, without writing anything.
+ */
+export async function previewTripPolicy(
+  trip: TripRow,
+  policyRow: TravelPolicyRow
+): Promise<{ context: PolicyEvaluationContext; drafts: ViolationDraft[] } | null> {
+  // Submission-only rules (e.g. PREAPPROVAL) look at the pending_review status
+  const context = await buildEvaluationContext({ ...trip, status: 'pending_review' }, policyRow);
+  if (!context) return null;
+
+  const rules = await loadConfiguredRules();
+  return { context, drafts: collectViolationDrafts(context, rules) };
+}
@@ -0,0 +1,47 @@
+/**
+ * Policy Rule Registry
+ *
+ * Holds the rules and rule templates the engine can run. Built-ins are
+ * registered up front; additional rules can be registered in code at
+ * startup, before the service handles requests.
+ */
+
+import type { PolicyRule, PolicyRuleTemplate } from './types';
+import { BUILT_IN_RULES } from './rules';
+import { BUILT_IN_TEMPLATES } from './templates';
+
+const rules = new Map<string, PolicyRule>(BUILT_IN_RULES.map((r) => [r.code, r]));
+const templates = new Map<string, PolicyRuleTemplate>(BUILT_IN_TEMPLATES.map((t) => [t.name, t]));
+
+/**
+ * Register a rule with a fixed code.
+ */
+export function registerPolicyRule(rule: PolicyRule): void {
+  if (rules.has(rule.code)) {
+    throw new Error(`Policy rule ${rule.code} is already registered`);
+  }
+  rules.set(rule.code, rule);
+}
+
+/**
+ * Register a template that custom rules in policy_rules can instantiate.
+ */
+export function registerRuleTemplate(template: PolicyRuleTemplate): void {
+  if (templates.has(template.name)) {
+    throw new Error(`Rule template ${template.name} is already registered`);
+  }
+  templates.set(template.name, template);
+}
+
+export function getPolicyRule(code: string): PolicyRule | undefined {
+  return rules.get(code);
+}
+
+export function getRuleTemplate(name: string): PolicyRuleTemplate | undefined {
+  return templates.get(name);
+}
+
+/** Registered rules in registration order */
+export function listRegisteredRules(): PolicyRule[] {
+  return [...rules.values()];
+}
@@ -0,0 +1,38 @@
+/**
+ * BUDGET_EXCEEDED (blocker)
+ *
+ * Flags submitted trips that would push the owner's department over its
+ * travel budget for the fiscal period the trip starts in. Departments
+ * without a budget for that period are not checked, nor are draft trips.
+ */
+
+import { z } from 'zod';
+import { formatCents, sumCents } from '../../utils/money';
+import type { PolicyRule } from '../types';
+
+const paramsSchema = z.object({});
+
+export const budgetExceededRule: PolicyRule<z.infer<typeof paramsSchema>> = {
+  code: 'BUDGET_EXCEEDED',
+  description: 'Trips that would take the department over its travel budget need an exception approval',
+  severity: 'blocker',
+  params: paramsSchema,
+
+  evaluate(ctx) {
+    if (ctx.trip.status !== 'pending_review' || !ctx.budget) return [];
+
+    const { budget, committedCents } = ctx.budget;
+    const tripTotalCents = sumCents(ctx.items.map((i) => i.reporting_amount_cents));
+    const projectedCents = committedCents + tripTotalCents;
+    if (projectedCents <= budget.budget_cents) return [];
+
+    return [
+      {
+        tripItemId: null,
+        message: `Trip total (${formatCents(tripTotalCents)}) would bring ${budget.department} travel spend for ${budget.fiscal_period} to ${formatCents(projectedCents)}, over its budget of ${formatCents(budget.budget_cents)}`,
+        computedValueCents: projectedCents,
+        policyValueCents: budget.budget_cents,
+      },
+    ];
+  },
+};
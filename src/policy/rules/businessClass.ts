@@ -0,0 +1,54 @@
+/**
+ * BUSINESS_CLASS (blocker)
+ *
+ * Flags non-economy flights when the policy is economy only. Business class
+ * is allowed on flights at least business_class_min_flight_hours long when
+ * the resolved policy sets that allowance.
+ */
+
+import { z } from 'zod';
+import type { FlightMeta } from '../../types/domain';
+import type { PolicyRule, RuleFinding } from '../types';
+
+const paramsSchema = z.object({});
+
+export const businessClassRule: PolicyRule<z.infer<typeof paramsSchema>> = {
+  code: 'BUSINESS_CLASS',
+  description: 'Flights must be economy unless a long-haul business class allowance applies',
+  severity: 'blocker',
+  params: paramsSchema,
+
+  evaluate(ctx) {
+    const findings: RuleFinding[] = [];
+    if (!ctx.policy.economy_only) return findings;
+
+    const minHours =
+      ctx.policy.business_class_min_flight_hours === null
+        ? null
+        : Number(ctx.policy.business_class_min_flight_hours);
+
+    for (const item of ctx.items) {
+      if (item.type !== 'flight') continue;
+
+      const meta = item.meta as unknown as FlightMeta;
+      if (!meta.cabin || meta.cabin === 'economy') continue;
+
+      const hours = Number(meta.duration_hours);
+      const longHaulAllowed = minHours !== null && meta.cabin === 'business' && hours >= minHours;
+      if (longHaulAllowed) continue;
+
+      findings.push({
+        tripItemId: item.id,
+        message:
+          minHours === null
+            ? `Flight booked in ${meta.cabin} class; policy requires economy only`
+            : `Flight booked in ${meta.cabin} class; policy allows business only on flights of ${minHours}+ hours ` +
+              `(${Number.isFinite(hours) ? `this flight is ${hours} hours` : 'no flight duration given'})`,
+        computedValueCents: null,
+        policyValueCents: null,
+      });
+    }
+
+    return findings;
+  },
+};
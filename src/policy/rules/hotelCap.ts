@@ -0,0 +1,54 @@
+/**
+ * HOTEL_CAP (warning)
+ *
+ * Flags hotels whose nightly rate, converted to the reporting currency,
+ * exceeds the destination nightly cap. An optional tolerance lets small
+ * overruns through without a violation.
+ */
+
+import { z } from 'zod';
+import type { HotelMeta } from '../../types/domain';
+import { convertCents, formatCents, getReportingCurrency } from '../../utils/money';
+import type { PolicyRule, RuleFinding } from '../types';
+import { applyTolerance, describeCap } from './tolerance';
+
+const paramsSchema = z.object({
+  tolerancePercent: z.number().min(0).max(100).default(0),
+});
+
+export const hotelCapRule: PolicyRule<z.infer<typeof paramsSchema>> = {
+  code: 'HOTEL_CAP',
+  description: 'Hotel nightly rate must not exceed the destination per-diem (or flat policy cap)',
+  severity: 'warning',
+  params: paramsSchema,
+
+  evaluate(ctx, params) {
+    const findings: RuleFinding[] = [];
+    const cap = ctx.perDiem.hotelNightly;
+    const limitCents = applyTolerance(cap.capCents, params.tolerancePercent);
+
+    for (const item of ctx.items) {
+      if (item.type !== 'hotel') continue;
+
+      const meta = item.meta as unknown as HotelMeta;
+      if (!meta.nightly_rate_cents) continue;
+
+      const nightlyRateCents = convertCents(meta.nightly_rate_cents, Number(item.fx_rate));
+      if (nightlyRateCents <= limitCents) continue;
+
+      const rateLabel =
+        item.currency === getReportingCurrency()
+          ? formatCents(nightlyRateCents)
+          : `${formatCents(meta.nightly_rate_cents, item.currency)} ≈ ${formatCents(nightlyRateCents)}`;
+
+      findings.push({
+        tripItemId: item.id,
+        message: `Hotel nightly rate (${rateLabel}) exceeds cap (${describeCap(cap, params.tolerancePercent)})`,
+        computedValueCents: nightlyRateCents,
+        policyValueCents: cap.capCents,
+      });
+    }
+
+    return findings;
+  },
+};
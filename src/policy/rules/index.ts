@@ -0,0 +1,22 @@
+/**
+ * Built-in policy rules, in evaluation order.
+ */
+
+import type { PolicyRule } from '../types';
+import { businessClassRule } from './businessClass';
+import { hotelCapRule } from './hotelCap';
+import { mealCapRule } from './mealCap';
+import { preapprovalRule } from './preapproval';
+import { missingReceiptRule } from './missingReceipt';
+import { budgetExceededRule } from './budgetExceeded';
+import { overApprovedAmountRule } from './overApprovedAmount';
+
+export const BUILT_IN_RULES: PolicyRule[] = [
+  businessClassRule,
+  hotelCapRule,
+  mealCapRule,
+  preapprovalRule,
+  missingReceiptRule,
+  budgetExceededRule,
+  overApprovedAmountRule,
+];
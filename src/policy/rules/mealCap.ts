@@ -0,0 +1,50 @@
+/**
+ * MEAL_CAP (warning)
+ *
+ * Flags days whose meal spending, in the reporting currency, exceeds the
+ * destination daily cap. Meals without a date are grouped as "unknown".
+ */
+
+import { z } from 'zod';
+import type { MealMeta } from '../../types/domain';
+import { formatCents } from '../../utils/money';
+import type { PolicyRule, RuleFinding } from '../types';
+import { applyTolerance, describeCap } from './tolerance';
+
+const paramsSchema = z.object({
+  tolerancePercent: z.number().min(0).max(100).default(0),
+});
+
+export const mealCapRule: PolicyRule<z.infer<typeof paramsSchema>> = {
+  code: 'MEAL_CAP',
+  description: 'Daily meal spending must not exceed the destination per-diem (or flat policy cap)',
+  severity: 'warning',
+  params: paramsSchema,
+
+  evaluate(ctx, params) {
+    const findings: RuleFinding[] = [];
+    const cap = ctx.perDiem.mealDaily;
+    const limitCents = applyTolerance(cap.capCents, params.tolerancePercent);
+
+    const mealsByDate = new Map<string, number>();
+    for (const item of ctx.items) {
+      if (item.type !== 'meal') continue;
+      const meta = item.meta as unknown as MealMeta;
+      const date = meta.date || 'unknown';
+      mealsByDate.set(date, (mealsByDate.get(date) || 0) + item.reporting_amount_cents);
+    }
+
+    for (const [date, totalCents] of mealsByDate) {
+      if (totalCents <= limitCents) continue;
+
+      findings.push({
+        tripItemId: null,
+        message: `Meal spending on ${date} (${formatCents(totalCents)}) exceeds daily cap (${describeCap(cap, params.tolerancePercent)})`,
+        computedValueCents: totalCents,
+        policyValueCents: cap.capCents,
+      });
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * MISSING_RECEIPT (warning)
+ *
+ * Flags items above the receipt threshold that have no receipt attached.
+ * The itemTypes parameter limits which item types need proof of purchase.
+ */
+
+import { z } from 'zod';
+import type { ReceiptStatus, TripItemRow } from '../../types/domain';
+import { formatCents } from '../../utils/money';
+import { itemTypeSchema } from '../../utils/validation';
+import type { PolicyRule, RuleFinding } from '../types';
+
+/**
+ * Receipt status of an item given how many receipts are attached to it.
+ */
+export function getReceiptStatus(
+  item: TripItemRow,
+  receiptCount: number,
+  receiptRequiredOverCents: number
+): ReceiptStatus {
+  if (receiptCount > 0) return 'attached';
+  return item.reporting_amount_cents > receiptRequiredOverCents ? 'missing' : 'not_required';
+}
+
+const paramsSchema = z.object({
+  itemTypes: z.array(itemTypeSchema).default(['flight', 'hotel', 'meal', 'transport']),
+});
+
+export const missingReceiptRule: PolicyRule<z.infer<typeof paramsSchema>> = {
+  code: 'MISSING_RECEIPT',
+  description: 'Items above the receipt threshold need a receipt attached',
+  severity: 'warning',
+  params: paramsSchema,
+
+  evaluate(ctx, params) {
+    const findings: RuleFinding[] = [];
+    const thresholdCents = ctx.policy.receipt_required_over_cents;
+
+    for (const item of ctx.items) {
+      if (!params.itemTypes.includes(item.type)) continue;
+
+      const receiptCount = ctx.receipts.filter((r) => r.trip_item_id === item.id).length;
+      if (getReceiptStatus(item, receiptCount, thresholdCents) !== 'missing') continue;
+
+      findings.push({
+        tripItemId: item.id,
+        message: `No receipt attached for ${item.type} "${item.description}" (${formatCents(item.reporting_amount_cents)}); receipts are required above ${formatCents(thresholdCents)}`,
+        computedValueCents: item.reporting_amount_cents,
+        policyValueCents: thresholdCents,
+      });
+    }
+
+    return findings;
+  },
+};
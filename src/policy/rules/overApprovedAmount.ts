@@ -0,0 +1,45 @@
+/**
+ * OVER_APPROVED_AMOUNT (warning)
+ *
+ * Flags item types whose actual spend, filed on a submitted expense report,
+ * exceeds the amount approved for the trip by more than the tolerance.
+ * Trips without a submitted expense report are not checked.
+ */
+
+import { z } from 'zod';
+import { reconcileExpenses } from '../../services/expenseReports';
+import { formatCents } from '../../utils/money';
+import type { PolicyRule, RuleFinding } from '../types';
+import { applyTolerance } from './tolerance';
+
+const paramsSchema = z.object({
+  tolerancePercent: z.number().min(0).max(100).default(10),
+});
+
+export const overApprovedAmountRule: PolicyRule<z.infer<typeof paramsSchema>> = {
+  code: 'OVER_APPROVED_AMOUNT',
+  description: 'Actual expenses must stay within tolerance of the approved amount for each item type',
+  severity: 'warning',
+  params: paramsSchema,
+
+  evaluate(ctx, params) {
+    const report = ctx.expenseReport;
+    if (!report || !report.report.submitted_at || report.actuals.length === 0) return [];
+
+    const findings: RuleFinding[] = [];
+    for (const line of reconcileExpenses(ctx.items, report.actuals)) {
+      const limitCents = applyTolerance(line.approvedCents, params.tolerancePercent);
+      if (line.actualCents <= limitCents) continue;
+
+      const tolerance = params.tolerancePercent > 0 ? ` + ${params.tolerancePercent}% tolerance` : '';
+      findings.push({
+        tripItemId: null,
+        message: `Actual ${line.itemType} spend (${formatCents(line.actualCents)}) exceeds the approved amount (${formatCents(line.approvedCents)}${tolerance})`,
+        computedValueCents: line.actualCents,
+        policyValueCents: line.approvedCents,
+      });
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * PREAPPROVAL (blocker)
+ *
+ * Flags submitted trips whose total, in the reporting currency, exceeds the
+ * preapproval threshold. Draft trips are not checked.
+ */
+
+import { z } from 'zod';
+import { formatCents, sumCents } from '../../utils/money';
+import type { PolicyRule } from '../types';
+
+const paramsSchema = z.object({});
+
+export const preapprovalRule: PolicyRule<z.infer<typeof paramsSchema>> = {
+  code: 'PREAPPROVAL',
+  description: 'Trips above the preapproval threshold need an exception approval',
+  severity: 'blocker',
+  params: paramsSchema,
+
+  evaluate(ctx) {
+    if (ctx.trip.status !== 'pending_review') return [];
+
+    const tripTotalCents = sumCents(ctx.items.map((i) => i.reporting_amount_cents));
+    const thresholdCents = ctx.policy.preapproval_over_cents;
+    if (tripTotalCents <= thresholdCents) return [];
+
+    return [
+      {
+        tripItemId: null,
+        message: `Total trip spend (${formatCents(tripTotalCents)}) exceeds preapproval threshold (${formatCents(thresholdCents)})`,
+        computedValueCents: tripTotalCents,
+        policyValueCents: thresholdCents,
+      },
+    ];
+  },
+};
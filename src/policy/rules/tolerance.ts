@@ -0,0 +1,17 @@
+/**
+ * Helpers for cap rules that allow a configurable tolerance.
+ */
+
+import { formatCents } from '../../utils/money';
+import type { ResolvedCap } from '../../services/perDiem';
+
+/** Highest amount allowed once the tolerance is added to the cap */
+export function applyTolerance(capCents: number, tolerancePercent: number): number {
+  return Math.round(capCents * (1 + tolerancePercent / 100));
+}
+
+/** e.g. "$250.00, flat policy cap" or "$250.00 + 10% tolerance, flat policy cap" */
+export function describeCap(cap: ResolvedCap, tolerancePercent: number): string {
+  const tolerance = tolerancePercent > 0 ? ` + ${tolerancePercent}% tolerance` : '';
+  return `${formatCents(cap.capCents)}${tolerance}, ${cap.source}`;
+}
@@ -0,0 +1,77 @@
+/**
+ * Rule Templates
+ *
+ * Parameterised rule shapes that custom rules instantiate from the
+ * policy_rules table, so finance can add checks without a code change.
+ * A row with template 'item_amount_cap' and params
+ * { "itemType": "transport", "maxCents": 30000 } becomes a rule that
+ * flags transport items above $300 under the row's own code.
+ */
+
+import { z } from 'zod';
+import { formatCents } from '../utils/money';
+import { itemTypeSchema } from '../utils/validation';
+import type { PolicyRuleTemplate, RuleFinding } from './types';
+
+const itemAmountCapParams = z.object({
+  itemType: itemTypeSchema,
+  maxCents: z.number().int().positive(),
+});
+
+/** Flags individual items of one type above a fixed amount */
+export const itemAmountCapTemplate: PolicyRuleTemplate<z.infer<typeof itemAmountCapParams>> = {
+  name: 'item_amount_cap',
+  description: 'Items of one type must not exceed a fixed amount each',
+  severity: 'warning',
+  params: itemAmountCapParams,
+
+  evaluate(ctx, params) {
+    const findings: RuleFinding[] = [];
+    for (const item of ctx.items) {
+      if (item.type !== params.itemType) continue;
+      if (item.reporting_amount_cents <= params.maxCents) continue;
+
+      findings.push({
+        tripItemId: item.id,
+        message: `${item.type} "${item.description}" (${formatCents(item.reporting_amount_cents)}) exceeds the per-item limit (${formatCents(params.maxCents)})`,
+        computedValueCents: item.reporting_amount_cents,
+        policyValueCents: params.maxCents,
+      });
+    }
+    return findings;
+  },
+};
+
+const maxTripDaysParams = z.object({
+  maxDays: z.number().int().positive(),
+});
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Flags trips longer than a number of days (start and end inclusive) */
+export const maxTripDaysTemplate: PolicyRuleTemplate<z.infer<typeof maxTripDaysParams>> = {
+  name: 'max_trip_days',
+  description: 'Trips must not be longer than a number of days',
+  severity: 'warning',
+  params: maxTripDaysParams,
+
+  evaluate(ctx, params) {
+    const days =
+      Math.round(
+        (Date.parse(`${ctx.trip.end_date}T00:00:00Z`) - Date.parse(`${ctx.trip.start_date}T00:00:00Z`)) /
+          MS_PER_DAY
+      ) + 1;
+    if (days <= params.maxDays) return [];
+
+    return [
+      {
+        tripItemId: null,
+        message: `Trip lasts ${days} days; the limit is ${params.maxDays} days`,
+        computedValueCents: null,
+        policyValueCents: null,
+      },
+    ];
+  },
+};
+
+export const BUILT_IN_TEMPLATES: PolicyRuleTemplate[] = [itemAmountCapTemplate, maxTripDaysTemplate];
@@ -0,0 +1,85 @@
+/**
+ * Policy Rule Types
+ *
+ * Contract shared by every policy rule. A rule is a pure function over an
+ * evaluation context; it never writes to storage. The engine turns rule
+ * findings into violation rows through a single persistence path.
+ */
+
+import type { z } from 'zod';
+import type {
+  ReceiptRow,
+  TravelPolicyRow,
+  TripItemRow,
+  TripRow,
+  UserRow,
+  ViolationCode,
+  ViolationSeverity,
+} from '../types/domain';
+import type { ResolvedPerDiem } from '../services/perDiem';
+import type { BudgetPosition } from '../services/budgets';
+import type { ExpenseReportPosition } from '../services/expenseReports';
+
+/**
+ * Everything a rule may look at when evaluating a trip.
+ */
+export interface PolicyEvaluationContext {
+  trip: TripRow;
+  owner: UserRow;
+  items: TripItemRow[];
+  receipts: ReceiptRow[];
+  /** Policy version with the owner's overrides applied */
+  policy: TravelPolicyRow;
+  /** Destination hotel and meal caps */
+  perDiem: ResolvedPerDiem;
+  /** Owner's department budget for the trip's fiscal period (null if none) */
+  budget: BudgetPosition | null;
+  /** Post-trip expense report and its actual expenses (null if none was filed) */
+  expenseReport: ExpenseReportPosition | null;
+}
+
+/**
+ * A single problem found by a rule.
+ */
+export interface RuleFinding {
+  /** Item at fault; null for trip-level findings */
+  tripItemId: string | null;
+  message: string;
+  computedValueCents: number | null;
+  policyValueCents: number | null;
+}
+
+/**
+ * A finding tagged with the rule code and configured severity, ready to persist.
+ */
+export interface ViolationDraft extends RuleFinding {
+  code: ViolationCode;
+  severity: ViolationSeverity;
+}
+
+/**
+ * Behaviour shared by registered rules and rule templates.
+ * `params` must accept `{}` for rules that can run without configuration.
+ */
+export interface PolicyRuleDefinition<P = any> {
+  description: string;
+  /** Severity used when the configuration does not set one */
+  severity: ViolationSeverity;
+  /** Parameter schema; defaults fill in anything the configuration omits */
+  params: z.ZodType<P, z.ZodTypeDef, unknown>;
+  evaluate(ctx: PolicyEvaluationContext, params: P): RuleFinding[];
+}
+
+/**
+ * A rule with a fixed code, registered in code.
+ */
+export interface PolicyRule<P = any> extends PolicyRuleDefinition<P> {
+  code: ViolationCode;
+}
+
+/**
+ * A parameterised rule shape that custom rules in policy_rules instantiate.
+ */
+export interface PolicyRuleTemplate<P = any> extends PolicyRuleDefinition<P> {
+  name: string;
+}
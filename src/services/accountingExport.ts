@@ -0,0 +1,222 @@
+/**
+ * Accounting Export
+ *
+ * Turns approved trips into files for the general ledger: a CSV with one
+ * row per posted amount, and a double-entry journal with one balanced entry
+ * per trip. A trip is exported once, so it waits until its expense report
+ * is final, and is then posted on the same basis it is reimbursed on: its
+ * actual expenses when the report is reconciled or approved, its approved
+ * items when the overrun was rejected. Each reporting-currency amount is debited to the expense
+ * account for its type, with the owner's department as cost center, and
+ * credited to employee reimbursements payable, or to the direct-billing
+ * payable for company-paid amounts. Accounts come from the gl_accounts table.
+ */
+
+import type {
+  AccountingExportRow,
+  ActualExpenseRow,
+  ExpenseReportRow,
+  ExpenseReportStatus,
+  GlAccountPurpose,
+  GlAccountRow,
+  ItemType,
+  TripItemRow,
+  TripRow,
+  UserRow,
+} from '../types/domain';
+import { toCsv } from '../utils/csv';
+import { centsToDecimal, sumCents } from '../utils/money';
+import { isReportSettled, type ReimbursementPosition } from './reimbursements';
+
+const ITEM_TYPES: ItemType[] = ['flight', 'hotel', 'meal', 'transport'];
+
+/** Expense report statuses after which the amount reimbursed no longer changes */
+const FINAL_REPORT_STATUSES: ExpenseReportStatus[] = ['reconciled', 'approved', 'rejected'];
+
+/** Every account the export can post to */
+export const GL_ACCOUNT_PURPOSES: GlAccountPurpose[] = [
+  ...ITEM_TYPES,
+  'employee_payable',
+  'company_payable',
+];
+
+export type ExportableTrip = TripRow & {
+  user: UserRow;
+  basis: ReimbursementPosition['basis'];
+  /** Approved items or actual expenses, per the basis */
+  postings: Array<TripItemRow | ActualExpenseRow>;
+};
+
+export interface JournalLine {
+  entryId: string;
+  date: string;
+  account: GlAccountRow;
+  /** Department for expense lines; payables are not split by cost center */
+  costCenter: string | null;
+  description: string;
+  debitCents: number;
+  creditCents: number;
+  tripId: string;
+}
+
+/**
+ * Account purposes with no row in gl_accounts.
+ */
+export function missingGlAccounts(accounts: GlAccountRow[]): GlAccountPurpose[] {
+  return GL_ACCOUNT_PURPOSES.filter((purpose) => !accounts.some((a) => a.purpose === purpose));
+}
+
+/**
+ * What a trip is posted on, or null until its expense report is final.
+ * A trip without a report is held too: posting its estimates now would
+ * leave the ledger short once actual expenses are filed.
+ */
+export function toExportableTrip(
+  trip: TripRow & { user: UserRow; items: TripItemRow[] },
+  report: ExpenseReportRow | null,
+  actuals: ActualExpenseRow[]
+): ExportableTrip | null {
+  if (!report || !FINAL_REPORT_STATUSES.includes(report.status)) return null;
+
+  const { items, ...rest } = trip;
+  return isReportSettled(report)
+    ? { ...rest, basis: 'actual_expenses', postings: actuals }
+    : { ...rest, basis: 'approved_items', postings: items };
+}
+
+/**
+ * One balanced journal entry per trip, numbered within the export
+ * (e.g. AE-20261019-01-001) and dated the last day of the trip.
+ */
+export function buildJournal(
+  reference: string,
+  trips: ExportableTrip[],
+  accounts: Map<GlAccountPurpose, GlAccountRow>
+): JournalLine[] {
+  const lines: JournalLine[] = [];
+
+  trips.forEach((trip, index) => {
+    const entry = {
+      entryId: `${reference}-${String(index + 1).padStart(3, '0')}`,
+      date: trip.end_date,
+      description: `${trip.user.name} - ${trip.destination_city} (${trip.start_date} to ${trip.end_date})`,
+      tripId: trip.id,
+    };
+    const post = (purpose: GlAccountPurpose, costCenter: string | null, debitCents: number, creditCents: number) => {
+      if (debitCents === 0 && creditCents === 0) return;
+      lines.push({ ...entry, account: accounts.get(purpose)!, costCenter, debitCents, creditCents });
+    };
+
+    for (const type of ITEM_TYPES) {
+      const cents = sumCents(trip.postings.filter((p) => p.type === type).map((p) => p.reporting_amount_cents));
+      post(type, trip.user.department, cents, 0);
+    }
+
+    const byPayer = (companyPaid: boolean) =>
+      sumCents(trip.postings.filter((p) => p.company_paid === companyPaid).map((p) => p.reporting_amount_cents));
+    post('employee_payable', null, 0, byPayer(false));
+    post('company_payable', null, 0, byPayer(true));
+  });
+
+  return lines;
+}
+
+/**
+ * CSV of the exported trips, one row per approved item or actual expense.
+ */
+export function buildItemsCsv(
+  reference: string,
+  trips: ExportableTrip[],
+  accounts: Map<GlAccountPurpose, GlAccountRow>,
+  reportingCurrency: string
+): string {
+  const rows = trips.flatMap((trip) =>
+    trip.postings.map((item) => [
+      reference,
+      trip.id,
+      trip.status,
+      trip.basis,
+      trip.user.id,
+      trip.user.name,
+      trip.user.department,
+      trip.destination_city,
+      trip.start_date,
+      trip.end_date,
+      item.id,
+      item.type,
+      item.description,
+      accounts.get(item.type)!.account_code,
+      item.company_paid,
+      centsToDecimal(item.amount_cents),
+      item.currency,
+      centsToDecimal(item.reporting_amount_cents),
+      reportingCurrency,
+    ])
+  );
+
+  return toCsv(
+    [
+      'export_reference',
+      'trip_id',
+      'trip_status',
+      'basis',
+      'employee_id',
+      'employee_name',
+      'cost_center',
+      'destination',
+      'start_date',
+      'end_date',
+      'item_id',
+      'item_type',
+      'description',
+      'gl_account',
+      'company_paid',
+      'amount',
+      'currency',
+      'reporting_amount',
+      'reporting_currency',
+    ],
+    rows
+  );
+}
+
+/**
+ * Journal lines as a CSV file, debits and credits in separate columns.
+ */
+export function buildJournalCsv(lines: JournalLine[], reportingCurrency: string): string {
+  return toCsv(
+    [
+      'entry_id',
+      'date',
+      'account_code',
+      'account_name',
+      'cost_center',
+      'description',
+      'debit',
+      'credit',
+      'currency',
+      'trip_id',
+    ],
+    lines.map((line) => [
+      line.entryId,
+      line.date,
+      line.account.account_code,
+      line.account.account_name,
+      line.costCenter,
+      line.description,
+      line.debitCents > 0 ? centsToDecimal(line.debitCents) : '',
+      line.creditCents > 0 ? centsToDecimal(line.creditCents) : '',
+      reportingCurrency,
+      line.tripId,
+    ])
+  );
+}
+
+/**
+ * Next free export reference for a day, e.g. AE-20261019-02.
+ */
+export function nextExportReference(existing: AccountingExportRow[], onDate: string): string {
+  const prefix = `AE-${onDate.replace(/-/g, '')}-`;
+  const taken = existing.filter((e) => e.reference.startsWith(prefix)).length;
+  return `${prefix}${String(taken + 1).padStart(2, '0')}`;
+}
@@ -0,0 +1,169 @@
+/**
+ * Approval Chain
+ *
+ * Works out which approval stages a submitted trip needs and how far it
+ * has got. Stages come from the approval_stages table in stage_order; a
+ * stage is skipped when its threshold and blocker conditions do not apply,
+ * and the line manager stage is skipped for employees with no manager.
+ * Only approvals made since the trip's latest submission count, so a trip
+ * sent back for changes goes through the whole chain again. An approved
+ * trip whose expense report went over the approved amount goes through the
+ * chain once more for the report, sized on the actual spend; the trip
+ * itself stays approved. Reviewers can delegate their authority to a
+ * colleague for a date range.
+ */
+
+import * as db from '../db/queries';
+import type {
+  ApprovalRow,
+  ApprovalStageRow,
+  ExpenseReportRow,
+  TripRow,
+  UserRow,
+} from '../types/domain';
+import { sumCents } from '../utils/money';
+
+export interface ApprovalStageStatus {
+  stage: ApprovalStageRow;
+  /** Sign-off for this stage in the current round, if any */
+  approval: ApprovalRow | null;
+}
+
+export interface ApprovalProgress {
+  owner: UserRow | null;
+  /** Required stages, in order */
+  stages: ApprovalStageStatus[];
+  /** First required stage without a sign-off; null once every stage has signed off */
+  currentStage: ApprovalStageRow | null;
+  /** Decisions made since the latest submission */
+  roundApprovals: ApprovalRow[];
+  /** Trip total, or the actual spend while the expense report is in review */
+  tripTotalCents: number;
+  hasBlockers: boolean;
+  /** Expense report in review, when the round is about the report rather than the trip */
+  expenseReview: ExpenseReportRow | null;
+}
+
+/**
+ * Whether a stage applies to a trip.
+ */
+export function isStageRequired(
+  stage: ApprovalStageRow,
+  owner: UserRow | null,
+  tripTotalCents: number,
+  hasBlockers: boolean
+): boolean {
+  if (stage.approver_type === 'line_manager' && !owner?.manager_id) {
+    return false;
+  }
+
+  const threshold = stage.applies_over_cents;
+  if (threshold === null && !stage.applies_with_blockers) {
+    return true;
+  }
+
+  return (
+    (threshold !== null && tripTotalCents >= Number(threshold)) ||
+    (stage.applies_with_blockers && hasBlockers)
+  );
+}
+
+/**
+ * Approvals made since the round started (the trip's latest submission,
+ * or the expense report's submission).
+ */
+export function getRoundApprovals(since: string | null, approvals: ApprovalRow[]): ApprovalRow[] {
+  if (!since) return approvals;
+  const startedAt = Date.parse(since);
+  return approvals.filter((a) => Date.parse(a.created_at) >= startedAt);
+}
+
+/**
+ * The trip's expense report if it is in review. Only approved trips file
+ * reports, so the trip's own approval is never reopened.
+ */
+export async function getExpenseReview(trip: TripRow): Promise<ExpenseReportRow | null> {
+  if (trip.status !== 'approved' && trip.status !== 'approved_exception') return null;
+  const report = await db.getExpenseReportForTrip(trip.id);
+  return report?.status === 'pending_review' ? report : null;
+}
+
+/**
+ * Resolve the required stages of a trip and which have signed off.
+ */
+export async function resolveApprovalProgress(trip: TripRow): Promise<ApprovalProgress> {
+  const owner = await db.getUserById(trip.user_id);
+  const allStages = await db.getApprovalStages();
+  const approvals = await db.getApprovalsForTrip(trip.id);
+  const expenseReview = await getExpenseReview(trip);
+
+  // An expense review is sized on the actual spend, and only the overrun can block it
+  let violations = await db.getViolationsForTrip(trip.id);
+  let tripTotalCents: number;
+  if (expenseReview) {
+    violations = violations.filter((v) => v.code === 'OVER_APPROVED_AMOUNT');
+    const actuals = await db.getActualExpensesForTrip(trip.id);
+    tripTotalCents = sumCents(actuals.map((a) => a.reporting_amount_cents));
+  } else {
+    tripTotalCents = await db.getTripTotalCents(trip.id);
+  }
+  const hasBlockers = violations.some((v) => v.severity === 'blocker');
+
+  const roundApprovals = getRoundApprovals(
+    expenseReview ? expenseReview.submitted_at : trip.submitted_at,
+    approvals
+  );
+  const stages: ApprovalStageStatus[] = allStages
+    .filter((stage) => isStageRequired(stage, owner, tripTotalCents, hasBlockers))
+    .map((stage) => ({
+      stage,
+      approval:
+        roundApprovals.find(
+          (a) =>
+            a.stage === stage.key &&
+            (a.decision === 'approved' || a.decision === 'approved_exception')
+        ) ?? null,
+    }));
+
+  const current = stages.find((s) => s.approval === null);
+
+  return {
+    owner,
+    stages,
+    currentStage: current?.stage ?? null,
+    roundApprovals,
+    tripTotalCents,
+    hasBlockers,
+    expenseReview,
+  };
+}
+
+/**
+ * Human-readable description of who signs off a stage.
+ */
+export function describeStageApprover(stage: ApprovalStageRow, owner: UserRow | null): string {
+  if (stage.approver_type === 'line_manager') {
+    return owner ? `${owner.name}'s line manager` : 'the line manager';
+  }
+  return stage.approver_role === 'admin' ? 'an admin' : `a ${stage.approver_role?.replace('_', ' ')}`;
+}
+
+/**
+ * Reviewers whose review authority is delegated to the user on the given date.
+ * Deactivated reviewers are left out: their authority ends with their account.
+ */
+export async function getActiveDelegators(
+  userId: string,
+  onDate: string = new Date().toISOString().slice(0, 10)
+): Promise<UserRow[]> {
+  const delegations = await db.getActiveDelegationsForDelegate(userId, onDate);
+  const delegators: UserRow[] = [];
+  for (const delegation of delegations) {
+    const delegator = await db.getUserById(delegation.delegator_user_id);
+    if (delegator?.deactivated_at) continue;
+    if (delegator && !delegators.some((d) => d.id === delegator.id)) {
+      delegators.push(delegator);
+    }
+  }
+  return delegators;
+}
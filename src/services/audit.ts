@@ -0,0 +1,191 @@
+/**
+ * Audit Trail
+ *
+ * Every change made through the tools is recorded as an append-only audit
+ * event: who acted (and who for, under a delegation), what changed, and the
+ * values before and after. Only changes are recorded; read-only tools are
+ * not. Events are written after the change is stored, and a failed write
+ * fails the tool call so it cannot go unnoticed.
+ */
+
+import * as db from '../db/queries';
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditEventRow,
+  SessionContext,
+  TripRow,
+  UserRow,
+  ViolationRow,
+} from '../types/domain';
+
+export interface AuditEventInput {
+  tripId?: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  /** Reviewer the actor covered for under a delegation */
+  onBehalfOfUserId?: string | null;
+}
+
+/**
+ * Append an audit event for the current session. Throws when the event
+ * cannot be stored, so the calling tool reports an error.
+ */
+export async function recordAuditEvent(ctx: SessionContext, event: AuditEventInput): Promise<void> {
+  const row = await db.createAuditEvent({
+    ...event,
+    actorUserId: ctx.userId,
+    actorRole: ctx.role,
+  });
+  if (!row) {
+    throw new Error(
+      `The change was saved but its audit event ${event.action} for ` +
+        `${event.entityId ?? 'settings'} could not be recorded`
+    );
+  }
+}
+
+/**
+ * Record a trip status change, if the status actually changed.
+ */
+export async function recordStatusChange(
+  ctx: SessionContext,
+  trip: TripRow,
+  newStatus: TripRow['status'],
+  onBehalfOfUserId: string | null = null
+): Promise<void> {
+  if (trip.status === newStatus) return;
+  await recordAuditEvent(ctx, {
+    tripId: trip.id,
+    action: 'trip.status_changed',
+    entityType: 'trip',
+    entityId: trip.id,
+    before: { status: trip.status },
+    after: { status: newStatus },
+    onBehalfOfUserId,
+  });
+}
+
+/** Trip columns recorded in the audit trail */
+const TRIP_AUDIT_FIELDS = [
+  'destination_city',
+  'destination_country',
+  'start_date',
+  'end_date',
+  'purpose',
+  'status',
+] as const;
+
+export function tripAuditSnapshot(trip: TripRow): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of TRIP_AUDIT_FIELDS) {
+    snapshot[field] = trip[field];
+  }
+  return snapshot;
+}
+
+/** User columns recorded in the audit trail */
+const USER_AUDIT_FIELDS = ['name', 'role', 'department', 'manager_id', 'deactivated_at'] as const;
+
+export function userAuditSnapshot(user: UserRow): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of USER_AUDIT_FIELDS) {
+    snapshot[field] = user[field];
+  }
+  return snapshot;
+}
+
+/**
+ * The fields that differ between two snapshots, as before and after values.
+ */
+export function diffAuditSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const field of Object.keys(after)) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changedBefore[field] = before[field];
+      changedAfter[field] = after[field];
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Violations as stored on a trip, for before/after values of a re-evaluation.
+ */
+export function violationsAuditSnapshot(violations: ViolationRow[]): Record<string, unknown> {
+  return {
+    count: violations.length,
+    violations: violations.map((v) => ({
+      code: v.code,
+      severity: v.severity,
+      trip_item_id: v.trip_item_id,
+      message: v.message,
+    })),
+  };
+}
+
+/**
+ * One-line description of an event for timelines.
+ */
+export function describeAuditEvent(event: AuditEventRow): string {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+
+  switch (event.action) {
+    case 'trip.created':
+      return `Trip created: ${after.destination_city}, ${after.start_date} to ${after.end_date}`;
+    case 'trip.updated':
+      return `Trip details changed: ${Object.keys(after).join(', ')}`;
+    case 'trip.status_changed':
+      return `Status changed from ${before.status} to ${after.status}`;
+    case 'trip_item.added':
+      return `${after.type} item added: ${after.description}`;
+    case 'trip_item.updated':
+      return `Item changed: ${Object.keys(after).join(', ')}`;
+    case 'trip_item.removed':
+      return `${before.type} item removed: ${before.description}`;
+    case 'receipt.attached':
+      return `Receipt attached: ${after.file_name}`;
+    case 'violations.evaluated':
+      return `Policy evaluated: ${after.count ?? 0} violation(s), previously ${before.count ?? 0}`;
+    case 'violations.cleared':
+      return `${before.count ?? 0} violation(s) cleared`;
+    case 'approval.recorded':
+      return `Decision '${after.decision}' at the ${after.stage ?? 'review'} stage`;
+    case 'delegation.created':
+      return `Review authority delegated from ${after.start_date} to ${after.end_date}`;
+    case 'delegation.revoked':
+      return 'Delegation revoked';
+    case 'separation_of_duties.updated':
+      return `Separation-of-duties rule '${after.rule}' ${after.enabled ? 'enabled' : 'disabled'}`;
+    case 'user.created':
+      return `User ${after.name} added as ${after.role} in ${after.department}`;
+    case 'user.updated':
+      return `User details changed: ${Object.keys(after).join(', ')}`;
+    case 'user.deactivated':
+      return 'User deactivated';
+    case 'policy.updated':
+      return `Travel policy version ${after.version} from ${after.effective_from} changes ${Object.keys(before).join(', ')}`;
+    case 'actual_expense.added':
+      return `Actual ${after.type} expense filed: ${after.description}`;
+    case 'actual_expense.removed':
+      return `Actual ${before.type} expense removed: ${before.description}`;
+    case 'expense_report.status_changed':
+      return `Expense report status changed from ${before.status ?? 'none'} to ${after.status}`;
+    case 'payment_batch.created':
+      return `Payment batch ${after.reference} created: ${after.payment_count} payment(s)`;
+    case 'payment_batch.exported':
+      return `Payment batch ${after.reference} exported`;
+    case 'payment_batch.paid':
+      return `Payment batch ${after.reference} marked paid`;
+    case 'accounting_export.created':
+      return `Accounting export ${after.reference} created: ${after.trip_count} trip(s)`;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Department Budgets
+ *
+ * Works out how much of a department's travel budget is committed in a
+ * fiscal period. A trip counts against the budget of its owner's
+ * department for the period its start date falls in, once it is pending
+ * review or approved; drafts, denied and cancelled trips do not count.
+ */
+
+import * as db from '../db/queries';
+import type { DepartmentBudgetRow, TripRow, TripStatus, UserRow } from '../types/domain';
+import { sumCents } from '../utils/money';
+
+const PENDING_STATUSES: TripStatus[] = ['pending_review'];
+const APPROVED_STATUSES: TripStatus[] = ['approved', 'approved_exception'];
+
+export interface DepartmentBudgetStatus {
+  budget: DepartmentBudgetRow;
+  approvedCents: number;
+  pendingCents: number;
+  tripCount: number;
+}
+
+/**
+ * A department's budget position as seen by one trip.
+ */
+export interface BudgetPosition {
+  budget: DepartmentBudgetRow;
+  /** Pending and approved spend from the department's other trips in the period */
+  committedCents: number;
+}
+
+/**
+ * Department names are matched case-insensitively everywhere a budget is
+ * looked up, so "engineering" and "Engineering" share one budget.
+ */
+function sameDepartment(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+async function committedTrips(
+  budget: DepartmentBudgetRow
+): Promise<Array<TripRow & { user: UserRow; totalCents: number }>> {
+  const trips = await db.getTripsInDateRange(budget.period_start, budget.period_end);
+  return trips
+    .filter(
+      (t) =>
+        sameDepartment(t.user.department, budget.department) &&
+        (PENDING_STATUSES.includes(t.status) || APPROVED_STATUSES.includes(t.status))
+    )
+    .map((t) => ({ ...t, totalCents: sumCents(t.items.map((i) => i.reporting_amount_cents)) }));
+}
+
+/**
+ * Approved and pending spend against every budget in effect on a date.
+ */
+export async function getDepartmentBudgetStatuses(
+  onDate: string,
+  department?: string
+): Promise<DepartmentBudgetStatus[]> {
+  const budgets = (await db.getDepartmentBudgets(onDate)).filter(
+    (b) => !department || sameDepartment(b.department, department)
+  );
+
+  const statuses: DepartmentBudgetStatus[] = [];
+  for (const budget of budgets) {
+    const trips = await committedTrips(budget);
+    statuses.push({
+      budget,
+      approvedCents: sumCents(
+        trips.filter((t) => APPROVED_STATUSES.includes(t.status)).map((t) => t.totalCents)
+      ),
+      pendingCents: sumCents(
+        trips.filter((t) => PENDING_STATUSES.includes(t.status)).map((t) => t.totalCents)
+      ),
+      tripCount: trips.length,
+    });
+  }
+
+  return statuses;
+}
+
+/**
+ * The budget a trip counts against, and what the rest of the department
+ * has committed in that period. Null when the department has no budget.
+ */
+export async function resolveBudgetPosition(
+  trip: TripRow,
+  owner: UserRow
+): Promise<BudgetPosition | null> {
+  const budget = (await db.getDepartmentBudgets(trip.start_date)).find(
+    (b) => sameDepartment(b.department, owner.department)
+  );
+  if (!budget) return null;
+
+  const others = (await committedTrips(budget)).filter((t) => t.id !== trip.id);
+  return { budget, committedCents: sumCents(others.map((t) => t.totalCents)) };
+}
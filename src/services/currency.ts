@@ -0,0 +1,67 @@
+/**
+ * Currency Conversion
+ *
+ * Resolves the exchange rate used to convert an item into the company
+ * reporting currency. Rates come from the exchange_rates table and are
+ * looked up for the date of the expense, falling back to the most recent
+ * earlier rate. The rate is locked in on the item when it is added, so
+ * later rate changes never alter an already recorded expense.
+ */
+
+import * as db from '../db/queries';
+import { getReportingCurrency } from '../utils/money';
+
+export interface FxConversion {
+  currency: string;
+  reportingCurrency: string;
+  rate: number;
+  rateDate: string | null;
+}
+
+/**
+ * Resolve the rate from `currency` to the reporting currency on a date.
+ * Uses the direct pair when available, otherwise the inverse pair.
+ * Returns null when no rate exists on or before the date.
+ */
+export async function resolveFxRate(
+  currency: string,
+  onDate: string
+): Promise<FxConversion | null> {
+  const reportingCurrency = getReportingCurrency();
+
+  if (currency === reportingCurrency) {
+    return { currency, reportingCurrency, rate: 1, rateDate: null };
+  }
+
+  const direct = await db.getExchangeRate(currency, reportingCurrency, onDate);
+  if (direct) {
+    return { currency, reportingCurrency, rate: Number(direct.rate), rateDate: direct.rate_date };
+  }
+
+  const inverse = await db.getExchangeRate(reportingCurrency, currency, onDate);
+  if (inverse) {
+    return {
+      currency,
+      reportingCurrency,
+      rate: 1 / Number(inverse.rate),
+      rateDate: inverse.rate_date,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * The date an expense is converted on: meta.date when the item has one,
+ * otherwise the trip start date.
+ */
+export function getItemExpenseDate(
+  meta: Record<string, unknown>,
+  tripStartDate: string
+): string {
+  const date = meta.date;
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return date;
+  }
+  return tripStartDate;
+}
@@ -0,0 +1,76 @@
+/**
+ * Expense Reports
+ *
+ * After an approved trip, the employee files what was actually spent. The
+ * report is reconciled against the approved estimate one item type at a
+ * time, in the reporting currency: the approved amount is the sum of the
+ * trip's items of that type, the actual amount the sum of the filed
+ * expenses of that type.
+ */
+
+import * as db from '../db/queries';
+import type { ActualExpenseRow, ExpenseReportRow, ItemType, TripItemRow } from '../types/domain';
+import { sumCents } from '../utils/money';
+
+const ITEM_TYPES: ItemType[] = ['flight', 'hotel', 'meal', 'transport'];
+
+export interface ReconciliationLine {
+  itemType: ItemType;
+  approvedCents: number;
+  actualCents: number;
+  /** Actual minus approved; positive when more was spent */
+  varianceCents: number;
+  /** Variance as a percentage of the approved amount; null when nothing was approved */
+  variancePercent: number | null;
+}
+
+/**
+ * A trip's expense report with the expenses filed against it.
+ */
+export interface ExpenseReportPosition {
+  report: ExpenseReportRow;
+  actuals: ActualExpenseRow[];
+}
+
+/**
+ * Approved vs actual spend per item type. Types with neither an approved
+ * item nor an actual expense are left out.
+ */
+export function reconcileExpenses(
+  items: TripItemRow[],
+  actuals: ActualExpenseRow[]
+): ReconciliationLine[] {
+  const lines: ReconciliationLine[] = [];
+
+  for (const itemType of ITEM_TYPES) {
+    const approved = items.filter((i) => i.type === itemType);
+    const actual = actuals.filter((a) => a.type === itemType);
+    if (approved.length === 0 && actual.length === 0) continue;
+
+    const approvedCents = sumCents(approved.map((i) => i.reporting_amount_cents));
+    const actualCents = sumCents(actual.map((a) => a.reporting_amount_cents));
+    const varianceCents = actualCents - approvedCents;
+
+    lines.push({
+      itemType,
+      approvedCents,
+      actualCents,
+      varianceCents,
+      variancePercent:
+        approvedCents > 0 ? Math.round((varianceCents / approvedCents) * 1000) / 10 : null,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * A trip's expense report and its expenses, or null if none was opened.
+ */
+export async function resolveExpenseReport(tripId: string): Promise<ExpenseReportPosition | null> {
+  const report = await db.getExpenseReportForTrip(tripId);
+  if (!report) return null;
+
+  const actuals = await db.getActualExpensesForTrip(tripId);
+  return { report, actuals };
+}
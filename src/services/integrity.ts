@@ -0,0 +1,165 @@
+/**
+ * Audit Integrity
+ *
+ * Walks the approval, review comment and audit event hash chains and
+ * reports every place
+ * the stored rows no longer match what was written: an edited row no longer
+ * matches its hash, and a removed or reordered row breaks the link of the
+ * row after it. Rows written before the chain was introduced are counted
+ * separately; one appearing after the chain started means a hash was
+ * stripped from a chained row.
+ */
+
+import * as db from '../db/queries';
+import {
+  computeChainHash,
+  APPROVAL_CHAIN_FIELDS,
+  AUDIT_EVENT_CHAIN_FIELDS,
+  REVIEW_COMMENT_CHAIN_FIELDS,
+} from '../db/hashChain';
+
+export type ChainName = 'approvals' | 'review_comments' | 'audit_events';
+
+export type IntegrityProblem =
+  | 'hash_mismatch'     // Row content changed after it was written
+  | 'broken_link'       // prev_hash does not match the row before it
+  | 'missing_records'   // Gap in chain positions: rows were removed
+  | 'unchained_record'; // Row without a hash created after the chain started
+
+export interface IntegrityBreak {
+  chain: ChainName;
+  recordId: string;
+  chainPosition: number | null;
+  problem: IntegrityProblem;
+  detail: string;
+}
+
+export interface ChainIntegrity {
+  chain: ChainName;
+  recordCount: number;
+  chainedCount: number;
+  /** Rows written before the chain was introduced */
+  unchainedCount: number;
+  /** Hash of the last row; record it externally to detect truncation later */
+  headHash: string | null;
+  breaks: IntegrityBreak[];
+}
+
+interface ChainedRow {
+  id: string;
+  created_at: string;
+  chain_position: number | null;
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+/**
+ * Verify rows ordered as returned by the repository chain queries.
+ */
+export function verifyChain(
+  chain: ChainName,
+  rows: ChainedRow[],
+  fields: readonly string[]
+): ChainIntegrity {
+  const breaks: IntegrityBreak[] = [];
+  const chained = rows.filter((r) => r.chain_position !== null);
+  const unchained = rows.filter((r) => r.chain_position === null);
+
+  // Rows without a hash are only expected from before the chain started
+  const chainStart = chained.length > 0 ? Date.parse(chained[0].created_at) : null;
+  for (const row of unchained) {
+    if (chainStart !== null && Date.parse(row.created_at) >= chainStart) {
+      breaks.push({
+        chain,
+        recordId: row.id,
+        chainPosition: null,
+        problem: 'unchained_record',
+        detail: `Row created at ${row.created_at} has no hash, but the chain started earlier`,
+      });
+    }
+  }
+
+  let previous: ChainedRow | null = null;
+  for (const row of chained) {
+    const position = row.chain_position as number;
+    const expectedPosition = (previous?.chain_position ?? 0) + 1;
+
+    if (position !== expectedPosition) {
+      breaks.push({
+        chain,
+        recordId: row.id,
+        chainPosition: position,
+        problem: 'missing_records',
+        detail: `Expected position ${expectedPosition} but found ${position}`,
+      });
+    } else if (row.prev_hash !== (previous?.hash ?? null)) {
+      breaks.push({
+        chain,
+        recordId: row.id,
+        chainPosition: position,
+        problem: 'broken_link',
+        detail: 'prev_hash does not match the hash of the previous row',
+      });
+    }
+
+    const expectedHash = computeChainHash(
+      row as unknown as Record<string, unknown>,
+      fields,
+      position,
+      row.prev_hash
+    );
+    if (row.hash !== expectedHash) {
+      breaks.push({
+        chain,
+        recordId: row.id,
+        chainPosition: position,
+        problem: 'hash_mismatch',
+        detail: 'Row content does not match its hash; it was changed after it was written',
+      });
+    }
+
+    previous = row;
+  }
+
+  return {
+    chain,
+    recordCount: rows.length,
+    chainedCount: chained.length,
+    unchainedCount: unchained.length,
+    headHash: previous?.hash ?? null,
+    breaks,
+  };
+}
+
+/**
+ * Verify the approval, review comment and audit event chains.
+ */
+export async function verifyAuditChains(): Promise<{
+  approvals: ChainIntegrity;
+  reviewComments: ChainIntegrity;
+  auditEvents: ChainIntegrity;
+  exceptionApprovals: { total: number; verified: number };
+}> {
+  const approvalRows = await db.getApprovalChain();
+  const approvals = verifyChain('approvals', approvalRows, APPROVAL_CHAIN_FIELDS);
+  const reviewComments = verifyChain(
+    'review_comments',
+    await db.getReviewCommentChain(),
+    REVIEW_COMMENT_CHAIN_FIELDS
+  );
+  const auditEvents = verifyChain('audit_events', await db.getAuditEventChain(), AUDIT_EVENT_CHAIN_FIELDS);
+
+  // Exception approvals are verified when chained and not involved in any break
+  const brokenIds = new Set(approvals.breaks.map((b) => b.recordId));
+  const exceptions = approvalRows.filter((a) => a.decision === 'approved_exception');
+
+  return {
+    approvals,
+    reviewComments,
+    auditEvents,
+    exceptionApprovals: {
+      total: exceptions.length,
+      verified: exceptions.filter((a) => a.chain_position !== null && !brokenIds.has(a.id)).length,
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Destination Per-Diem Rates
+ *
+ * Resolves the hotel and meal caps that apply to a trip's destination.
+ * A city rate wins over a country-wide rate, which wins over the flat
+ * caps on the active travel policy. Rates are looked up for the trip
+ * start date, and a rate that leaves one cap empty falls back to the
+ * next level for that cap only. A cap set by a policy override for the
+ * trip owner is more specific than any destination rate and always wins.
+ */
+
+import * as db from '../db/queries';
+import type { PerDiemRateRow, TripRow } from '../types/domain';
+import type { ResolvedPolicy } from './policyOverrides';
+
+export interface ResolvedCap {
+  capCents: number;
+  /** Human-readable description of where the cap came from */
+  source: string;
+}
+
+export interface ResolvedPerDiem {
+  hotelNightly: ResolvedCap;
+  mealDaily: ResolvedCap;
+}
+
+const FLAT_POLICY_SOURCE = 'flat policy cap';
+
+function describeRate(rate: PerDiemRateRow): string {
+  return rate.city
+    ? `per-diem rate for ${rate.city}, ${rate.country}`
+    : `per-diem rate for ${rate.country}`;
+}
+
+function pickCap(
+  candidates: PerDiemRateRow[],
+  field: 'hotel_nightly_cap_cents' | 'meal_daily_cap_cents',
+  flatCapCents: number
+): ResolvedCap {
+  for (const rate of candidates) {
+    const value = rate[field];
+    if (value !== null && value !== undefined) {
+      return { capCents: value, source: describeRate(rate) };
+    }
+  }
+  return { capCents: flatCapCents, source: FLAT_POLICY_SOURCE };
+}
+
+/**
+ * Resolve the per-diem caps for a trip's destination.
+ */
+export async function resolvePerDiem(
+  trip: TripRow,
+  resolved: ResolvedPolicy
+): Promise<ResolvedPerDiem> {
+  const { policy, fieldSources } = resolved;
+  const rates = await db.getPerDiemRates(trip.start_date);
+  const city = trip.destination_city.trim().toLowerCase();
+  const country = trip.destination_country;
+
+  const cityMatch = rates.find(
+    (r) =>
+      r.city !== null &&
+      r.city.toLowerCase() === city &&
+      (country === null || r.country === country)
+  );
+  const countryCode = country ?? cityMatch?.country ?? null;
+  const countryMatch = countryCode
+    ? rates.find((r) => r.city === null && r.country === countryCode)
+    : undefined;
+
+  const candidates = [cityMatch, countryMatch].filter(
+    (r): r is PerDiemRateRow => r !== undefined
+  );
+
+  const hotelOverride = fieldSources.hotel_nightly_cap_cents;
+  const mealOverride = fieldSources.meal_daily_cap_cents;
+
+  return {
+    hotelNightly: hotelOverride
+      ? { capCents: policy.hotel_nightly_cap_cents, source: hotelOverride }
+      : pickCap(candidates, 'hotel_nightly_cap_cents', policy.hotel_nightly_cap_cents),
+    mealDaily: mealOverride
+      ? { capCents: policy.meal_daily_cap_cents, source: mealOverride }
+      : pickCap(candidates, 'meal_daily_cap_cents', policy.meal_daily_cap_cents),
+  };
+}
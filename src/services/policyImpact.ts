@@ -0,0 +1,90 @@
+/**
+ * Policy Change Impact
+ *
+ * Estimates what a travel policy change would do before an admin applies
+ * it: every trip waiting for review is evaluated under the current policy
+ * and under the proposed values, and the violations that would appear or
+ * disappear are reported per trip. Nothing is written.
+ */
+
+import * as db from '../db/queries';
+import { previewTripPolicy } from '../policy/engine';
+import type { ViolationDraft } from '../policy/types';
+import type { TravelPolicyRow, ViolationCode, ViolationSeverity } from '../types/domain';
+
+export interface ImpactViolation {
+  code: ViolationCode;
+  severity: ViolationSeverity;
+  tripItemId: string | null;
+  message: string;
+}
+
+export interface TripPolicyImpact {
+  tripId: string;
+  employeeName: string;
+  destinationCity: string;
+  gained: ImpactViolation[];
+  lost: ImpactViolation[];
+}
+
+export interface PolicyImpact {
+  pendingTrips: number;
+  tripsGainingViolations: number;
+  tripsLosingViolations: number;
+  /** Only trips whose violations would change */
+  trips: TripPolicyImpact[];
+}
+
+function draftKey(draft: ViolationDraft): string {
+  return `${draft.code}:${draft.tripItemId ?? 'trip'}`;
+}
+
+function toImpactViolation(draft: ViolationDraft): ImpactViolation {
+  return {
+    code: draft.code,
+    severity: draft.severity,
+    tripItemId: draft.tripItemId,
+    message: draft.message,
+  };
+}
+
+/**
+ * Compare pending trips under the current policy and a proposed version.
+ * The proposed row should keep the current row's id so the same department,
+ * role and user overrides are layered on both.
+ */
+export async function estimatePolicyImpact(
+  current: TravelPolicyRow,
+  proposed: TravelPolicyRow
+): Promise<PolicyImpact> {
+  const pending = await db.getPendingTrips();
+  const trips: TripPolicyImpact[] = [];
+
+  for (const trip of pending) {
+    const before = await previewTripPolicy(trip, current);
+    const after = await previewTripPolicy(trip, proposed);
+    if (!before || !after) continue;
+
+    const beforeKeys = new Set(before.drafts.map(draftKey));
+    const afterKeys = new Set(after.drafts.map(draftKey));
+    const gained = after.drafts.filter((d) => !beforeKeys.has(draftKey(d)));
+    const lost = before.drafts.filter((d) => !afterKeys.has(draftKey(d)));
+
+    if (gained.length > 0 || lost.length > 0) {
+      trips.push({
+        tripId: trip.id,
+        employeeName: trip.user.name,
+        destinationCity: trip.destination_city,
+        gained: gained.map(toImpactViolation),
+        lost: lost.map(toImpactViolation),
+      });
+    }
+  }
+
+  return {
+    pendingTrips: pending.length,
+    tripsGainingViolations: trips.filter((t) => t.gained.length > 0).length,
+    tripsLosingViolations: trips.filter((t) => t.lost.length > 0).length,
+    trips,
+  };
+}
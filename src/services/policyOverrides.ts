@@ -0,0 +1,131 @@
+/**
+ * Policy Overrides
+ *
+ * Layers department, role and user overrides on top of a policy version to
+ * produce the policy that applies to one employee. Precedence is
+ * user > role > department > base policy, resolved field by field: an
+ * override only replaces the fields it sets, and a more specific override
+ * wins for any field both set.
+ */
+
+import * as db from '../db/queries';
+import type {
+  PolicyOverrideRow,
+  PolicyOverrideScope,
+  TravelPolicyRow,
+  TripRow,
+  UserRow,
+} from '../types/domain';
+
+export const OVERRIDABLE_FIELDS = [
+  'economy_only',
+  'hotel_nightly_cap_cents',
+  'meal_daily_cap_cents',
+  'preapproval_over_cents',
+  'receipt_required_over_cents',
+  'business_class_min_flight_hours',
+] as const;
+
+export type OverridableField = (typeof OVERRIDABLE_FIELDS)[number];
+
+/** Least specific first, so later scopes overwrite earlier ones */
+const SCOPE_PRECEDENCE: PolicyOverrideScope[] = ['department', 'role', 'user'];
+
+export interface AppliedOverride {
+  override: PolicyOverrideRow;
+  label: string;
+  /** Fields this override decided after precedence was applied */
+  fields: OverridableField[];
+}
+
+export interface ResolvedPolicy {
+  /** Base policy with the winning override values merged in */
+  policy: TravelPolicyRow;
+  appliedOverrides: AppliedOverride[];
+  /** Label of the override that set each overridden field */
+  fieldSources: Partial<Record<OverridableField, string>>;
+}
+
+function matchesUser(override: PolicyOverrideRow, user: UserRow): boolean {
+  switch (override.scope_type) {
+    case 'department':
+      return override.scope_value.toLowerCase() === user.department.toLowerCase();
+    case 'role':
+      return override.scope_value === user.role;
+    case 'user':
+      return override.scope_value === user.id;
+    default:
+      return false;
+  }
+}
+
+function describeOverride(override: PolicyOverrideRow, user: UserRow): string {
+  switch (override.scope_type) {
+    case 'department':
+      return `${override.scope_value} department override`;
+    case 'role':
+      return `${override.scope_value} role override`;
+    case 'user':
+      return `individual override for ${user.name}`;
+    default:
+      return 'policy override';
+  }
+}
+
+/**
+ * Resolve the effective policy for a user from a base policy version.
+ */
+export async function resolvePolicyForUser(
+  basePolicy: TravelPolicyRow,
+  user: UserRow
+): Promise<ResolvedPolicy> {
+  const overrides = (await db.getPolicyOverrides(basePolicy.id)).filter((o) =>
+    matchesUser(o, user)
+  );
+
+  const policy: TravelPolicyRow = { ...basePolicy };
+  const winners = new Map<OverridableField, PolicyOverrideRow>();
+
+  for (const scope of SCOPE_PRECEDENCE) {
+    for (const override of overrides.filter((o) => o.scope_type === scope)) {
+      for (const field of OVERRIDABLE_FIELDS) {
+        const value = override[field];
+        if (value === null || value === undefined) continue;
+        (policy as unknown as Record<OverridableField, unknown>)[field] = value;
+        winners.set(field, override);
+      }
+    }
+  }
+
+  const appliedOverrides: AppliedOverride[] = [];
+  const fieldSources: Partial<Record<OverridableField, string>> = {};
+
+  for (const override of overrides) {
+    const fields = OVERRIDABLE_FIELDS.filter((f) => winners.get(f) === override);
+    if (fields.length === 0) continue;
+
+    const label = describeOverride(override, user);
+    appliedOverrides.push({ override, label, fields });
+    for (const field of fields) {
+      fieldSources[field] = label;
+    }
+  }
+
+  return { policy, appliedOverrides, fieldSources };
+}
+
+/**
+ * Resolve the policy a trip is judged by: the version it was submitted
+ * under (or today's for drafts) with the trip owner's overrides applied.
+ */
+export async function resolvePolicyForTrip(trip: TripRow): Promise<ResolvedPolicy | null> {
+  const basePolicy = await db.getPolicyForTrip(trip);
+  if (!basePolicy) return null;
+
+  const owner = await db.getUserById(trip.user_id);
+  if (!owner) {
+    return { policy: basePolicy, appliedOverrides: [], fieldSources: {} };
+  }
+
+  return resolvePolicyForUser(basePolicy, owner);
+}
@@ -0,0 +1,160 @@
+/**
+ * Reimbursements
+ *
+ * Once a trip is approved, finance pays the employee back for what they
+ * paid out of pocket. Until the expense report is accepted, the
+ * reimbursable amount is the approved trip items; once it is reconciled or
+ * its overrun approved, the actual expenses filed. Items and expenses
+ * billed directly to the company are never reimbursed.
+ *
+ * Payments are grouped into batches that finance exports for the bank and
+ * then marks paid. Only payments in paid batches count as paid; those in
+ * draft or exported batches are scheduled.
+ */
+
+import * as db from '../db/queries';
+import type {
+  ActualExpenseRow,
+  ExpenseReportRow,
+  PaymentBatchRow,
+  ReimbursementPaymentRow,
+  ReimbursementStatus,
+  TripItemRow,
+  TripRow,
+  UserRow,
+} from '../types/domain';
+import { sumCents } from '../utils/money';
+
+/** Expense report statuses whose actual expenses replace the approved items */
+const SETTLED_REPORT_STATUSES: ExpenseReportRow['status'][] = ['reconciled', 'approved'];
+
+export interface ReimbursementPosition {
+  trip: TripRow;
+  user: UserRow;
+  /** What the amount owed is based on */
+  basis: 'approved_items' | 'actual_expenses';
+  reimbursableCents: number;
+  paidCents: number;
+  /** In draft or exported batches */
+  scheduledCents: number;
+  /** Owed and not yet in a batch */
+  outstandingCents: number;
+  status: ReimbursementStatus;
+}
+
+/**
+ * Whether a trip's actual expenses replace its approved items.
+ */
+export function isReportSettled(report: ExpenseReportRow | null): boolean {
+  return report !== null && SETTLED_REPORT_STATUSES.includes(report.status);
+}
+
+/**
+ * The amount owed to the employee for a trip, in the reporting currency.
+ */
+export function reimbursableAmount(
+  items: TripItemRow[],
+  report: ExpenseReportRow | null,
+  actuals: ActualExpenseRow[]
+): { basis: ReimbursementPosition['basis']; cents: number } {
+  if (isReportSettled(report)) {
+    return {
+      basis: 'actual_expenses',
+      cents: sumCents(actuals.filter((a) => !a.company_paid).map((a) => a.reporting_amount_cents)),
+    };
+  }
+  return {
+    basis: 'approved_items',
+    cents: sumCents(items.filter((i) => !i.company_paid).map((i) => i.reporting_amount_cents)),
+  };
+}
+
+/**
+ * Paid and scheduled totals for a trip, and where that leaves it.
+ * A trip with nothing to reimburse counts as paid.
+ */
+function buildPosition(
+  trip: TripRow,
+  user: UserRow,
+  owed: { basis: ReimbursementPosition['basis']; cents: number },
+  payments: ReimbursementPaymentRow[],
+  batches: Map<string, PaymentBatchRow>
+): ReimbursementPosition {
+  const isPaid = (p: ReimbursementPaymentRow) => batches.get(p.batch_id)?.status === 'paid';
+  const paidCents = sumCents(payments.filter(isPaid).map((p) => p.amount_cents));
+  const scheduledCents = sumCents(payments.filter((p) => !isPaid(p)).map((p) => p.amount_cents));
+
+  let status: ReimbursementStatus = 'unpaid';
+  if (paidCents >= owed.cents) status = 'paid';
+  else if (paidCents > 0) status = 'partially_paid';
+
+  return {
+    trip,
+    user,
+    basis: owed.basis,
+    reimbursableCents: owed.cents,
+    paidCents,
+    scheduledCents,
+    outstandingCents: Math.max(0, owed.cents - paidCents - scheduledCents),
+    status,
+  };
+}
+
+async function owedForTrip(
+  tripId: string,
+  items: TripItemRow[]
+): Promise<{ basis: ReimbursementPosition['basis']; cents: number }> {
+  const report = await db.getExpenseReportForTrip(tripId);
+  const actuals = report ? await db.getActualExpensesForTrip(tripId) : [];
+  return reimbursableAmount(items, report, actuals);
+}
+
+/**
+ * Reimbursement position of every approved trip, newest first.
+ */
+export async function listReimbursements(): Promise<ReimbursementPosition[]> {
+  const trips = await db.getApprovedTrips();
+  const payments = await db.getReimbursementPayments();
+  const batches = new Map((await db.getPaymentBatches()).map((b) => [b.id, b]));
+
+  const positions: ReimbursementPosition[] = [];
+  for (const { user, items, ...trip } of trips) {
+    const owed = await owedForTrip(trip.id, items);
+    positions.push(
+      buildPosition(trip, user, owed, payments.filter((p) => p.trip_id === trip.id), batches)
+    );
+  }
+
+  return positions;
+}
+
+/**
+ * Reimbursement position of one trip, or null unless it is approved.
+ */
+export async function resolveReimbursement(
+  trip: TripRow,
+  user: UserRow
+): Promise<ReimbursementPosition | null> {
+  if (trip.status !== 'approved' && trip.status !== 'approved_exception') return null;
+
+  const items = await db.getTripItems(trip.id);
+  const owed = await owedForTrip(trip.id, items);
+  const payments = await db.getReimbursementPaymentsForTrip(trip.id);
+
+  const batches = new Map<string, PaymentBatchRow>();
+  for (const batchId of new Set(payments.map((p) => p.batch_id))) {
+    const batch = await db.getPaymentBatchById(batchId);
+    if (batch) batches.set(batch.id, batch);
+  }
+
+  return buildPosition(trip, user, owed, payments, batches);
+}
+
+/**
+ * Next free batch reference for a day, e.g. PB-20261019-03.
+ */
+export function nextBatchReference(existing: PaymentBatchRow[], onDate: string): string {
+  const prefix = `PB-${onDate.replace(/-/g, '')}-`;
+  const taken = existing.filter((b) => b.reference.startsWith(prefix)).length;
+  return `${prefix}${String(taken + 1).padStart(2, '0')}`;
+}
@@ -0,0 +1,130 @@
+/**
+ * Separation of Duties
+ *
+ * Conflict-of-interest rules applied on top of the approval chain. Nobody
+ * can decide on their own trip (enforced in canReviewTrip); the optional
+ * rules below are switched on and off by admins through the
+ * separation_of_duties_rules table, falling back to their defaults when a
+ * rule has no row.
+ */
+
+import * as db from '../db/queries';
+import type {
+  ApprovalRow,
+  ApprovalStageRow,
+  SeparationOfDutiesConfigRow,
+  SeparationOfDutiesRule,
+  SessionContext,
+  StructuredError,
+  UserRow,
+} from '../types/domain';
+
+/** Always enforced and not configurable; checked in canReviewTrip */
+export const SELF_APPROVAL_DESCRIPTION = 'Nobody can decide on their own trip';
+
+export interface ReviewerConflictInput {
+  ctx: SessionContext;
+  /** The reviewer's own user record (for their manager) */
+  reviewer: UserRow | null;
+  owner: UserRow | null;
+  stage: ApprovalStageRow;
+  /** Decisions made since the trip's latest submission */
+  roundApprovals: ApprovalRow[];
+}
+
+export interface SeparationOfDutiesRuleDefinition {
+  rule: SeparationOfDutiesRule;
+  description: string;
+  defaultEnabled: boolean;
+  /** Explanation of the conflict, or null if the reviewer is not conflicted */
+  findConflict(input: ReviewerConflictInput): string | null;
+}
+
+export const SEPARATION_OF_DUTIES_RULES: SeparationOfDutiesRuleDefinition[] = [
+  {
+    rule: 'reports_to_owner',
+    description: 'Reviewers cannot decide on trips belonging to their own line manager',
+    defaultEnabled: true,
+    findConflict: ({ reviewer, owner }) =>
+      owner && reviewer?.manager_id === owner.id
+        ? `You report to ${owner.name}, so you cannot review their trip`
+        : null,
+  },
+  {
+    rule: 'same_department',
+    description: 'Finance and executive reviewers cannot decide on trips from their own department',
+    defaultEnabled: false,
+    findConflict: ({ ctx, owner, stage }) =>
+      // The line manager stage is departmental by nature
+      stage.approver_type === 'role' &&
+      owner &&
+      ctx.department.toLowerCase() === owner.department.toLowerCase()
+        ? `You are in ${owner.department}, the same department as ${owner.name}`
+        : null,
+  },
+  {
+    rule: 'distinct_stage_approvers',
+    description: 'One person can sign off at most one approval stage of a trip',
+    defaultEnabled: true,
+    findConflict: ({ ctx, stage, roundApprovals }) => {
+      const earlier = roundApprovals.find(
+        (a) =>
+          a.reviewer_user_id === ctx.userId &&
+          a.stage !== stage.key &&
+          (a.decision === 'approved' || a.decision === 'approved_exception')
+      );
+      return earlier
+        ? `You already signed off the '${earlier.stage}' stage of this trip`
+        : null;
+    },
+  },
+];
+
+export interface ResolvedSeparationOfDutiesRule {
+  definition: SeparationOfDutiesRuleDefinition;
+  enabled: boolean;
+  /** Stored row, or null while the rule is still at its default */
+  config: SeparationOfDutiesConfigRow | null;
+}
+
+/**
+ * Every optional rule with its current setting.
+ */
+export async function loadSeparationOfDutiesRules(): Promise<ResolvedSeparationOfDutiesRule[]> {
+  const configs = await db.getSeparationOfDutiesConfig();
+
+  return SEPARATION_OF_DUTIES_RULES.map((definition) => {
+    const config = configs.find((c) => c.rule === definition.rule) ?? null;
+    return {
+      definition,
+      enabled: config ? config.enabled : definition.defaultEnabled,
+      config,
+    };
+  });
+}
+
+/**
+ * Check a reviewer against the enabled rules for the stage they would sign.
+ */
+export function checkSeparationOfDuties(
+  rules: ResolvedSeparationOfDutiesRule[],
+  input: ReviewerConflictInput
+): { allowed: boolean; error?: StructuredError } {
+  for (const { definition, enabled } of rules) {
+    if (!enabled) continue;
+
+    const conflict = definition.findConflict(input);
+    if (conflict) {
+      return {
+        allowed: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `${conflict}. ${definition.description}.`,
+          hint: `Separation of duties rule '${definition.rule}'; another reviewer must decide at the '${input.stage.name}' stage`,
+        },
+      };
+    }
+  }
+
+  return { allowed: true };
+}
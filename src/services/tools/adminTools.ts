@@ -0,0 +1,851 @@
+/**
+ * Admin Tools
+ *
+ * Tools for admins only: users, the travel policy, separation-of-duties
+ * rules and audit integrity.
+ */
+
+import 'reflect-metadata';
+import { DaemoFunction } from 'daemo-engine';
+import { z } from 'zod';
+
+// Types
+import type { TravelPolicyRow, UserRole } from '../../types/domain';
+import {
+  SeparationOfDutiesRulesResult,
+  UpdateSeparationOfDutiesRuleResult,
+  VerifyAuditIntegrityResult,
+  ListUsersResult,
+  CreateUserResult,
+  UpdateUserResult,
+  DeactivateUserResult,
+  TravelPolicyResult,
+  UpdateTravelPolicyResult,
+} from '../../types/dto';
+
+// Utilities
+import { getSessionContext } from '../../utils/context';
+import {
+  canManageSeparationOfDuties,
+  canVerifyAuditIntegrity,
+  canManageUsers,
+  canManageTravelPolicy,
+} from '../../utils/rbac';
+import {
+  validateArgs,
+  updateSeparationOfDutiesRuleArgsSchema,
+  listUsersArgsSchema,
+  createUserArgsSchema,
+  updateUserArgsSchema,
+  deactivateUserArgsSchema,
+  updateTravelPolicyArgsSchema,
+  TRAVEL_POLICY_BOUNDS,
+} from '../../utils/validation';
+import { loadSeparationOfDutiesRules, SELF_APPROVAL_DESCRIPTION } from '../separationOfDuties';
+import { recordAuditEvent, userAuditSnapshot, diffAuditSnapshots } from '../audit';
+import { checkManagerAssignment, getDirectReports } from '../users';
+import { verifyAuditChains } from '../integrity';
+import { estimatePolicyImpact } from '../policyImpact';
+
+// Database
+import * as db from '../../db/queries';
+
+// Shared by the tool sets
+import {
+  chainIntegrityToDTO,
+  separationOfDutiesRuleToDTO,
+  userRowToDTO,
+  policyRowToDTO,
+  diffPolicies,
+  POLICY_FIELD_NAMES,
+} from './mappers';
+
+export class AdminTools {
+  @DaemoFunction({
+    description:
+      'List the separation-of-duties rules that stop conflicted reviewers from deciding on a trip, ' +
+      'and whether each is enforced. Self-approval is always blocked. Only admins can view these rules.',
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      success: z.boolean(),
+      rules: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getSeparationOfDutiesRules(): Promise<SeparationOfDutiesRulesResult> {
+    try {
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageSeparationOfDuties(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const rules = await loadSeparationOfDutiesRules();
+
+      return {
+        success: true,
+        rules: [
+          {
+            rule: 'self_approval',
+            description: SELF_APPROVAL_DESCRIPTION,
+            enabled: true,
+            configurable: false,
+            updatedByUserId: null,
+            updatedAt: null,
+          },
+          ...rules.map(separationOfDutiesRuleToDTO),
+        ],
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error listing separation-of-duties rules',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Switch a separation-of-duties rule on or off. Rules: "reports_to_owner" (reviewers cannot decide ' +
+      'on their own manager\'s trips), "same_department" (finance and executive reviewers cannot decide on ' +
+      'trips from their own department), "distinct_stage_approvers" (one person signs off at most one ' +
+      'stage of a trip). Self-approval cannot be allowed. Only admins can change these rules.',
+    inputSchema: z.object({
+      rule: z
+        .enum(['reports_to_owner', 'same_department', 'distinct_stage_approvers'])
+        .describe('Rule to change'),
+      enabled: z.boolean().describe('Whether the rule should be enforced'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      rule: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async updateSeparationOfDutiesRule(args: {
+    rule: 'reports_to_owner' | 'same_department' | 'distinct_stage_approvers';
+    enabled: boolean;
+  }): Promise<UpdateSeparationOfDutiesRuleResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(updateSeparationOfDutiesRuleArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageSeparationOfDuties(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const previous = (await loadSeparationOfDutiesRules()).find(
+        (r) => r.definition.rule === validation.data.rule
+      );
+      const saved = await db.setSeparationOfDutiesRule({
+        rule: validation.data.rule,
+        enabled: validation.data.enabled,
+        updatedByUserId: ctx.userId,
+      });
+      if (!saved) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to update separation-of-duties rule',
+          },
+        };
+      }
+
+      const rules = await loadSeparationOfDutiesRules();
+      const updated = rules.find((r) => r.definition.rule === saved.rule);
+
+      await recordAuditEvent(ctx, {
+        action: 'separation_of_duties.updated',
+        entityType: 'separation_of_duties_rule',
+        entityId: saved.id,
+        before: { rule: saved.rule, enabled: previous?.enabled ?? null },
+        after: { rule: saved.rule, enabled: saved.enabled },
+      });
+
+      return {
+        success: true,
+        rule: updated ? separationOfDutiesRuleToDTO(updated) : undefined,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error updating separation-of-duties rule',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Verify that approvals, review comments and audit events have not been edited or removed since ' +
+      'they were written. Walks each hash chain and reports every break, and how many exception ' +
+      'approvals verified. Only admins can run this.',
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      success: z.boolean(),
+      intact: z.boolean().optional(),
+      chains: z.array(z.any()).optional(),
+      exceptionApprovals: z.any().optional(),
+      verifiedAt: z.string().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async verifyAuditIntegrity(): Promise<VerifyAuditIntegrityResult> {
+    try {
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canVerifyAuditIntegrity(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const result = await verifyAuditChains();
+      const chains = [result.approvals, result.reviewComments, result.auditEvents].map(chainIntegrityToDTO);
+
+      return {
+        success: true,
+        intact: chains.every((c) => c.intact),
+        chains,
+        exceptionApprovals: result.exceptionApprovals,
+        verifiedAt: new Date().toISOString(),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error verifying audit integrity',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'List users with their role, department and line manager. Deactivated users are left out ' +
+      'unless includeDeactivated is true. Only admins can list users.',
+    inputSchema: z.object({
+      department: z.string().optional().describe('Only users in this department'),
+      role: z.enum(['employee', 'finance_manager', 'admin']).optional().describe('Only users with this role'),
+      includeDeactivated: z.boolean().optional().describe('Also list deactivated users (default false)'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      users: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async listUsers(args?: {
+    department?: string;
+    role?: UserRole;
+    includeDeactivated?: boolean;
+  }): Promise<ListUsersResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(listUsersArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageUsers(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const users = await db.listUsers(validation.data);
+
+      return {
+        success: true,
+        users: users.map(userRowToDTO),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error listing users',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Add a user. Pass managerId to set their line manager, who reviews their trips at the line ' +
+      'manager stage. Only admins can add users.',
+    inputSchema: z.object({
+      name: z.string().describe('Full name'),
+      role: z.enum(['employee', 'finance_manager', 'admin']).describe('Role, which decides what the user can do'),
+      department: z.string().describe('Department'),
+      managerId: z.string().optional().describe('Line manager user ID'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      user: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async createUser(args: {
+    name: string;
+    role: UserRole;
+    department: string;
+    managerId?: string;
+  }): Promise<CreateUserResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(createUserArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageUsers(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      if (validation.data.managerId) {
+        const managerError = await checkManagerAssignment(null, validation.data.managerId);
+        if (managerError) {
+          return { success: false, error: managerError };
+        }
+      }
+
+      const user = await db.createUser(validation.data);
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to create user',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        action: 'user.created',
+        entityType: 'user',
+        entityId: user.id,
+        after: userAuditSnapshot(user),
+      });
+
+      return {
+        success: true,
+        user: userRowToDTO(user),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error creating user',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Change a user\'s name, role, department or line manager. Only pass the fields to change; ' +
+      'pass managerId: null to remove the line manager. Role changes take effect on the user\'s next ' +
+      'request. Admins cannot change their own role. Only admins can change users.',
+    inputSchema: z.object({
+      userId: z.string().describe('The user to change'),
+      name: z.string().optional().describe('New full name'),
+      role: z.enum(['employee', 'finance_manager', 'admin']).optional().describe('New role'),
+      department: z.string().optional().describe('New department'),
+      managerId: z.string().nullable().optional().describe('New line manager user ID, or null for none'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      user: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async updateUser(args: {
+    userId: string;
+    name?: string;
+    role?: UserRole;
+    department?: string;
+    managerId?: string | null;
+  }): Promise<UpdateUserResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(updateUserArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageUsers(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const { userId, ...changes } = validation.data;
+      const user = await db.getUserById(userId);
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `User ${userId} not found`,
+          },
+        };
+      }
+
+      if (user.deactivated_at) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `${user.name} has been deactivated`,
+            hint: 'Deactivated users keep their details as they were when they left',
+          },
+        };
+      }
+
+      // Keep at least one admin able to manage users
+      if (userId === ctx.userId && changes.role !== undefined && changes.role !== user.role) {
+        return {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You cannot change your own role',
+            hint: 'Ask another admin to change it',
+          },
+        };
+      }
+
+      if (changes.managerId) {
+        const managerError = await checkManagerAssignment(userId, changes.managerId);
+        if (managerError) {
+          return { success: false, error: managerError };
+        }
+      }
+
+      const updated = await db.updateUser(userId, {
+        name: changes.name ?? user.name,
+        role: changes.role ?? user.role,
+        department: changes.department ?? user.department,
+        managerId: changes.managerId !== undefined ? changes.managerId : user.manager_id,
+      });
+      if (!updated) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to update user',
+          },
+        };
+      }
+
+      const diff = diffAuditSnapshots(userAuditSnapshot(user), userAuditSnapshot(updated));
+      if (Object.keys(diff.after).length > 0) {
+        await recordAuditEvent(ctx, {
+          action: 'user.updated',
+          entityType: 'user',
+          entityId: userId,
+          ...diff,
+        });
+      }
+
+      return {
+        success: true,
+        user: userRowToDTO(updated),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error updating user',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Deactivate a user who has left. They can no longer use any tool, but their trips, approvals ' +
+      'and history are kept. Anyone reporting to them must be moved to another line manager first ' +
+      '(updateUser). Admins cannot deactivate themselves. Only admins can deactivate users.',
+    inputSchema: z.object({
+      userId: z.string().describe('The user to deactivate'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      user: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async deactivateUser(args: { userId: string }): Promise<DeactivateUserResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(deactivateUserArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageUsers(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const user = await db.getUserById(validation.data.userId);
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `User ${validation.data.userId} not found`,
+          },
+        };
+      }
+
+      if (user.id === ctx.userId) {
+        return {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You cannot deactivate your own account',
+            hint: 'Ask another admin to deactivate it',
+          },
+        };
+      }
+
+      if (user.deactivated_at) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `${user.name} is already deactivated`,
+          },
+        };
+      }
+
+      // Their reports' trips would have nobody at the line manager stage
+      const reports = await getDirectReports(user.id);
+      if (reports.length > 0) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `${user.name} is still the line manager of ${reports.map((r) => r.name).join(', ')}`,
+            hint: 'Move them to another line manager with updateUser, then deactivate',
+          },
+        };
+      }
+
+      const deactivated = await db.deactivateUser(user.id);
+      const updated = deactivated ? await db.getUserById(user.id) : null;
+      if (!updated) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to deactivate user',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        action: 'user.deactivated',
+        entityType: 'user',
+        entityId: user.id,
+        before: { deactivated_at: null },
+        after: { deactivated_at: updated.deactivated_at },
+      });
+
+      return {
+        success: true,
+        user: userRowToDTO(updated),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error deactivating user',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Show the travel policy in effect today, any later version already scheduled, and the allowed ' +
+      'range of each value. Only admins can view and change the travel policy.',
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      success: z.boolean(),
+      policy: z.any().optional(),
+      scheduled: z.any().optional(),
+      bounds: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getTravelPolicy(): Promise<TravelPolicyResult> {
+    try {
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageTravelPolicy(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const current = await db.getActivePolicy();
+      if (!current) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'No travel policy is in effect',
+          },
+        };
+      }
+
+      const versions = await db.getPolicyVersions();
+      const latest = versions[versions.length - 1];
+
+      return {
+        success: true,
+        policy: policyRowToDTO(current),
+        scheduled: latest && latest.id !== current.id ? policyRowToDTO(latest) : null,
+        bounds: TRAVEL_POLICY_BOUNDS,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error loading travel policy',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Change travel policy values by publishing a new policy version. Only pass the values to change. ' +
+      'Without confirm: true this is a preview: it returns the changes and how many pending trips would ' +
+      'gain or lose violations under the new values, and saves nothing. Show the preview to the admin and ' +
+      'only call again with confirm: true and a changeNote once they agree. Only admins can change the policy.',
+    inputSchema: z.object({
+      economyOnly: z.boolean().optional().describe('Only allow economy class flights'),
+      hotelNightlyCapCents: z.number().optional().describe('Maximum nightly hotel rate in cents'),
+      mealDailyCapCents: z.number().optional().describe('Maximum daily meal spending in cents'),
+      preapprovalOverCents: z.number().optional().describe('Trip total above which preapproval is needed, in cents'),
+      receiptRequiredOverCents: z.number().optional().describe('Items above this amount in cents need a receipt'),
+      businessClassMinFlightHours: z.number().nullable().optional().describe('Allow business class on flights at least this long; null = never'),
+      effectiveFrom: z.string().optional().describe('Date the new values take effect (YYYY-MM-DD, default today)'),
+      changeNote: z.string().optional().describe('Why the policy is changing (required with confirm)'),
+      confirm: z.boolean().optional().describe('Apply the change; omit or false to preview it'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      applied: z.boolean().optional(),
+      policy: z.any().optional(),
+      changes: z.array(z.any()).optional(),
+      impact: z.any().optional(),
+      note: z.string().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async updateTravelPolicy(args: {
+    economyOnly?: boolean;
+    hotelNightlyCapCents?: number;
+    mealDailyCapCents?: number;
+    preapprovalOverCents?: number;
+    receiptRequiredOverCents?: number;
+    businessClassMinFlightHours?: number | null;
+    effectiveFrom?: string;
+    changeNote?: string;
+    confirm?: boolean;
+  }): Promise<UpdateTravelPolicyResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(updateTravelPolicyArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageTravelPolicy(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const { effectiveFrom: requestedFrom, changeNote, confirm, ...values } = validation.data;
+      const today = new Date().toISOString().slice(0, 10);
+      const effectiveFrom = requestedFrom ?? today;
+      if (effectiveFrom < today) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Effective date ${effectiveFrom} is in the past`,
+            details: [{ path: 'effectiveFrom', message: 'Effective date must be today or later' }],
+          },
+        };
+      }
+
+      const current = await db.getActivePolicy();
+      if (!current) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'No travel policy is in effect',
+          },
+        };
+      }
+
+      // Changes build on the version in effect, so only one can be scheduled at a time
+      const versions = await db.getPolicyVersions();
+      const latest = versions[versions.length - 1];
+      if (latest.id !== current.id) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `Policy version ${latest.version} is already scheduled to take effect on ${latest.effective_from}`,
+            hint: 'Wait until the scheduled version takes effect before changing the policy again',
+          },
+        };
+      }
+
+      // Keep the current id so the same overrides are layered on the proposed values
+      const proposed: TravelPolicyRow = {
+        ...current,
+        economy_only: values.economyOnly ?? current.economy_only,
+        hotel_nightly_cap_cents: values.hotelNightlyCapCents ?? current.hotel_nightly_cap_cents,
+        meal_daily_cap_cents: values.mealDailyCapCents ?? current.meal_daily_cap_cents,
+        preapproval_over_cents: values.preapprovalOverCents ?? current.preapproval_over_cents,
+        receipt_required_over_cents: values.receiptRequiredOverCents ?? current.receipt_required_over_cents,
+        business_class_min_flight_hours:
+          values.businessClassMinFlightHours !== undefined
+            ? values.businessClassMinFlightHours
+            : current.business_class_min_flight_hours,
+      };
+
+      const changes = diffPolicies(policyRowToDTO(current), policyRowToDTO(proposed));
+      if (changes.length === 0) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The new values are the same as the current policy',
+            hint: 'Call getTravelPolicy to see the current values',
+          },
+        };
+      }
+
+      const impact = await estimatePolicyImpact(current, proposed);
+      const note =
+        `Trips already waiting for review keep the policy version they were submitted under; ` +
+        `the new values apply to trips submitted or resubmitted from ${effectiveFrom}.`;
+
+      if (!confirm) {
+        return {
+          success: true,
+          applied: false,
+          changes,
+          impact,
+          note,
+        };
+      }
+
+      const created = await db.createPolicyVersion({
+        effectiveFrom,
+        changeNote: changeNote as string,
+        economyOnly: proposed.economy_only,
+        hotelNightlyCapCents: proposed.hotel_nightly_cap_cents,
+        mealDailyCapCents: proposed.meal_daily_cap_cents,
+        preapprovalOverCents: proposed.preapproval_over_cents,
+        receiptRequiredOverCents: proposed.receipt_required_over_cents,
+        businessClassMinFlightHours: proposed.business_class_min_flight_hours,
+        overridesFromPolicyId: current.id,
+      });
+      if (!created) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to create policy version',
+          },
+        };
+      }
+
+      const changedColumns = (Object.keys(POLICY_FIELD_NAMES) as Array<keyof typeof POLICY_FIELD_NAMES>)
+        .filter((column) => current[column] !== proposed[column]);
+      await recordAuditEvent(ctx, {
+        action: 'policy.updated',
+        entityType: 'travel_policy',
+        entityId: created.id,
+        before: Object.fromEntries(changedColumns.map((column) => [column, current[column]])),
+        after: {
+          version: created.version,
+          effective_from: created.effective_from,
+          change_note: created.change_note,
+          ...Object.fromEntries(changedColumns.map((column) => [column, created[column]])),
+        },
+      });
+
+      return {
+        success: true,
+        applied: true,
+        policy: policyRowToDTO(created),
+        changes,
+        impact,
+        note,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error updating travel policy',
+          hint: String(err),
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,2064 @@
+/**
+ * Employee Tools
+ *
+ * Tools every signed-in user gets: creating, editing and submitting their
+ * own trips, receipts, post-trip expense reports, and the history of trips
+ * they can see.
+ * Implements Daemo's core principles:
+ * - Context Injection: userId/role from session, not LLM args
+ * - Deterministic Execution: Zod validation + policy evaluation
+ * - Self-Correction: Structured errors for retry
+ * - RBAC: Role-based access enforced in every tool
+ */
+
+import 'reflect-metadata';
+import { createHash } from 'crypto';
+import { DaemoFunction } from 'daemo-engine';
+import { z } from 'zod';
+
+// Types
+import type { TripStatus, ItemType, TripItemRow } from '../../types/domain';
+import {
+  TripDTO,
+  TripItemDTO,
+  PreviewViolationDTO,
+  CreateTripResult,
+  UpdateTripResult,
+  CancelTripResult,
+  WithdrawTripResult,
+  AddTripItemResult,
+  UpdateTripItemResult,
+  RemoveTripItemResult,
+  AttachReceiptResult,
+  ListReceiptsResult,
+  ImportBookingConfirmationResult,
+  ParseWarningDTO,
+  SubmitTripResult,
+  PreviewPolicyViolationsResult,
+  ListTripsResult,
+  AuditEventDTO,
+  TripHistoryResult,
+  ViolationDTO,
+  AddActualExpenseResult,
+  RemoveActualExpenseResult,
+  SubmitExpenseReportResult,
+  ExpenseReportResult,
+} from '../../types/dto';
+
+// Utilities
+import { getSessionContext } from '../../utils/context';
+import {
+  canViewTrip,
+  canModifyTrip,
+  canSubmitTrip,
+  canCancelTrip,
+  canWithdrawTrip,
+  canPreviewTrip,
+  canFileExpenseReport,
+} from '../../utils/rbac';
+import {
+  validateArgs,
+  createTripArgsSchema,
+  updateTripArgsSchema,
+  cancelTripArgsSchema,
+  withdrawTripArgsSchema,
+  addTripItemArgsSchema,
+  updateTripItemArgsSchema,
+  removeTripItemArgsSchema,
+  attachReceiptArgsSchema,
+  listReceiptsArgsSchema,
+  importBookingConfirmationArgsSchema,
+  submitTripArgsSchema,
+  previewPolicyViolationsArgsSchema,
+  getMyTripsArgsSchema,
+  getTripHistoryArgsSchema,
+  addActualExpenseArgsSchema,
+  removeActualExpenseArgsSchema,
+  submitExpenseReportArgsSchema,
+  getExpenseReportArgsSchema,
+} from '../../utils/validation';
+import { getReportingCurrency, sumCents } from '../../utils/money';
+import { resolvePolicyForTrip } from '../policyOverrides';
+import { resolveApprovalProgress, getActiveDelegators } from '../approvalChain';
+import {
+  recordAuditEvent,
+  recordStatusChange,
+  tripAuditSnapshot,
+  violationsAuditSnapshot,
+  diffAuditSnapshots,
+} from '../audit';
+import { getBlobStore } from '../../storage/blobStore';
+import { parseBookingConfirmation } from '../../parsers/bookingConfirmation';
+import { previewTripPolicy, reevaluateTripRules } from '../../policy/engine';
+import { resolveExpenseReport } from '../expenseReports';
+import { getItemExpenseDate } from '../currency';
+import { resolveReimbursement } from '../reimbursements';
+
+// Database
+import * as db from '../../db/queries';
+
+// Shared by the tool sets
+import {
+  tripRowToDTO,
+  tripItemRowToDTO,
+  tripItemChangeRowToDTO,
+  violationRowToDTO,
+  violationDraftToPreviewDTO,
+  findOpenChangeRequest,
+  requestedChangesToDTO,
+  receiptRowToDTO,
+  auditEventRowToDTO,
+  actualExpenseRowToDTO,
+  expenseReportToDTO,
+  payoutToDTO,
+} from './mappers';
+import {
+  MAX_RECEIPT_BYTES,
+  itemsWithReceiptStatus,
+  resolveItemFx,
+  createItemWithFx,
+  tripItemSnapshot,
+  diffTripItems,
+  evaluatePolicyViolations,
+  resolveExpenseFx,
+  actualExpenseSnapshot,
+} from './helpers';
+
+export class EmployeeTools {
+  @DaemoFunction({
+    description:
+      'Create a new travel trip request. The trip starts in draft status. ' +
+      'After creating, add expense items (flights, hotels, meals, transport) ' +
+      'then submit for review. Dates must be in YYYY-MM-DD format.',
+    inputSchema: z.object({
+      destinationCity: z.string().describe('Destination city name'),
+      destinationCountry: z
+        .string()
+        .optional()
+        .describe('Destination country as a 2-letter ISO code (e.g. US, GB); used to pick per-diem rates'),
+      startDate: z.string().describe('Trip start date (YYYY-MM-DD)'),
+      endDate: z.string().describe('Trip end date (YYYY-MM-DD)'),
+      purpose: z.string().describe('Business purpose of the trip'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      trip: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async createTrip(args: {
+    destinationCity: string;
+    destinationCountry?: string;
+    startDate: string;
+    endDate: string;
+    purpose: string;
+  }): Promise<CreateTripResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(createTripArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      // Get session context (injected, not from args)
+      const ctx = getSessionContext();
+
+      // Create trip
+      const tripRow = await db.createTrip({
+        userId: ctx.userId,
+        destinationCity: validation.data.destinationCity,
+        destinationCountry: validation.data.destinationCountry ?? null,
+        startDate: validation.data.startDate,
+        endDate: validation.data.endDate,
+        purpose: validation.data.purpose,
+      });
+
+      if (!tripRow) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to create trip in database',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: tripRow.id,
+        action: 'trip.created',
+        entityType: 'trip',
+        entityId: tripRow.id,
+        after: tripAuditSnapshot(tripRow),
+      });
+
+      return {
+        success: true,
+        trip: tripRowToDTO(tripRow),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error creating trip',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Change the destination, dates or purpose of a draft trip owned by the current user. ' +
+      'Pass only the fields to change. Dates must be in YYYY-MM-DD format. Changing the city clears ' +
+      'the destination country unless a new one is passed; pass destinationCountry as null to clear it. ' +
+      'Items without their own date are dated on the trip\'s first day, so moving the start date ' +
+      'converts them again at the exchange rate for the new date. When the dates or destination ' +
+      'change, the result previews the violations the trip would now get, since per-diem caps ' +
+      'depend on them.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to change'),
+      destinationCity: z.string().optional().describe('New destination city'),
+      destinationCountry: z
+        .string()
+        .nullable()
+        .optional()
+        .describe('New destination country as a 2-letter ISO code, or null to clear it'),
+      startDate: z.string().optional().describe('New start date (YYYY-MM-DD)'),
+      endDate: z.string().optional().describe('New end date (YYYY-MM-DD)'),
+      purpose: z.string().optional().describe('New business purpose'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      trip: z.any().optional(),
+      repricedItems: z.array(z.any()).optional(),
+      violations: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async updateTrip(args: {
+    tripId: string;
+    destinationCity?: string;
+    destinationCountry?: string | null;
+    startDate?: string;
+    endDate?: string;
+    purpose?: string;
+  }): Promise<UpdateTripResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(updateTripArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canModifyTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Merge the changes over the current values
+      const startDate = validation.data.startDate ?? trip.start_date;
+      const endDate = validation.data.endDate ?? trip.end_date;
+      if (startDate > endDate) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Start date must be on or before end date',
+            details: [{ path: 'endDate', message: `Trip would run from ${startDate} to ${endDate}` }],
+            hint: 'Change both dates together if the trip moves',
+          },
+        };
+      }
+
+      // Items dated by the trip start move with it: look their exchange
+      // rates up again before anything is written
+      const items = await db.getTripItems(trip.id);
+      const repricing: Array<{
+        item: TripItemRow;
+        fx: { currency: string; fxRate: number; fxRateDate: string | null };
+      }> = [];
+      for (const item of items) {
+        const expenseDate = getItemExpenseDate(item.meta, startDate);
+        if (expenseDate === getItemExpenseDate(item.meta, trip.start_date)) continue;
+        const fx = await resolveExpenseFx(item.currency, expenseDate);
+        if ('error' in fx) {
+          return {
+            success: false,
+            error: {
+              ...fx.error,
+              details: [{ path: 'startDate', message: `Item "${item.description}" is dated on the trip's first day` }],
+              hint: 'Choose a start date with a published exchange rate, or give the item its own meta.date',
+            },
+          };
+        }
+        repricing.push({ item, fx });
+      }
+
+      // A new city without a new country must not keep the old city's
+      // country, or per-diem caps would come from the wrong place
+      const destinationCity = validation.data.destinationCity ?? trip.destination_city;
+      const destinationCountry =
+        validation.data.destinationCountry !== undefined
+          ? validation.data.destinationCountry
+          : destinationCity === trip.destination_city
+            ? trip.destination_country
+            : null;
+
+      const updated = await db.updateTrip(trip.id, {
+        destinationCity,
+        destinationCountry,
+        startDate,
+        endDate,
+        purpose: validation.data.purpose ?? trip.purpose,
+      });
+
+      if (!updated) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to update trip',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'trip.updated',
+        entityType: 'trip',
+        entityId: trip.id,
+        ...diffAuditSnapshots(tripAuditSnapshot(trip), tripAuditSnapshot(updated)),
+      });
+
+      const repricedItems: TripItemDTO[] = [];
+      for (const { item, fx } of repricing) {
+        const repriced = await db.updateTripItem(item.id, {
+          type: item.type,
+          description: item.description,
+          amountCents: item.amount_cents,
+          currency: fx.currency,
+          fxRate: fx.fxRate,
+          fxRateDate: fx.fxRateDate,
+          meta: item.meta,
+          companyPaid: item.company_paid,
+        });
+        if (!repriced) continue;
+        repricedItems.push(tripItemRowToDTO(repriced));
+
+        // Record only the columns that changed (none when the rate is the same)
+        const { previousValues, newValues } = diffTripItems(item, repriced);
+        if (Object.keys(newValues).length === 0) continue;
+        await db.createTripItemChange({
+          tripId: trip.id,
+          tripItemId: item.id,
+          changeType: 'updated',
+          previousValues,
+          newValues,
+          changedByUserId: ctx.userId,
+        });
+        await recordAuditEvent(ctx, {
+          tripId: trip.id,
+          action: 'trip_item.updated',
+          entityType: 'trip_item',
+          entityId: item.id,
+          before: previousValues,
+          after: newValues,
+        });
+      }
+
+      // Per-diem caps depend on the destination and start date
+      let violations: PreviewViolationDTO[] | undefined;
+      const placeOrDatesChanged =
+        updated.start_date !== trip.start_date ||
+        updated.end_date !== trip.end_date ||
+        updated.destination_city !== trip.destination_city ||
+        updated.destination_country !== trip.destination_country;
+      const policyRow = placeOrDatesChanged ? await db.getActivePolicy() : null;
+      if (policyRow) {
+        const preview = await previewTripPolicy(updated, policyRow);
+        violations = preview?.drafts.map(violationDraftToPreviewDTO);
+      }
+
+      return {
+        success: true,
+        trip: tripRowToDTO(updated),
+        repricedItems,
+        violations,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error updating trip',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Add an expense item to a trip. Only works for trips in draft status owned by the current user. ' +
+      'Types: flight, hotel, meal, transport. Amount is in cents of the item currency (e.g., $250.00 = 25000). ' +
+      'Currency is an ISO code such as "EUR" and defaults to the reporting currency; the amount is ' +
+      'converted using the exchange rate for the expense date. ' +
+      'Meta should include type-specific data: ' +
+      'flight: {cabin: "economy"|"business"|"first"}, ' +
+      'hotel: {nightly_rate_cents: number, nights: number}, ' +
+      'meal: {date: "YYYY-MM-DD"}. ' +
+      'Set companyPaid for items billed directly to the company (e.g. flights on the corporate account); ' +
+      'they count toward the trip total but are not reimbursed.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to add item to'),
+      type: z.enum(['flight', 'hotel', 'meal', 'transport']).describe('Item type'),
+      description: z.string().describe('Description of the expense'),
+      amountCents: z.number().describe('Amount in cents of the item currency'),
+      currency: z.string().optional().describe('ISO 4217 currency code (defaults to the reporting currency)'),
+      meta: z.record(z.unknown()).optional().describe('Type-specific metadata'),
+      companyPaid: z.boolean().optional().describe('True if billed directly to the company (default false)'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      item: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async addTripItem(args: {
+    tripId: string;
+    type: ItemType;
+    description: string;
+    amountCents: number;
+    currency?: string;
+    meta?: Record<string, unknown>;
+    companyPaid?: boolean;
+  }): Promise<AddTripItemResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(addTripItemArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canModifyTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Create item (locks in the exchange rate for the expense date)
+      const created = await createItemWithFx(ctx, trip, {
+        type: validation.data.type,
+        description: validation.data.description,
+        amountCents: validation.data.amountCents,
+        currency: validation.data.currency,
+        meta: validation.data.meta || {},
+        companyPaid: validation.data.companyPaid ?? false,
+      });
+      if ('error' in created) {
+        return { success: false, error: created.error };
+      }
+      const itemRow = created.item;
+
+      return {
+        success: true,
+        item: tripItemRowToDTO(itemRow),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error adding trip item',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Change an expense item on a draft trip owned by the current user. Pass only the fields to change; ' +
+      'meta, if given, replaces the existing meta. The exchange rate is looked up again for the ' +
+      'resulting currency and expense date. The previous values are kept and shown to finance in the review packet.',
+    inputSchema: z.object({
+      tripItemId: z.string().describe('Trip item ID to change'),
+      type: z.enum(['flight', 'hotel', 'meal', 'transport']).optional().describe('New item type'),
+      description: z.string().optional().describe('New description'),
+      amountCents: z.number().optional().describe('New amount in cents of the item currency'),
+      currency: z.string().optional().describe('New ISO 4217 currency code'),
+      meta: z.record(z.unknown()).optional().describe('New type-specific metadata (replaces the existing meta)'),
+      companyPaid: z.boolean().optional().describe('Whether the item is billed directly to the company'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      item: z.any().optional(),
+      change: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async updateTripItem(args: {
+    tripItemId: string;
+    type?: ItemType;
+    description?: string;
+    amountCents?: number;
+    currency?: string;
+    meta?: Record<string, unknown>;
+    companyPaid?: boolean;
+  }): Promise<UpdateTripItemResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(updateTripItemArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get item and its trip
+      const item = await db.getTripItemById(validation.data.tripItemId);
+      if (!item) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip item ${validation.data.tripItemId} not found`,
+          },
+        };
+      }
+
+      const trip = await db.getTripById(item.trip_id);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${item.trip_id} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canModifyTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Merge the changes over the current values
+      const fields = {
+        type: validation.data.type ?? item.type,
+        description: validation.data.description ?? item.description,
+        amountCents: validation.data.amountCents ?? item.amount_cents,
+        currency: validation.data.currency ?? item.currency,
+        meta: validation.data.meta ?? item.meta,
+        companyPaid: validation.data.companyPaid ?? item.company_paid,
+      };
+
+      // Re-resolve the exchange rate; the currency or expense date may have changed
+      const fx = await resolveItemFx(trip, fields);
+      if ('error' in fx) {
+        return { success: false, error: fx.error };
+      }
+
+      const updated = await db.updateTripItem(item.id, {
+        type: fields.type,
+        description: fields.description,
+        amountCents: fields.amountCents,
+        currency: fx.currency,
+        fxRate: fx.fxRate,
+        fxRateDate: fx.fxRateDate,
+        meta: fields.meta,
+        companyPaid: fields.companyPaid,
+      });
+      if (!updated) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to update trip item',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      // Record only the columns that changed
+      const { previousValues, newValues } = diffTripItems(item, updated);
+      if (Object.keys(newValues).length === 0) {
+        return { success: true, item: tripItemRowToDTO(updated) };
+      }
+
+      const change = await db.createTripItemChange({
+        tripId: trip.id,
+        tripItemId: item.id,
+        changeType: 'updated',
+        previousValues,
+        newValues,
+        changedByUserId: ctx.userId,
+      });
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'trip_item.updated',
+        entityType: 'trip_item',
+        entityId: item.id,
+        before: previousValues,
+        after: newValues,
+      });
+
+      return {
+        success: true,
+        item: tripItemRowToDTO(updated),
+        change: change ? tripItemChangeRowToDTO(change) : undefined,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error updating trip item',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Remove an expense item from a draft trip owned by the current user. Receipts attached to the ' +
+      'item are removed with it, files included. The removed values are kept and shown to finance in the review packet.',
+    inputSchema: z.object({
+      tripItemId: z.string().describe('Trip item ID to remove'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      removedItemId: z.string().optional(),
+      removedReceiptCount: z.number().optional(),
+      change: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async removeTripItem(args: { tripItemId: string }): Promise<RemoveTripItemResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(removeTripItemArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get item and its trip
+      const item = await db.getTripItemById(validation.data.tripItemId);
+      if (!item) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip item ${validation.data.tripItemId} not found`,
+          },
+        };
+      }
+
+      const trip = await db.getTripById(item.trip_id);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${item.trip_id} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canModifyTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const receipts = (await db.getReceiptsForTrip(trip.id)).filter((r) => r.trip_item_id === item.id);
+      const removedReceiptCount = receipts.length;
+
+      // Record the whole item before it is gone
+      const change = await db.createTripItemChange({
+        tripId: trip.id,
+        tripItemId: item.id,
+        changeType: 'removed',
+        previousValues: tripItemSnapshot(item),
+        newValues: null,
+        changedByUserId: ctx.userId,
+      });
+      if (!change) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to record item removal',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      const deleted = await db.deleteTripItem(item.id);
+      if (!deleted) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to remove trip item',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      // The cascade removed the receipt rows; remove their files too
+      const blobStore = getBlobStore();
+      for (const storageKey of new Set(receipts.map((r) => r.storage_key))) {
+        await blobStore.delete(storageKey);
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'trip_item.removed',
+        entityType: 'trip_item',
+        entityId: item.id,
+        before: { ...tripItemSnapshot(item), receipt_count: removedReceiptCount },
+      });
+
+      return {
+        success: true,
+        removedItemId: item.id,
+        removedReceiptCount,
+        change: tripItemChangeRowToDTO(change),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error removing trip item',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Import a pasted airline, hotel or car rental confirmation email. A deterministic parser ' +
+      'extracts draft trip items (cabin, airline, nightly_rate_cents, nights, dates, amounts and currency) ' +
+      'and reports anything it could not extract as warnings. ALWAYS use this instead of reading ' +
+      'confirmation emails yourself. Set addToTrip to true to add the complete drafts to the draft trip.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID the booking belongs to'),
+      text: z.string().describe('The confirmation email text, pasted verbatim'),
+      addToTrip: z.boolean().optional().describe('Add complete drafts to the trip (default false: preview only)'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      bookingType: z.string().optional(),
+      drafts: z.array(z.any()).optional(),
+      warnings: z.array(z.any()).optional(),
+      addedItems: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async importBookingConfirmation(args: {
+    tripId: string;
+    text: string;
+    addToTrip?: boolean;
+  }): Promise<ImportBookingConfirmationResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(importBookingConfirmationArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Adding items needs modify rights; a preview only needs view rights
+      const permission = validation.data.addToTrip
+        ? canModifyTrip(ctx, trip.user_id, trip.status)
+        : canViewTrip(ctx, trip.user_id);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const parsed = parseBookingConfirmation(validation.data.text);
+      const warnings: ParseWarningDTO[] = [...parsed.warnings];
+
+      // Flag bookings that fall outside the trip dates
+      for (const draft of parsed.items) {
+        const date = draft.meta.date;
+        if (typeof date === 'string' && (date < trip.start_date || date > trip.end_date)) {
+          warnings.push({
+            field: 'meta.date',
+            message: `Booking date ${date} is outside the trip dates (${trip.start_date} to ${trip.end_date})`,
+          });
+        }
+      }
+
+      // Optionally add complete drafts to the trip
+      const addedItems: TripItemDTO[] = [];
+      if (validation.data.addToTrip) {
+        for (const [index, draft] of parsed.items.entries()) {
+          if (!draft.complete || draft.amountCents === null) {
+            warnings.push({
+              field: `drafts.${index}`,
+              message: 'Draft not added: required fields are missing (see other warnings)',
+            });
+            continue;
+          }
+
+          const created = await createItemWithFx(ctx, trip, {
+            type: draft.type,
+            description: draft.description,
+            amountCents: draft.amountCents,
+            currency: draft.currency ?? undefined,
+            meta: draft.meta,
+            companyPaid: false,
+          });
+          if ('error' in created) {
+            warnings.push({ field: `drafts.${index}`, message: `Draft not added: ${created.error.message}` });
+            continue;
+          }
+          addedItems.push(tripItemRowToDTO(created.item));
+        }
+      }
+
+      return {
+        success: true,
+        bookingType: parsed.bookingType,
+        drafts: parsed.items,
+        warnings,
+        addedItems,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error importing booking confirmation',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Attach a receipt (proof of purchase) to an expense item. Only the trip owner can attach receipts, ' +
+      'and only while the trip is in draft status. The file must be base64 encoded ' +
+      '(PDF, JPEG, PNG, HEIC or WebP, up to 10 MB). Items above the policy receipt threshold ' +
+      'without a receipt are flagged as MISSING_RECEIPT on submission.',
+    inputSchema: z.object({
+      tripItemId: z.string().describe('Trip item ID the receipt belongs to'),
+      fileName: z.string().describe('Original file name, e.g. "hotel-invoice.pdf"'),
+      contentType: z.enum(['application/pdf', 'image/jpeg', 'image/png', 'image/heic', 'image/webp']).describe('MIME type of the file'),
+      contentBase64: z.string().describe('File contents, base64 encoded'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      receipt: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async attachReceipt(args: {
+    tripItemId: string;
+    fileName: string;
+    contentType: string;
+    contentBase64: string;
+  }): Promise<AttachReceiptResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(attachReceiptArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get item and its trip
+      const item = await db.getTripItemById(validation.data.tripItemId);
+      const trip = item ? await db.getTripById(item.trip_id) : null;
+      if (!item || !trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip item ${validation.data.tripItemId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canModifyTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Decode and check size
+      const content = Buffer.from(validation.data.contentBase64, 'base64');
+      if (content.length === 0 || content.length > MAX_RECEIPT_BYTES) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Receipt must be between 1 byte and ${MAX_RECEIPT_BYTES / (1024 * 1024)} MB`,
+            details: [{ path: 'contentBase64', message: `Decoded size is ${content.length} bytes` }],
+          },
+        };
+      }
+
+      // Store the file, then its metadata
+      const sha256 = createHash('sha256').update(content).digest('hex');
+      const safeFileName = validation.data.fileName.replace(/[^A-Za-z0-9._-]/g, '_');
+      const storageKey = `${trip.id}/${item.id}/${sha256}-${safeFileName}`;
+      const blobStore = getBlobStore();
+      await blobStore.put(storageKey, content, validation.data.contentType);
+
+      const receiptRow = await db.createReceipt({
+        tripId: trip.id,
+        tripItemId: item.id,
+        fileName: validation.data.fileName,
+        contentType: validation.data.contentType,
+        sizeBytes: content.length,
+        sha256,
+        storageKey,
+        uploadedByUserId: ctx.userId,
+      });
+
+      if (!receiptRow) {
+        await blobStore.delete(storageKey);
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to record receipt',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'receipt.attached',
+        entityType: 'receipt',
+        entityId: receiptRow.id,
+        after: {
+          trip_item_id: item.id,
+          file_name: receiptRow.file_name,
+          content_type: receiptRow.content_type,
+          size_bytes: receiptRow.size_bytes,
+          sha256: receiptRow.sha256,
+        },
+      });
+
+      return {
+        success: true,
+        receipt: receiptRowToDTO(receiptRow),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error attaching receipt',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'List receipts attached to a trip, along with each item\'s receipt status ' +
+      '(attached, missing, or not_required under the policy receipt threshold). ' +
+      'Employees can list receipts for their own trips; finance managers and admins for any trip.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to list receipts for'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      receipts: z.array(z.any()).optional(),
+      items: z.array(z.any()).optional(),
+      count: z.number().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async listReceipts(args: { tripId: string }): Promise<ListReceiptsResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(listReceiptsArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check view permission (line managers can see their reports' trips, delegates what they cover)
+      const owner = await db.getUserById(trip.user_id);
+      const permission = canViewTrip(
+        ctx,
+        trip.user_id,
+        owner?.manager_id ?? null,
+        await getActiveDelegators(ctx.userId)
+      );
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const items = await db.getTripItems(trip.id);
+      const receipts = await db.getReceiptsForTrip(trip.id);
+      const resolved = await resolvePolicyForTrip(trip);
+      const receiptRequiredOverCents = resolved?.policy.receipt_required_over_cents ?? 0;
+
+      return {
+        success: true,
+        receipts: receipts.map(receiptRowToDTO),
+        items: itemsWithReceiptStatus(items, receipts, receiptRequiredOverCents),
+        count: receipts.length,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error listing receipts',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Preview the policy violations a draft trip would get if submitted now, without submitting it. ' +
+      'Runs the same rules as submitTripForReview but saves nothing and leaves the trip in draft. ' +
+      'Shows how far each item is over its cap so the employee can fix it before submitting.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Draft trip ID to preview'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      violations: z.array(z.any()).optional(),
+      tripTotalCents: z.number().optional(),
+      reportingCurrency: z.string().optional(),
+      policyVersion: z.number().optional(),
+      hasBlockers: z.boolean().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async previewPolicyViolations(args: { tripId: string }): Promise<PreviewPolicyViolationsResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(previewPolicyViolationsArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canPreviewTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Same policy version a submission would be pinned to today
+      const policyRow = await db.getActivePolicy();
+      if (!policyRow) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'No travel policy is in effect',
+            hint: 'An admin must publish a policy version before trips can be evaluated',
+          },
+        };
+      }
+
+      const preview = await previewTripPolicy(trip, policyRow);
+      if (!preview) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to evaluate policy violations',
+          },
+        };
+      }
+
+      const violations = preview.drafts.map(violationDraftToPreviewDTO);
+
+      return {
+        success: true,
+        violations,
+        tripTotalCents: sumCents(preview.context.items.map((i) => i.reporting_amount_cents)),
+        reportingCurrency: getReportingCurrency(),
+        policyVersion: policyRow.version,
+        hasBlockers: violations.some((v) => v.severity === 'blocker'),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error previewing policy violations',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Submit a trip for finance review. This evaluates all policy rules and flags violations. ' +
+      'Returns the list of violations found and whether any are blockers. ' +
+      'Only the trip owner can submit, and only draft trips can be submitted.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to submit for review'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      status: z.string().optional(),
+      violations: z.array(z.any()).optional(),
+      tripTotalCents: z.number().optional(),
+      reportingCurrency: z.string().optional(),
+      policyVersion: z.number().optional(),
+      resubmitted: z.boolean().optional(),
+      nextStage: z.string().nullable().optional(),
+      hasBlockers: z.boolean().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async submitTripForReview(args: { tripId: string }): Promise<SubmitTripResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(submitTripArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canSubmitTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Pin the policy version in force today to this submission
+      const policyRow = await db.getActivePolicy();
+      if (!policyRow) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'No travel policy is in effect',
+            hint: 'An admin must publish a policy version before trips can be submitted',
+          },
+        };
+      }
+
+      // A resubmission after changes_requested rejoins the same review thread
+      const approvals = await db.getApprovalsForTrip(trip.id);
+      const resubmitted = findOpenChangeRequest(trip, approvals) !== null;
+
+      // Update status to pending_review
+      await db.updateTripStatus(validation.data.tripId, 'pending_review');
+      await db.recordTripSubmission(validation.data.tripId, policyRow.id);
+      await recordStatusChange(ctx, trip, 'pending_review');
+
+      // Evaluate policy violations (replaces any stored violations)
+      const previousViolations = await db.getViolationsForTrip(trip.id);
+      const evaluation = await evaluatePolicyViolations(validation.data.tripId, policyRow);
+      if (!evaluation) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to evaluate policy violations',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'violations.evaluated',
+        entityType: 'violation',
+        before: violationsAuditSnapshot(previousViolations),
+        after: {
+          ...violationsAuditSnapshot(await db.getViolationsForTrip(trip.id)),
+          policy_version: policyRow.version,
+        },
+      });
+
+      // Stages depend on the evaluated total and blockers
+      const submitted = await db.getTripById(trip.id);
+      const progress = await resolveApprovalProgress(submitted ?? trip);
+
+      return {
+        success: true,
+        status: 'pending_review',
+        violations: evaluation.violations,
+        tripTotalCents: evaluation.tripTotalCents,
+        reportingCurrency: getReportingCurrency(),
+        policyVersion: policyRow.version,
+        resubmitted,
+        nextStage: progress.currentStage?.name ?? null,
+        hasBlockers: evaluation.hasBlockers,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error submitting trip',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Withdraw a trip the current user submitted that is still pending review. The trip goes back ' +
+      'to draft so it can be edited and resubmitted; its violations are cleared and are evaluated ' +
+      'again on the next submission.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to withdraw'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      trip: z.any().optional(),
+      clearedViolationCount: z.number().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async withdrawTrip(args: { tripId: string }): Promise<WithdrawTripResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(withdrawTripArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canWithdrawTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Clear the submission: violations and the pinned policy version
+      const violations = await db.getViolationsForTrip(trip.id);
+      await db.deleteViolationsForTrip(trip.id);
+      await db.clearTripSubmission(trip.id);
+
+      const updated = await db.updateTripStatus(trip.id, 'draft');
+      if (!updated) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to withdraw trip',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'violations.cleared',
+        entityType: 'violation',
+        before: violationsAuditSnapshot(violations),
+      });
+      await recordStatusChange(ctx, trip, 'draft');
+
+      const withdrawn = await db.getTripById(trip.id);
+
+      return {
+        success: true,
+        trip: tripRowToDTO(withdrawn ?? { ...trip, status: 'draft' }),
+        clearedViolationCount: violations.length,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error withdrawing trip',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Cancel a draft trip owned by the current user. Cancelled trips stay on record but can no ' +
+      'longer be edited or submitted. To cancel a trip pending review, withdraw it first.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to cancel'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      trip: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async cancelTrip(args: { tripId: string }): Promise<CancelTripResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(cancelTripArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canCancelTrip(ctx, trip.user_id, trip.status);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const updated = await db.updateTripStatus(trip.id, 'cancelled');
+      if (!updated) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to cancel trip',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      await recordStatusChange(ctx, trip, 'cancelled');
+
+      return {
+        success: true,
+        trip: tripRowToDTO({ ...trip, status: 'cancelled' }),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error cancelling trip',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'File an expense actually incurred on an approved trip owned by the current user. The first ' +
+      'expense opens the trip\'s expense report. Types: flight, hotel, meal, transport. Amount is in ' +
+      'cents of the expense currency; currency defaults to the reporting currency and the amount is ' +
+      'converted using the exchange rate for the expense date. Set companyPaid for expenses billed ' +
+      'directly to the company; they are reconciled but not reimbursed. File every expense, then call ' +
+      'submitExpenseReport to reconcile them against the approved amounts.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Approved trip the expense was incurred on'),
+      type: z.enum(['flight', 'hotel', 'meal', 'transport']).describe('Item type'),
+      description: z.string().describe('Description of the expense'),
+      amountCents: z.number().describe('Amount in cents of the expense currency'),
+      currency: z.string().optional().describe('ISO 4217 currency code (defaults to the reporting currency)'),
+      expenseDate: z.string().describe('Date the expense was incurred (YYYY-MM-DD)'),
+      companyPaid: z.boolean().optional().describe('True if billed directly to the company (default false)'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      expense: z.any().optional(),
+      reportStatus: z.string().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async addActualExpense(args: {
+    tripId: string;
+    type: ItemType;
+    description: string;
+    amountCents: number;
+    currency?: string;
+    expenseDate: string;
+    companyPaid?: boolean;
+  }): Promise<AddActualExpenseResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(addActualExpenseArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      let report = await db.getExpenseReportForTrip(trip.id);
+      const permission = canFileExpenseReport(ctx, trip.user_id, trip.status, report?.status ?? null);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Lock in the exchange rate for the expense date
+      const fx = await resolveExpenseFx(validation.data.currency, validation.data.expenseDate);
+      if ('error' in fx) {
+        return { success: false, error: fx.error };
+      }
+
+      // Open the report with the first expense
+      if (!report) {
+        report = await db.createExpenseReport({ tripId: trip.id });
+        if (!report) {
+          return {
+            success: false,
+            error: {
+              code: 'INTERNAL_ERROR',
+              message: 'Failed to open expense report',
+              hint: 'Please try again',
+            },
+          };
+        }
+
+        await recordAuditEvent(ctx, {
+          tripId: trip.id,
+          action: 'expense_report.status_changed',
+          entityType: 'expense_report',
+          entityId: report.id,
+          after: { status: report.status },
+        });
+      }
+
+      const expense = await db.createActualExpense({
+        reportId: report.id,
+        tripId: trip.id,
+        type: validation.data.type,
+        description: validation.data.description,
+        amountCents: validation.data.amountCents,
+        currency: fx.currency,
+        fxRate: fx.fxRate,
+        fxRateDate: fx.fxRateDate,
+        expenseDate: validation.data.expenseDate,
+        companyPaid: validation.data.companyPaid ?? false,
+      });
+      if (!expense) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to file expense',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'actual_expense.added',
+        entityType: 'actual_expense',
+        entityId: expense.id,
+        after: actualExpenseSnapshot(expense),
+      });
+
+      return {
+        success: true,
+        expense: actualExpenseRowToDTO(expense),
+        reportStatus: report.status,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error filing expense',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Remove an actual expense from the current user\'s expense report. Only works while the ' +
+      'report has not been submitted, or after a reviewer requested changes to it.',
+    inputSchema: z.object({
+      expenseId: z.string().describe('Actual expense ID to remove'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      removedExpenseId: z.string().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async removeActualExpense(args: { expenseId: string }): Promise<RemoveActualExpenseResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(removeActualExpenseArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get expense and its trip
+      const expense = await db.getActualExpenseById(validation.data.expenseId);
+      if (!expense) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Actual expense ${validation.data.expenseId} not found`,
+          },
+        };
+      }
+
+      const trip = await db.getTripById(expense.trip_id);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${expense.trip_id} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const report = await db.getExpenseReportForTrip(trip.id);
+      const permission = canFileExpenseReport(ctx, trip.user_id, trip.status, report?.status ?? null);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const deleted = await db.deleteActualExpense(expense.id);
+      if (!deleted) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to remove expense',
+            hint: 'Please try again',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'actual_expense.removed',
+        entityType: 'actual_expense',
+        entityId: expense.id,
+        before: actualExpenseSnapshot(expense),
+      });
+
+      return {
+        success: true,
+        removedExpenseId: expense.id,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error removing expense',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Submit the expense report of an approved trip owned by the current user. Actual spend is ' +
+      'compared with the approved amount for each item type. Within tolerance, the report is ' +
+      'reconciled and nothing else happens. If any item type is over the approved amount by more ' +
+      'than the tolerance, an OVER_APPROVED_AMOUNT violation is raised and the report goes ' +
+      'through the approval chain; the trip stays approved while the report is reviewed.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID whose expense report to submit'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      report: z.any().optional(),
+      violations: z.array(z.any()).optional(),
+      sentForReview: z.boolean().optional(),
+      nextStage: z.string().nullable().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async submitExpenseReport(args: { tripId: string }): Promise<SubmitExpenseReportResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(submitExpenseReportArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const report = await db.getExpenseReportForTrip(trip.id);
+      const permission = canFileExpenseReport(ctx, trip.user_id, trip.status, report?.status ?? null);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const actuals = report ? await db.getActualExpensesForTrip(trip.id) : [];
+      if (!report || actuals.length === 0) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: 'No actual expenses have been filed for this trip',
+            hint: 'File expenses with addActualExpense before submitting the report',
+          },
+        };
+      }
+
+      // Reconcile under the policy version the trip was approved under
+      const policyRow = await db.getPolicyForTrip(trip);
+      if (!policyRow) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'The travel policy this trip was approved under no longer exists',
+          },
+        };
+      }
+
+      await db.recordExpenseReportSubmission(report.id);
+
+      // Only the overrun is reviewed: the trip's other violations were
+      // decided on when it was approved
+      const previousViolations = await db.getViolationsForTrip(trip.id);
+      const evaluation = await reevaluateTripRules(trip, policyRow, ['OVER_APPROVED_AMOUNT']);
+      if (!evaluation) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to evaluate policy violations',
+          },
+        };
+      }
+
+      const sentForReview = evaluation.violations.length > 0;
+      const reportStatus = sentForReview ? 'pending_review' : 'reconciled';
+      const hadOverrun = previousViolations.some((v) => v.code === 'OVER_APPROVED_AMOUNT');
+
+      if (sentForReview || hadOverrun) {
+        await recordAuditEvent(ctx, {
+          tripId: trip.id,
+          action: 'violations.evaluated',
+          entityType: 'violation',
+          before: violationsAuditSnapshot(previousViolations),
+          after: {
+            ...violationsAuditSnapshot(await db.getViolationsForTrip(trip.id)),
+            policy_version: policyRow.version,
+          },
+        });
+      }
+
+      // The review state lives on the report; the trip stays approved
+      await db.updateExpenseReportStatus(report.id, reportStatus);
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'expense_report.status_changed',
+        entityType: 'expense_report',
+        entityId: report.id,
+        before: { status: report.status },
+        after: { status: reportStatus },
+      });
+
+      let nextStage: string | null = null;
+      if (sentForReview) {
+        const progress = await resolveApprovalProgress(trip);
+        nextStage = progress.currentStage?.name ?? null;
+      }
+
+      const submitted = await resolveExpenseReport(trip.id);
+
+      return {
+        success: true,
+        report: submitted ? expenseReportToDTO(submitted, evaluation.context.items) : undefined,
+        violations: evaluation.violations.map(violationRowToDTO),
+        sentForReview,
+        nextStage,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error submitting expense report',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Get the expense report of a trip: the actual expenses filed and how they compare with the ' +
+      'approved amount for each item type. Available to everyone who can see the trip.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID whose expense report to get'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      report: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getExpenseReport(args: { tripId: string }): Promise<ExpenseReportResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(getExpenseReportArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check view permission (line managers can see their reports' trips, delegates what they cover)
+      const owner = await db.getUserById(trip.user_id);
+      const permission = canViewTrip(
+        ctx,
+        trip.user_id,
+        owner?.manager_id ?? null,
+        await getActiveDelegators(ctx.userId)
+      );
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const position = await resolveExpenseReport(trip.id);
+      if (!position) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `No expense report has been filed for trip ${trip.id}`,
+            hint: 'Expenses are filed with addActualExpense once the trip is approved',
+          },
+        };
+      }
+
+      const items = await db.getTripItems(trip.id);
+
+      return {
+        success: true,
+        report: expenseReportToDTO(position, items),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error fetching expense report',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Get all trips for the current user. Optionally filter by status. ' +
+      'Employees can only see their own trips. Drafts sent back by a reviewer include ' +
+      'requestedChanges with the comments on what to fix. Approved trips include payout: how much ' +
+      'will be reimbursed (excluding company-paid items), how much has been paid, and whether it is ' +
+      'unpaid, partially_paid or paid.',
+    inputSchema: z.object({
+      status: z.enum(['draft', 'pending_review', 'approved', 'approved_exception', 'denied', 'cancelled']).optional().describe('Filter by trip status'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      trips: z.array(z.any()).optional(),
+      count: z.number().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getMyTrips(args?: { status?: TripStatus }): Promise<ListTripsResult> {
+    try {
+      // Validate input (optional)
+      const validation = validateArgs(getMyTripsArgsSchema, args || {});
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      const data = validation.data as { status?: TripStatus } | undefined;
+      const tripRows = await db.getTripsByUserId(ctx.userId, data?.status);
+      const owner = await db.getUserById(ctx.userId);
+
+      // Show what needs fixing on trips sent back for changes, and payout on approved trips
+      const trips: TripDTO[] = [];
+      for (const tripRow of tripRows) {
+        const trip = tripRowToDTO(tripRow);
+        const reimbursement = owner ? await resolveReimbursement(tripRow, owner) : null;
+        if (reimbursement) {
+          trip.payout = payoutToDTO(reimbursement);
+        }
+        if (tripRow.status === 'draft') {
+          const approvals = await db.getApprovalsForTrip(tripRow.id);
+          const changeRequest = findOpenChangeRequest(tripRow, approvals);
+          if (changeRequest) {
+            const comments = await db.getReviewCommentsForTrip(tripRow.id);
+            trip.requestedChanges = requestedChangesToDTO(changeRequest, comments);
+          }
+        }
+        trips.push(trip);
+      }
+
+      return {
+        success: true,
+        trips,
+        count: trips.length,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error fetching trips',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Get the audit trail of a trip as a timeline: creation, every edit to the trip and its items, ' +
+      'receipts, status changes, policy evaluations and review decisions, each with who acted ' +
+      '(and who for, under a delegation) and the values before and after. ' +
+      'Available to anyone who can view the trip.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to get the history for'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      tripId: z.string().optional(),
+      events: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getTripHistory(args: { tripId: string }): Promise<TripHistoryResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(getTripHistoryArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check view permission (line managers can see their reports' trips, delegates what they cover)
+      const owner = await db.getUserById(trip.user_id);
+      const permission = canViewTrip(
+        ctx,
+        trip.user_id,
+        owner?.manager_id ?? null,
+        await getActiveDelegators(ctx.userId)
+      );
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const eventRows = await db.getAuditEventsForTrip(trip.id);
+
+      // Resolve each user name once
+      const names = new Map<string, string>();
+      const nameOf = async (userId: string): Promise<string> => {
+        if (!names.has(userId)) {
+          names.set(userId, (await db.getUserById(userId))?.name ?? 'Unknown');
+        }
+        return names.get(userId)!;
+      };
+
+      const events: AuditEventDTO[] = [];
+      for (const row of eventRows) {
+        events.push(
+          auditEventRowToDTO(
+            row,
+            await nameOf(row.actor_user_id),
+            row.on_behalf_of_user_id ? await nameOf(row.on_behalf_of_user_id) : null
+          )
+        );
+      }
+
+      return {
+        success: true,
+        tripId: trip.id,
+        events,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error fetching trip history',
+          hint: String(err),
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,1274 @@
+/**
+ * Finance Tools
+ *
+ * Tools for finance managers and admins: delegating review authority,
+ * policy history, analytics, department budgets, reimbursements and
+ * accounting exports.
+ */
+
+import 'reflect-metadata';
+import { DaemoFunction } from 'daemo-engine';
+import { z } from 'zod';
+import {
+  PolicyVersionDTO,
+  PolicyHistoryResult,
+  ViolationAnalyticsResult,
+  SpendAnalyticsResult,
+  AnalyticsBreakdownItem,
+  DelegateApprovalsResult,
+  RevokeApprovalDelegationResult,
+  BudgetStatusResult,
+  ListReimbursementsResult,
+  CreatePaymentBatchResult,
+  ExportPaymentBatchResult,
+  MarkPaymentBatchPaidResult,
+  PaymentBatchDTO,
+  ExportApprovedTripsResult,
+} from '../../types/dto';
+import type {
+  GlAccountPurpose,
+  GlAccountRow,
+  PaymentBatchRow,
+  ReimbursementStatus,
+  UserRow,
+} from '../../types/domain';
+
+// Utilities
+import { getSessionContext } from '../../utils/context';
+import {
+  canDelegateApprovals,
+  canRevokeDelegation,
+  canViewAnalytics,
+  canViewPolicyHistory,
+  canViewBudgets,
+  canManageReimbursements,
+  canExportAccounting,
+} from '../../utils/rbac';
+import {
+  validateArgs,
+  getPolicyHistoryArgsSchema,
+  violationAnalyticsArgsSchema,
+  spendAnalyticsArgsSchema,
+  delegateApprovalsArgsSchema,
+  revokeApprovalDelegationArgsSchema,
+  getBudgetStatusArgsSchema,
+  listReimbursementsArgsSchema,
+  createPaymentBatchArgsSchema,
+  exportPaymentBatchArgsSchema,
+  markPaymentBatchPaidArgsSchema,
+  exportApprovedTripsArgsSchema,
+} from '../../utils/validation';
+import { centsToDecimal, formatCents, getReportingCurrency, sumCents } from '../../utils/money';
+import { toCsv } from '../../utils/csv';
+import { recordAuditEvent } from '../audit';
+import { getDepartmentBudgetStatuses } from '../budgets';
+import { listReimbursements, nextBatchReference } from '../reimbursements';
+import {
+  buildItemsCsv,
+  buildJournal,
+  buildJournalCsv,
+  missingGlAccounts,
+  nextExportReference,
+  toExportableTrip,
+  type ExportableTrip,
+} from '../accountingExport';
+
+// Database
+import * as db from '../../db/queries';
+
+// Shared by the tool sets
+import {
+  policyRowToDTO,
+  diffPolicies,
+  approvalDelegationRowToDTO,
+  budgetStatusToDTO,
+  reimbursementToDTO,
+  paymentBatchToDTO,
+  accountingExportRowToDTO,
+} from './mappers';
+
+/** Columns of an exported payment file */
+const PAYMENT_FILE_HEADERS = [
+  'batch_reference',
+  'payment_id',
+  'employee_id',
+  'employee_name',
+  'department',
+  'trip_id',
+  'amount',
+  'currency',
+];
+
+/**
+ * A batch with its payments and the employees being paid.
+ */
+async function loadPaymentBatch(
+  batch: PaymentBatchRow
+): Promise<{ dto: PaymentBatchDTO; users: Map<string, UserRow> }> {
+  const payments = await db.getReimbursementPaymentsForBatch(batch.id);
+  const users = new Map<string, UserRow>();
+  for (const userId of new Set(payments.map((p) => p.user_id))) {
+    const user = await db.getUserById(userId);
+    if (user) users.set(userId, user);
+  }
+  return { dto: paymentBatchToDTO(batch, payments, users), users };
+}
+
+export class FinanceTools {
+  @DaemoFunction({
+    description:
+      'Delegate the current user\'s review authority to another user for a date range, e.g. while on vacation. ' +
+      'The delegate can list and decide trips at the stages the current user can act at, and each decision ' +
+      'records who it was made on behalf of. Only finance managers and admins can delegate.',
+    inputSchema: z.object({
+      delegateUserId: z.string().describe('User ID of the colleague who will cover'),
+      startDate: z.string().describe('First day of cover (YYYY-MM-DD)'),
+      endDate: z.string().describe('Last day of cover (YYYY-MM-DD)'),
+      note: z.string().optional().describe('Optional note, e.g. "Annual leave"'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      delegation: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async delegateApprovals(args: {
+    delegateUserId: string;
+    startDate: string;
+    endDate: string;
+    note?: string;
+  }): Promise<DelegateApprovalsResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(delegateApprovalsArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canDelegateApprovals(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      if (validation.data.delegateUserId === ctx.userId) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'You cannot delegate to yourself',
+            details: [{ path: 'delegateUserId', message: 'Choose a colleague to cover for you' }],
+          },
+        };
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      if (validation.data.endDate < today) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `End date ${validation.data.endDate} is in the past`,
+            details: [{ path: 'endDate', message: 'End date must be today or later' }],
+          },
+        };
+      }
+
+      const delegator = await db.getUserById(ctx.userId);
+      const delegate = await db.getUserById(validation.data.delegateUserId);
+      if (!delegator || !delegate) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `User ${delegator ? validation.data.delegateUserId : ctx.userId} not found`,
+          },
+        };
+      }
+
+      if (delegate.deactivated_at) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `${delegate.name} has been deactivated and cannot review on your behalf`,
+          },
+        };
+      }
+
+      const delegationRow = await db.createApprovalDelegation({
+        delegatorUserId: ctx.userId,
+        delegateUserId: delegate.id,
+        startDate: validation.data.startDate,
+        endDate: validation.data.endDate,
+        note: validation.data.note,
+      });
+      if (!delegationRow) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to create delegation',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        action: 'delegation.created',
+        entityType: 'delegation',
+        entityId: delegationRow.id,
+        after: {
+          delegate_user_id: delegationRow.delegate_user_id,
+          start_date: delegationRow.start_date,
+          end_date: delegationRow.end_date,
+          note: delegationRow.note,
+        },
+      });
+
+      return {
+        success: true,
+        delegation: approvalDelegationRowToDTO(delegationRow, delegator, delegate, today),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error creating delegation',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Revoke an approval delegation, e.g. on returning early. ' +
+      'Only the reviewer who granted it or an admin can revoke it.',
+    inputSchema: z.object({
+      delegationId: z.string().describe('Delegation ID to revoke'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      delegation: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async revokeApprovalDelegation(args: {
+    delegationId: string;
+  }): Promise<RevokeApprovalDelegationResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(revokeApprovalDelegationArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      const delegation = await db.getApprovalDelegationById(validation.data.delegationId);
+      if (!delegation) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Delegation ${validation.data.delegationId} not found`,
+          },
+        };
+      }
+
+      // Check permission
+      const permission = canRevokeDelegation(ctx, delegation);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const revoked = await db.revokeApprovalDelegation(delegation.id);
+      if (!revoked) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to revoke delegation',
+          },
+        };
+      }
+
+      const updated = (await db.getApprovalDelegationById(delegation.id)) ?? delegation;
+      await recordAuditEvent(ctx, {
+        action: 'delegation.revoked',
+        entityType: 'delegation',
+        entityId: delegation.id,
+        before: { revoked_at: null },
+        after: { revoked_at: updated.revoked_at },
+      });
+
+      const delegator = await db.getUserById(updated.delegator_user_id);
+      const delegate = await db.getUserById(updated.delegate_user_id);
+
+      return {
+        success: true,
+        delegation: approvalDelegationRowToDTO(
+          updated,
+          delegator,
+          delegate,
+          new Date().toISOString().slice(0, 10)
+        ),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error revoking delegation',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'List every travel policy version with its effective date and the rule changes it introduced. ' +
+      'Pass a tripId to also see which version that trip was evaluated under. ' +
+      'Only finance managers and admins can view policy history.',
+    inputSchema: z.object({
+      tripId: z.string().optional().describe('Optional trip ID to find the policy version it was evaluated under'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      versions: z.array(z.any()).optional(),
+      currentVersion: z.number().optional(),
+      tripPolicyVersion: z.number().nullable().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getPolicyHistory(args?: { tripId?: string }): Promise<PolicyHistoryResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(getPolicyHistoryArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canViewPolicyHistory(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const tripId = validation.data?.tripId;
+      let tripPolicyVersion: number | null | undefined;
+      if (tripId) {
+        const trip = await db.getTripById(tripId);
+        if (!trip) {
+          return {
+            success: false,
+            error: {
+              code: 'NOT_FOUND',
+              message: `Trip ${tripId} not found`,
+            },
+          };
+        }
+        const tripPolicy = trip.policy_id ? await db.getPolicyById(trip.policy_id) : null;
+        tripPolicyVersion = tripPolicy?.version ?? null;
+      }
+
+      const policyRows = await db.getPolicyVersions();
+      const current = await db.getActivePolicy();
+
+      const versions: PolicyVersionDTO[] = policyRows.map((row, index) => {
+        const policy = policyRowToDTO(row);
+        const previous = index > 0 ? policyRowToDTO(policyRows[index - 1]) : null;
+        const next = policyRows[index + 1];
+        return {
+          policy,
+          supersededOn: next ? next.effective_from : null,
+          isCurrent: current?.id === row.id,
+          changes: previous ? diffPolicies(previous, policy) : [],
+        };
+      });
+
+      return {
+        success: true,
+        versions,
+        currentVersion: current?.version,
+        tripPolicyVersion,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error fetching policy history',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Get violation analytics for a date range. Group by "type" (violation code) ' +
+      'or "department". Only finance managers and admins can view analytics.',
+    inputSchema: z.object({
+      startDate: z.string().describe('Start date (YYYY-MM-DD)'),
+      endDate: z.string().describe('End date (YYYY-MM-DD)'),
+      groupBy: z.enum(['type', 'department']).describe('Group violations by type or department'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      summary: z.any().optional(),
+      breakdown: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getViolationAnalytics(args: {
+    startDate: string;
+    endDate: string;
+    groupBy: 'type' | 'department';
+  }): Promise<ViolationAnalyticsResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(violationAnalyticsArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canViewAnalytics(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Get violations in date range
+      const violations = await db.getViolationsInDateRange(
+        validation.data.startDate,
+        validation.data.endDate
+      );
+
+      // Build summary
+      const blockerCount = violations.filter((v) => v.severity === 'blocker').length;
+      const warningCount = violations.filter((v) => v.severity === 'warning').length;
+
+      // Group by requested dimension
+      const grouped = new Map<string, { count: number; totalCents: number }>();
+
+      for (const v of violations) {
+        const key =
+          validation.data.groupBy === 'type'
+            ? v.code
+            : v.trip.user.department;
+
+        const current = grouped.get(key) || { count: 0, totalCents: 0 };
+        current.count += 1;
+        current.totalCents += v.computed_value_cents || 0;
+        grouped.set(key, current);
+      }
+
+      const breakdown: AnalyticsBreakdownItem[] = Array.from(grouped.entries()).map(
+        ([groupKey, data]) => ({
+          groupKey,
+          count: data.count,
+          totalCents: data.totalCents,
+        })
+      );
+
+      return {
+        success: true,
+        summary: {
+          totalViolations: violations.length,
+          blockerCount,
+          warningCount,
+          dateRange: {
+            start: validation.data.startDate,
+            end: validation.data.endDate,
+          },
+        },
+        breakdown,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error computing violation analytics',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Get spend analytics for a date range. Group by "department" or "employee". ' +
+      'Amounts are converted to the reporting currency. ' +
+      'Only finance managers and admins can view analytics.',
+    inputSchema: z.object({
+      startDate: z.string().describe('Start date (YYYY-MM-DD)'),
+      endDate: z.string().describe('End date (YYYY-MM-DD)'),
+      groupBy: z.enum(['department', 'employee']).describe('Group spend by department or employee'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      summary: z.any().optional(),
+      breakdown: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getSpendAnalytics(args: {
+    startDate: string;
+    endDate: string;
+    groupBy: 'department' | 'employee';
+  }): Promise<SpendAnalyticsResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(spendAnalyticsArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canViewAnalytics(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Get trips in date range with items (cancelled trips are not spend)
+      const trips = (
+        await db.getTripsInDateRange(validation.data.startDate, validation.data.endDate)
+      ).filter((t) => t.status !== 'cancelled');
+
+      // Calculate totals
+      let totalSpendCents = 0;
+      const grouped = new Map<string, { count: number; totalCents: number }>();
+
+      for (const trip of trips) {
+        const tripTotal = sumCents(trip.items.map((i) => i.reporting_amount_cents));
+        totalSpendCents += tripTotal;
+
+        const key =
+          validation.data.groupBy === 'department'
+            ? trip.user.department
+            : trip.user.name;
+
+        const current = grouped.get(key) || { count: 0, totalCents: 0 };
+        current.count += 1;
+        current.totalCents += tripTotal;
+        grouped.set(key, current);
+      }
+
+      const breakdown: AnalyticsBreakdownItem[] = Array.from(grouped.entries()).map(
+        ([groupKey, data]) => ({
+          groupKey,
+          count: data.count,
+          totalCents: data.totalCents,
+        })
+      );
+
+      return {
+        success: true,
+        summary: {
+          totalSpendCents,
+          tripCount: trips.length,
+          averagePerTripCents: trips.length > 0 ? Math.round(totalSpendCents / trips.length) : 0,
+          reportingCurrency: getReportingCurrency(),
+          dateRange: {
+            start: validation.data.startDate,
+            end: validation.data.endDate,
+          },
+        },
+        breakdown,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error computing spend analytics',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Show each department\'s travel budget for the fiscal period that includes a date (today by default): ' +
+      'the budget, approved and pending trip totals, and what remains. Trips count against their owner\'s ' +
+      'department for the period they start in. Only finance managers and admins can view budgets.',
+    inputSchema: z.object({
+      department: z.string().optional().describe('Only this department'),
+      onDate: z.string().optional().describe('Report the fiscal period that includes this date (YYYY-MM-DD, default today)'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      onDate: z.string().optional(),
+      reportingCurrency: z.string().optional(),
+      budgets: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getBudgetStatus(args?: { department?: string; onDate?: string }): Promise<BudgetStatusResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(getBudgetStatusArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canViewBudgets(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const department = validation.data?.department;
+      const onDate = validation.data?.onDate ?? new Date().toISOString().slice(0, 10);
+      const statuses = await getDepartmentBudgetStatuses(onDate, department);
+      if (department && statuses.length === 0) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `No budget for ${department} covers ${onDate}`,
+            hint: 'Budgets are set per department and fiscal period in the department_budgets table',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        onDate,
+        reportingCurrency: getReportingCurrency(),
+        budgets: statuses.map(budgetStatusToDTO),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error loading budget status',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'List approved trips with what is owed to each employee: the reimbursable amount (approved items, or ' +
+      'the actual expenses once the expense report is accepted, excluding anything billed directly to the ' +
+      'company), what has been paid and scheduled in payment batches, and the payout status. ' +
+      'Only finance managers and admins can view reimbursements.',
+    inputSchema: z.object({
+      status: z.enum(['unpaid', 'partially_paid', 'paid']).optional().describe('Only trips with this payout status'),
+      department: z.string().optional().describe('Only trips from this department'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      reimbursements: z.array(z.any()).optional(),
+      count: z.number().optional(),
+      totalOutstandingCents: z.number().optional(),
+      reportingCurrency: z.string().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async listReimbursements(args?: {
+    status?: ReimbursementStatus;
+    department?: string;
+  }): Promise<ListReimbursementsResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(listReimbursementsArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageReimbursements(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const status = validation.data?.status;
+      const department = validation.data?.department?.toLowerCase();
+      const positions = (await listReimbursements()).filter(
+        (p) =>
+          (!status || p.status === status) &&
+          (!department || p.user.department.toLowerCase() === department)
+      );
+
+      return {
+        success: true,
+        reimbursements: positions.map(reimbursementToDTO),
+        count: positions.length,
+        totalOutstandingCents: sumCents(positions.map((p) => p.outstandingCents)),
+        reportingCurrency: getReportingCurrency(),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error listing reimbursements',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Create a draft payment batch reimbursing approved trips. Without payments, the batch pays the full ' +
+      'outstanding amount of every approved trip that has one. Otherwise list the trips to pay, each with an ' +
+      'optional partial amount in cents (default: the full outstanding amount). Finance managers cannot pay ' +
+      'their own trips; another finance manager or admin must. Only finance managers and admins can create batches.',
+    inputSchema: z.object({
+      payments: z
+        .array(
+          z.object({
+            tripId: z.string().describe('Approved trip to reimburse'),
+            amountCents: z.number().optional().describe('Amount to pay in cents (default: all that is outstanding)'),
+          })
+        )
+        .optional()
+        .describe('Trips to pay (default: every trip with an outstanding amount)'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      batch: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async createPaymentBatch(args?: {
+    payments?: Array<{ tripId: string; amountCents?: number }>;
+  }): Promise<CreatePaymentBatchResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(createPaymentBatchArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageReimbursements(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const positions = await listReimbursements();
+      const planned: Array<{ tripId: string; userId: string; amountCents: number }> = [];
+
+      const requested = validation.data?.payments;
+      if (requested) {
+        const byTrip = new Map(positions.map((p) => [p.trip.id, p]));
+        for (const [index, payment] of requested.entries()) {
+          const position = byTrip.get(payment.tripId);
+          if (!position) {
+            const trip = await db.getTripById(payment.tripId);
+            return {
+              success: false,
+              error: trip
+                ? {
+                    code: 'INVALID_STATE',
+                    message: `Trip ${payment.tripId} is '${trip.status}'; only approved trips are reimbursed`,
+                  }
+                : { code: 'NOT_FOUND', message: `Trip ${payment.tripId} not found` },
+            };
+          }
+
+          if (position.user.id === ctx.userId) {
+            return {
+              success: false,
+              error: {
+                code: 'FORBIDDEN',
+                message: 'You cannot pay your own reimbursement',
+                hint: 'Ask another finance manager or an admin to include this trip in a batch',
+              },
+            };
+          }
+
+          if (position.outstandingCents === 0) {
+            return {
+              success: false,
+              error: {
+                code: 'INVALID_STATE',
+                message: `Nothing is outstanding on trip ${payment.tripId}`,
+                hint: `Paid ${formatCents(position.paidCents)}, scheduled ${formatCents(position.scheduledCents)} of ${formatCents(position.reimbursableCents)}`,
+              },
+            };
+          }
+
+          const amountCents = payment.amountCents ?? position.outstandingCents;
+          if (amountCents > position.outstandingCents) {
+            return {
+              success: false,
+              error: {
+                code: 'VALIDATION_ERROR',
+                message: `Amount exceeds the ${formatCents(position.outstandingCents)} outstanding on trip ${payment.tripId}`,
+                details: [
+                  {
+                    path: `payments.${index}.amountCents`,
+                    message: `Must be at most ${position.outstandingCents} cents`,
+                  },
+                ],
+              },
+            };
+          }
+
+          planned.push({ tripId: position.trip.id, userId: position.user.id, amountCents });
+        }
+      } else {
+        for (const position of positions) {
+          if (position.outstandingCents === 0 || position.user.id === ctx.userId) continue;
+          planned.push({
+            tripId: position.trip.id,
+            userId: position.user.id,
+            amountCents: position.outstandingCents,
+          });
+        }
+        if (planned.length === 0) {
+          return {
+            success: false,
+            error: {
+              code: 'INVALID_STATE',
+              message: 'No approved trips have an outstanding reimbursement',
+            },
+          };
+        }
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const batch = await db.createPaymentBatch({
+        reference: nextBatchReference(await db.getPaymentBatches(), today),
+        createdByUserId: ctx.userId,
+      });
+      if (!batch) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to create payment batch',
+          },
+        };
+      }
+
+      for (const payment of planned) {
+        const created = await db.createReimbursementPayment({ batchId: batch.id, ...payment });
+        if (!created) {
+          return {
+            success: false,
+            error: {
+              code: 'INTERNAL_ERROR',
+              message: `Failed to add trip ${payment.tripId} to payment batch ${batch.reference}`,
+            },
+          };
+        }
+      }
+
+      await recordAuditEvent(ctx, {
+        action: 'payment_batch.created',
+        entityType: 'payment_batch',
+        entityId: batch.id,
+        after: {
+          reference: batch.reference,
+          payment_count: planned.length,
+          total_cents: sumCents(planned.map((p) => p.amountCents)),
+          trip_ids: planned.map((p) => p.tripId),
+        },
+      });
+
+      return {
+        success: true,
+        batch: (await loadPaymentBatch(batch)).dto,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error creating payment batch',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Export a payment batch as a CSV payment file (one row per payment) for the bank, and mark a draft ' +
+      'batch exported. An exported batch can be exported again to get the same file; a paid batch cannot. ' +
+      'Only finance managers and admins can export batches.',
+    inputSchema: z.object({
+      batchId: z.string().describe('Payment batch ID to export'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      batch: z.any().optional(),
+      fileName: z.string().optional(),
+      contentType: z.string().optional(),
+      content: z.string().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async exportPaymentBatch(args: { batchId: string }): Promise<ExportPaymentBatchResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(exportPaymentBatchArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageReimbursements(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      let batch = await db.getPaymentBatchById(validation.data.batchId);
+      if (!batch) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Payment batch ${validation.data.batchId} not found`,
+          },
+        };
+      }
+
+      if (batch.status === 'paid') {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `Payment batch ${batch.reference} has already been paid`,
+          },
+        };
+      }
+
+      if (batch.status === 'draft') {
+        const exported = await db.updatePaymentBatchStatus(batch.id, 'exported');
+        if (!exported) {
+          return {
+            success: false,
+            error: {
+              code: 'INTERNAL_ERROR',
+              message: `Failed to mark payment batch ${batch.reference} exported`,
+            },
+          };
+        }
+        batch = exported;
+
+        await recordAuditEvent(ctx, {
+          action: 'payment_batch.exported',
+          entityType: 'payment_batch',
+          entityId: batch.id,
+          before: { status: 'draft' },
+          after: { reference: batch.reference, status: batch.status },
+        });
+      }
+
+      const { dto, users } = await loadPaymentBatch(batch);
+      const currency = getReportingCurrency();
+      const content = toCsv(
+        PAYMENT_FILE_HEADERS,
+        dto.payments.map((p) => [
+          dto.reference,
+          p.id,
+          p.userId,
+          p.employeeName,
+          users.get(p.userId)?.department,
+          p.tripId,
+          centsToDecimal(p.amountCents),
+          currency,
+        ])
+      );
+
+      return {
+        success: true,
+        batch: dto,
+        fileName: `${dto.reference}.csv`,
+        contentType: 'text/csv',
+        content,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error exporting payment batch',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Mark an exported payment batch paid once the bank has made the payments. Its payments then count as ' +
+      'paid on each trip. Only finance managers and admins can mark batches paid.',
+    inputSchema: z.object({
+      batchId: z.string().describe('Payment batch ID that was paid'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      batch: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async markPaymentBatchPaid(args: { batchId: string }): Promise<MarkPaymentBatchPaidResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(markPaymentBatchPaidArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canManageReimbursements(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const batch = await db.getPaymentBatchById(validation.data.batchId);
+      if (!batch) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Payment batch ${validation.data.batchId} not found`,
+          },
+        };
+      }
+
+      if (batch.status !== 'exported') {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message:
+              batch.status === 'paid'
+                ? `Payment batch ${batch.reference} is already paid`
+                : `Payment batch ${batch.reference} has not been exported yet`,
+            hint: batch.status === 'draft' ? 'Export the batch with exportPaymentBatch first' : undefined,
+          },
+        };
+      }
+
+      const paid = await db.updatePaymentBatchStatus(batch.id, 'paid');
+      if (!paid) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: `Failed to mark payment batch ${batch.reference} paid`,
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        action: 'payment_batch.paid',
+        entityType: 'payment_batch',
+        entityId: paid.id,
+        before: { status: batch.status },
+        after: { reference: paid.reference, status: paid.status },
+      });
+
+      return {
+        success: true,
+        batch: (await loadPaymentBatch(paid)).dto,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error marking payment batch paid',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Export approved and approved_exception trips starting in a date range to the general ledger. Returns ' +
+      'a CSV with one row per posted amount and a double-entry journal with one balanced entry per trip: each item ' +
+      'type is debited to its GL expense account with the owner\'s department as cost center, and credited to ' +
+      'employee reimbursements payable (or direct-billing payable for company-paid amounts). A trip is posted on ' +
+      'its actual expenses when its expense report is reconciled or approved, or on its approved items when the ' +
+      'overrun was rejected; trips with no expense report yet, or one still draft or in review, are left out ' +
+      'until it is settled. Trips already included in an earlier export are left out, so running the same ' +
+      'range again never exports a trip twice. ' +
+      'Only finance managers and admins can export.',
+    inputSchema: z.object({
+      startDate: z.string().describe('First trip start date to include (YYYY-MM-DD)'),
+      endDate: z.string().describe('Last trip start date to include (YYYY-MM-DD)'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      export: z.any().optional(),
+      csv: z.any().optional(),
+      journal: z.any().optional(),
+      alreadyExportedCount: z.number().optional(),
+      unsettledExpenseReportCount: z.number().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async exportApprovedTrips(args: {
+    startDate: string;
+    endDate: string;
+  }): Promise<ExportApprovedTripsResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(exportApprovedTripsArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Check permission
+      const permission = canExportAccounting(ctx);
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      const accountRows = await db.getGlAccounts();
+      const missing = missingGlAccounts(accountRows);
+      if (missing.length > 0) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `No general-ledger account is configured for: ${missing.join(', ')}`,
+            hint: 'Add a row per purpose to the gl_accounts table',
+          },
+        };
+      }
+      const accounts = new Map<GlAccountPurpose, GlAccountRow>(accountRows.map((a) => [a.purpose, a]));
+
+      // Approved trips with something to post, oldest first
+      const { startDate, endDate } = validation.data;
+      const approved = (await db.getTripsInDateRange(startDate, endDate))
+        .filter(
+          (t) => (t.status === 'approved' || t.status === 'approved_exception') && t.items.length > 0
+        )
+        .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.id.localeCompare(b.id));
+
+      const exported = new Set(await db.getExportedTripIds(approved.map((t) => t.id)));
+
+      // Post what the trip is reimbursed on, once its expense report is settled
+      const trips: ExportableTrip[] = [];
+      let unsettledExpenseReportCount = 0;
+      for (const trip of approved.filter((t) => !exported.has(t.id))) {
+        const report = await db.getExpenseReportForTrip(trip.id);
+        const actuals = report ? await db.getActualExpensesForTrip(trip.id) : [];
+        const exportable = toExportableTrip(trip, report, actuals);
+        if (exportable) {
+          trips.push(exportable);
+        } else {
+          unsettledExpenseReportCount++;
+        }
+      }
+
+      if (trips.length === 0) {
+        let message = `No approved trips start between ${startDate} and ${endDate}`;
+        if (unsettledExpenseReportCount > 0) {
+          message = `${unsettledExpenseReportCount} approved trip(s) starting ${startDate} to ${endDate} have no settled expense report yet`;
+        } else if (approved.length > 0) {
+          message = `All ${approved.length} approved trip(s) starting ${startDate} to ${endDate} have already been exported`;
+        }
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message,
+            hint: unsettledExpenseReportCount > 0 ? 'Export again once the expense reports are filed and settled' : undefined,
+          },
+        };
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const reference = nextExportReference(await db.getAccountingExports(), today);
+      const exportRow = await db.createAccountingExport({
+        reference,
+        startDate,
+        endDate,
+        totalCents: sumCents(trips.flatMap((t) => t.postings.map((p) => p.reporting_amount_cents))),
+        createdByUserId: ctx.userId,
+        tripIds: trips.map((t) => t.id),
+      });
+      if (!exportRow) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to record accounting export',
+            hint: 'Another export may have included some of these trips at the same time; try again',
+          },
+        };
+      }
+
+      await recordAuditEvent(ctx, {
+        action: 'accounting_export.created',
+        entityType: 'accounting_export',
+        entityId: exportRow.id,
+        after: {
+          reference: exportRow.reference,
+          start_date: exportRow.start_date,
+          end_date: exportRow.end_date,
+          trip_count: exportRow.trip_count,
+          total_cents: exportRow.total_cents,
+          trip_ids: trips.map((t) => t.id),
+        },
+      });
+
+      const currency = getReportingCurrency();
+      return {
+        success: true,
+        export: accountingExportRowToDTO(exportRow, trips.map((t) => t.id)),
+        csv: {
+          fileName: `${reference}.csv`,
+          contentType: 'text/csv',
+          content: buildItemsCsv(reference, trips, accounts, currency),
+        },
+        journal: {
+          fileName: `${reference}-journal.csv`,
+          contentType: 'text/csv',
+          content: buildJournalCsv(buildJournal(reference, trips, accounts), currency),
+        },
+        alreadyExportedCount: exported.size,
+        unsettledExpenseReportCount,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error exporting approved trips',
+          hint: String(err),
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Tool Helpers
+ *
+ * Logic shared by several tool sets: receipt status, item creation with
+ * currency conversion, item change history and policy evaluation.
+ */
+
+// Types
+import type {
+  ActualExpenseRow,
+  ItemType,
+  ReceiptRow,
+  TravelPolicyRow,
+  TripRow,
+  TripItemRow,
+  StructuredError,
+  SessionContext,
+} from '../../types/domain';
+import {
+  TripItemDTO,
+  ViolationDTO,
+  PolicySnapshotDTO,
+} from '../../types/dto';
+import { getReportingCurrency, sumCents } from '../../utils/money';
+import { resolveFxRate, getItemExpenseDate } from '../currency';
+import { recordAuditEvent } from '../audit';
+import { evaluateTripPolicy } from '../../policy/engine';
+import { getReceiptStatus } from '../../policy/rules/missingReceipt';
+
+// Database
+import * as db from '../../db/queries';
+
+// Mappers
+import {
+  tripItemRowToDTO,
+  violationRowToDTO,
+  policyRowToDTO,
+} from './mappers';
+
+// =============================================================================
+// HELPER: Receipt status
+// =============================================================================
+
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024; // 10 MB
+
+export function itemsWithReceiptStatus(
+  items: TripItemRow[],
+  receipts: ReceiptRow[],
+  receiptRequiredOverCents: number
+): TripItemDTO[] {
+  return items.map((item) => {
+    const receiptCount = receipts.filter((r) => r.trip_item_id === item.id).length;
+    return {
+      ...tripItemRowToDTO(item),
+      receiptStatus: getReceiptStatus(item, receiptCount, receiptRequiredOverCents),
+      receiptCount,
+    };
+  });
+}
+
+// =============================================================================
+// HELPER: Item creation with FX conversion
+// =============================================================================
+
+export interface TripItemFields {
+  type: ItemType;
+  description: string;
+  amountCents: number;
+  currency?: string;
+  meta: Record<string, unknown>;
+  companyPaid: boolean;
+}
+
+/**
+ * Lock in the exchange rate for an item's currency on its expense date.
+ */
+export async function resolveItemFx(
+  trip: TripRow,
+  fields: TripItemFields
+): Promise<
+  | { currency: string; fxRate: number; fxRateDate: string | null }
+  | { error: StructuredError }
+> {
+  const expenseDate = getItemExpenseDate(fields.meta, trip.start_date);
+  return resolveExpenseFx(fields.currency, expenseDate);
+}
+
+/**
+ * Exchange rate for an amount in a currency (reporting currency if omitted)
+ * spent on a date.
+ */
+export async function resolveExpenseFx(
+  requestedCurrency: string | undefined,
+  expenseDate: string
+): Promise<
+  | { currency: string; fxRate: number; fxRateDate: string | null }
+  | { error: StructuredError }
+> {
+  const currency = requestedCurrency ?? getReportingCurrency();
+  const fx = await resolveFxRate(currency, expenseDate);
+  if (!fx) {
+    return {
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `No exchange rate from ${currency} to ${getReportingCurrency()} on or before ${expenseDate}`,
+        details: [{ path: 'currency', message: 'Unsupported currency for this date' }],
+        hint: 'Use a currency with a published exchange rate, or record the amount in the reporting currency',
+      },
+    };
+  }
+
+  return { currency, fxRate: fx.rate, fxRateDate: fx.rateDate };
+}
+
+export async function createItemWithFx(
+  ctx: SessionContext,
+  trip: TripRow,
+  params: TripItemFields
+): Promise<{ item: TripItemRow } | { error: StructuredError }> {
+  const fx = await resolveItemFx(trip, params);
+  if ('error' in fx) {
+    return { error: fx.error };
+  }
+
+  const itemRow = await db.createTripItem({
+    tripId: trip.id,
+    type: params.type,
+    description: params.description,
+    amountCents: params.amountCents,
+    currency: fx.currency,
+    fxRate: fx.fxRate,
+    fxRateDate: fx.fxRateDate,
+    meta: params.meta,
+    companyPaid: params.companyPaid,
+  });
+
+  if (!itemRow) {
+    return {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to create trip item',
+      },
+    };
+  }
+
+  await recordAuditEvent(ctx, {
+    tripId: trip.id,
+    action: 'trip_item.added',
+    entityType: 'trip_item',
+    entityId: itemRow.id,
+    after: tripItemSnapshot(itemRow),
+  });
+
+  return { item: itemRow };
+}
+
+// =============================================================================
+// HELPER: Trip item change history
+// =============================================================================
+
+/** Item columns recorded in the change history */
+export const TRIP_ITEM_HISTORY_FIELDS = [
+  'type',
+  'description',
+  'amount_cents',
+  'currency',
+  'fx_rate',
+  'fx_rate_date',
+  'reporting_amount_cents',
+  'meta',
+  'company_paid',
+] as const;
+
+export function tripItemSnapshot(item: TripItemRow): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of TRIP_ITEM_HISTORY_FIELDS) {
+    snapshot[field] = item[field];
+  }
+  return snapshot;
+}
+
+export function diffTripItems(
+  previous: TripItemRow,
+  next: TripItemRow
+): { previousValues: Record<string, unknown>; newValues: Record<string, unknown> } {
+  const previousValues: Record<string, unknown> = {};
+  const newValues: Record<string, unknown> = {};
+  for (const field of TRIP_ITEM_HISTORY_FIELDS) {
+    // JSON comparison covers meta and NUMERIC values returned as strings
+    if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      previousValues[field] = previous[field];
+      newValues[field] = next[field];
+    }
+  }
+  return { previousValues, newValues };
+}
+
+/** Actual expense columns recorded in the audit trail */
+const ACTUAL_EXPENSE_AUDIT_FIELDS = [
+  'type',
+  'description',
+  'amount_cents',
+  'currency',
+  'reporting_amount_cents',
+  'expense_date',
+  'company_paid',
+] as const;
+
+export function actualExpenseSnapshot(expense: ActualExpenseRow): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of ACTUAL_EXPENSE_AUDIT_FIELDS) {
+    snapshot[field] = expense[field];
+  }
+  return snapshot;
+}
+
+// =============================================================================
+// POLICY EVALUATION (Deterministic)
+// =============================================================================
+
+export interface PolicyEvaluationResult {
+  violations: ViolationDTO[];
+  tripTotalCents: number;
+  policySnapshot: PolicySnapshotDTO;
+  hasBlockers: boolean;
+}
+
+export async function evaluatePolicyViolations(
+  tripId: string,
+  policyRow: TravelPolicyRow
+): Promise<PolicyEvaluationResult | null> {
+  const trip = await db.getTripById(tripId);
+  if (!trip) return null;
+
+  // Run the configured rule registry; violations are stored by the engine
+  const evaluation = await evaluateTripPolicy(trip, policyRow);
+  if (!evaluation) return null;
+
+  const violations = evaluation.violations.map(violationRowToDTO);
+  const tripTotalCents = sumCents(evaluation.context.items.map((i) => i.reporting_amount_cents));
+  const hasBlockers = violations.some((v) => v.severity === 'blocker');
+
+  return {
+    violations,
+    tripTotalCents,
+    policySnapshot: policyRowToDTO(evaluation.context.policy),
+    hasBlockers,
+  };
+}
@@ -0,0 +1,472 @@
+/**
+ * DTO Mappers
+ *
+ * Convert database rows and service results into the DTOs the tools return.
+ */
+
+// Types
+import type {
+  ApprovalRow,
+  ReviewCommentRow,
+  AuditEventRow,
+  TripRow,
+  ApprovalDelegationRow,
+  UserRow,
+  ActualExpenseRow,
+  TripItemRow,
+  PaymentBatchRow,
+  ReimbursementPaymentRow,
+  AccountingExportRow,
+} from '../../types/domain';
+import {
+  TripDTO,
+  TripItemDTO,
+  ViolationDTO,
+  ApprovalDTO,
+  ReviewCommentDTO,
+  ApprovalStageStatusDTO,
+  RequestedChangesDTO,
+  PolicySnapshotDTO,
+  PolicyChangeDTO,
+  AppliedPolicyOverrideDTO,
+  ReceiptDTO,
+  TripItemChangeDTO,
+  PreviewViolationDTO,
+  AuditEventDTO,
+  ApprovalDelegationDTO,
+  SeparationOfDutiesRuleDTO,
+  ChainIntegrityDTO,
+  UserDTO,
+  DepartmentBudgetStatusDTO,
+  ActualExpenseDTO,
+  ExpenseReportDTO,
+  PayoutDTO,
+  ReimbursementDTO,
+  PaymentBatchDTO,
+  AccountingExportDTO,
+} from '../../types/dto';
+import { getReportingCurrency, sumCents } from '../../utils/money';
+import type { AppliedOverride, OverridableField } from '../policyOverrides';
+import { describeStageApprover, type ApprovalProgress } from '../approvalChain';
+import type { ResolvedSeparationOfDutiesRule } from '../separationOfDuties';
+import { describeAuditEvent } from '../audit';
+import type { ChainIntegrity } from '../integrity';
+import type { DepartmentBudgetStatus } from '../budgets';
+import { reconcileExpenses, type ExpenseReportPosition } from '../expenseReports';
+import type { ReimbursementPosition } from '../reimbursements';
+import type { ViolationDraft } from '../../policy/types';
+
+export function tripRowToDTO(row: any): TripDTO {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    destinationCity: row.destination_city,
+    destinationCountry: row.destination_country ?? null,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    purpose: row.purpose,
+    status: row.status,
+    policyId: row.policy_id ?? null,
+    submittedAt: row.submitted_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function tripItemRowToDTO(row: any): TripItemDTO {
+  return {
+    id: row.id,
+    tripId: row.trip_id,
+    type: row.type,
+    description: row.description,
+    amountCents: row.amount_cents,
+    currency: row.currency,
+    fxRate: Number(row.fx_rate),
+    fxRateDate: row.fx_rate_date,
+    reportingAmountCents: row.reporting_amount_cents,
+    reportingCurrency: getReportingCurrency(),
+    meta: row.meta,
+    companyPaid: row.company_paid ?? false,
+    createdAt: row.created_at,
+  };
+}
+
+export function tripItemChangeRowToDTO(row: any): TripItemChangeDTO {
+  return {
+    id: row.id,
+    tripId: row.trip_id,
+    tripItemId: row.trip_item_id,
+    changeType: row.change_type,
+    previousValues: row.previous_values,
+    newValues: row.new_values ?? null,
+    changedByUserId: row.changed_by_user_id,
+    createdAt: row.created_at,
+  };
+}
+
+export function violationRowToDTO(row: any): ViolationDTO {
+  return {
+    id: row.id,
+    tripId: row.trip_id,
+    tripItemId: row.trip_item_id ?? null,
+    code: row.code,
+    severity: row.severity,
+    message: row.message,
+    computedValueCents: row.computed_value_cents,
+    policyValueCents: row.policy_value_cents,
+  };
+}
+
+export function violationDraftToPreviewDTO(draft: ViolationDraft): PreviewViolationDTO {
+  const { computedValueCents, policyValueCents } = draft;
+  const overByCents =
+    computedValueCents !== null && policyValueCents !== null
+      ? computedValueCents - policyValueCents
+      : null;
+
+  return {
+    code: draft.code,
+    severity: draft.severity,
+    message: draft.message,
+    tripItemId: draft.tripItemId,
+    computedValueCents,
+    policyValueCents,
+    overByCents,
+    // One decimal place, e.g. 12.5 (%)
+    overByPercent:
+      overByCents !== null && policyValueCents
+        ? Math.round((overByCents / policyValueCents) * 1000) / 10
+        : null,
+  };
+}
+
+export function reviewCommentRowToDTO(row: any): ReviewCommentDTO {
+  return {
+    id: row.id,
+    approvalId: row.approval_id,
+    tripItemId: row.trip_item_id ?? null,
+    violationCode: row.violation_code ?? null,
+    comment: row.comment,
+    createdAt: row.created_at,
+  };
+}
+
+/** comments may hold the whole trip's comments; only this decision's are kept */
+export function approvalRowToDTO(row: any, comments: ReviewCommentRow[] = []): ApprovalDTO {
+  return {
+    id: row.id,
+    tripId: row.trip_id,
+    reviewerUserId: row.reviewer_user_id,
+    onBehalfOfUserId: row.on_behalf_of_user_id ?? null,
+    decision: row.decision,
+    stage: row.stage ?? null,
+    reason: row.reason,
+    comments: comments.filter((c) => c.approval_id === row.id).map(reviewCommentRowToDTO),
+    createdAt: row.created_at,
+  };
+}
+
+export function approvalStagesToDTO(progress: ApprovalProgress): ApprovalStageStatusDTO[] {
+  return progress.stages.map(({ stage, approval }) => ({
+    key: stage.key,
+    name: stage.name,
+    approver: describeStageApprover(stage, progress.owner),
+    signedOff: approval !== null,
+    approvalId: approval?.id ?? null,
+    reviewerUserId: approval?.reviewer_user_id ?? null,
+  }));
+}
+
+/**
+ * The latest decision, if it sent the trip back for changes. A trip only
+ * has open requested changes while it is a draft waiting for resubmission.
+ */
+export function findOpenChangeRequest(trip: TripRow, approvals: ApprovalRow[]): ApprovalRow | null {
+  if (trip.status !== 'draft') return null;
+  const latest = approvals[approvals.length - 1];
+  return latest?.decision === 'changes_requested' ? latest : null;
+}
+
+export function requestedChangesToDTO(
+  approval: ApprovalRow,
+  comments: ReviewCommentRow[]
+): RequestedChangesDTO {
+  return {
+    approvalId: approval.id,
+    reviewerUserId: approval.reviewer_user_id,
+    reason: approval.reason,
+    comments: comments.filter((c) => c.approval_id === approval.id).map(reviewCommentRowToDTO),
+    requestedAt: approval.created_at,
+  };
+}
+
+export function policyRowToDTO(row: any): PolicySnapshotDTO {
+  return {
+    id: row.id,
+    version: row.version,
+    effectiveFrom: row.effective_from,
+    changeNote: row.change_note ?? null,
+    economyOnly: row.economy_only,
+    hotelNightlyCapCents: row.hotel_nightly_cap_cents,
+    mealDailyCapCents: row.meal_daily_cap_cents,
+    preapprovalOverCents: row.preapproval_over_cents,
+    receiptRequiredOverCents: row.receipt_required_over_cents,
+    businessClassMinFlightHours:
+      row.business_class_min_flight_hours === null || row.business_class_min_flight_hours === undefined
+        ? null
+        : Number(row.business_class_min_flight_hours),
+  };
+}
+
+/** DTO names of the overridable policy columns */
+export const POLICY_FIELD_NAMES: Record<OverridableField, keyof PolicySnapshotDTO> = {
+  economy_only: 'economyOnly',
+  hotel_nightly_cap_cents: 'hotelNightlyCapCents',
+  meal_daily_cap_cents: 'mealDailyCapCents',
+  preapproval_over_cents: 'preapprovalOverCents',
+  receipt_required_over_cents: 'receiptRequiredOverCents',
+  business_class_min_flight_hours: 'businessClassMinFlightHours',
+};
+
+export function appliedOverrideToDTO(applied: AppliedOverride): AppliedPolicyOverrideDTO {
+  return {
+    id: applied.override.id,
+    scope: applied.override.scope_type,
+    scopeValue: applied.override.scope_value,
+    label: applied.label,
+    fields: applied.fields.map((f) => POLICY_FIELD_NAMES[f]),
+    note: applied.override.note,
+  };
+}
+
+/** Policy fields compared between versions */
+export const POLICY_RULE_FIELDS = [
+  'economyOnly',
+  'hotelNightlyCapCents',
+  'mealDailyCapCents',
+  'preapprovalOverCents',
+  'receiptRequiredOverCents',
+  'businessClassMinFlightHours',
+] as const;
+
+export function diffPolicies(previous: PolicySnapshotDTO, next: PolicySnapshotDTO): PolicyChangeDTO[] {
+  const changes: PolicyChangeDTO[] = [];
+  for (const field of POLICY_RULE_FIELDS) {
+    if (previous[field] !== next[field]) {
+      changes.push({ field, previousValue: previous[field], newValue: next[field] });
+    }
+  }
+  return changes;
+}
+
+export function receiptRowToDTO(row: any): ReceiptDTO {
+  return {
+    id: row.id,
+    tripId: row.trip_id,
+    tripItemId: row.trip_item_id,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+    sha256: row.sha256,
+    uploadedByUserId: row.uploaded_by_user_id,
+    createdAt: row.created_at,
+  };
+}
+
+export function auditEventRowToDTO(
+  row: AuditEventRow,
+  actorName: string,
+  onBehalfOfName: string | null
+): AuditEventDTO {
+  return {
+    id: row.id,
+    action: row.action,
+    summary: describeAuditEvent(row),
+    actorUserId: row.actor_user_id,
+    actorName,
+    actorRole: row.actor_role,
+    onBehalfOfUserId: row.on_behalf_of_user_id,
+    onBehalfOfName,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    before: row.before,
+    after: row.after,
+    createdAt: row.created_at,
+  };
+}
+
+export function chainIntegrityToDTO(integrity: ChainIntegrity): ChainIntegrityDTO {
+  return {
+    chain: integrity.chain,
+    intact: integrity.breaks.length === 0,
+    recordCount: integrity.recordCount,
+    chainedCount: integrity.chainedCount,
+    unchainedCount: integrity.unchainedCount,
+    headHash: integrity.headHash,
+    breaks: integrity.breaks,
+  };
+}
+
+export function approvalDelegationRowToDTO(
+  row: ApprovalDelegationRow,
+  delegator: UserRow | null,
+  delegate: UserRow | null,
+  today: string
+): ApprovalDelegationDTO {
+  return {
+    id: row.id,
+    delegatorUserId: row.delegator_user_id,
+    delegatorName: delegator?.name ?? 'Unknown',
+    delegateUserId: row.delegate_user_id,
+    delegateName: delegate?.name ?? 'Unknown',
+    startDate: row.start_date,
+    endDate: row.end_date,
+    note: row.note,
+    active: row.revoked_at === null && row.start_date <= today && row.end_date >= today,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function separationOfDutiesRuleToDTO(
+  resolved: ResolvedSeparationOfDutiesRule
+): SeparationOfDutiesRuleDTO {
+  return {
+    rule: resolved.definition.rule,
+    description: resolved.definition.description,
+    enabled: resolved.enabled,
+    configurable: true,
+    updatedByUserId: resolved.config?.updated_by_user_id ?? null,
+    updatedAt: resolved.config?.updated_at ?? null,
+  };
+}
+
+export function userRowToDTO(row: UserRow): UserDTO {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    department: row.department,
+    managerId: row.manager_id,
+    active: !row.deactivated_at,
+    deactivatedAt: row.deactivated_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function budgetStatusToDTO(status: DepartmentBudgetStatus): DepartmentBudgetStatusDTO {
+  const { budget, approvedCents, pendingCents } = status;
+  const usedCents = approvedCents + pendingCents;
+  return {
+    department: budget.department,
+    fiscalPeriod: budget.fiscal_period,
+    periodStart: budget.period_start,
+    periodEnd: budget.period_end,
+    budgetCents: budget.budget_cents,
+    approvedCents,
+    pendingCents,
+    remainingCents: budget.budget_cents - usedCents,
+    // One decimal place, e.g. 82.4 (%)
+    percentUsed: budget.budget_cents > 0 ? Math.round((usedCents / budget.budget_cents) * 1000) / 10 : 0,
+    overBudget: usedCents > budget.budget_cents,
+    tripCount: status.tripCount,
+  };
+}
+
+export function actualExpenseRowToDTO(row: ActualExpenseRow): ActualExpenseDTO {
+  return {
+    id: row.id,
+    tripId: row.trip_id,
+    type: row.type,
+    description: row.description,
+    amountCents: row.amount_cents,
+    currency: row.currency,
+    fxRate: Number(row.fx_rate),
+    fxRateDate: row.fx_rate_date,
+    reportingAmountCents: row.reporting_amount_cents,
+    expenseDate: row.expense_date,
+    companyPaid: row.company_paid,
+    createdAt: row.created_at,
+  };
+}
+
+export function expenseReportToDTO(
+  position: ExpenseReportPosition,
+  items: TripItemRow[]
+): ExpenseReportDTO {
+  const { report, actuals } = position;
+  return {
+    id: report.id,
+    tripId: report.trip_id,
+    status: report.status,
+    submittedAt: report.submitted_at,
+    expenses: actuals.map(actualExpenseRowToDTO),
+    reconciliation: reconcileExpenses(items, actuals),
+    approvedTotalCents: sumCents(items.map((i) => i.reporting_amount_cents)),
+    actualTotalCents: sumCents(actuals.map((a) => a.reporting_amount_cents)),
+    reportingCurrency: getReportingCurrency(),
+  };
+}
+
+export function payoutToDTO(position: ReimbursementPosition): PayoutDTO {
+  return {
+    status: position.status,
+    basis: position.basis,
+    reimbursableCents: position.reimbursableCents,
+    paidCents: position.paidCents,
+    scheduledCents: position.scheduledCents,
+    outstandingCents: position.outstandingCents,
+    reportingCurrency: getReportingCurrency(),
+  };
+}
+
+export function reimbursementToDTO(position: ReimbursementPosition): ReimbursementDTO {
+  return {
+    tripId: position.trip.id,
+    userId: position.user.id,
+    employeeName: position.user.name,
+    department: position.user.department,
+    destinationCity: position.trip.destination_city,
+    startDate: position.trip.start_date,
+    tripStatus: position.trip.status,
+    payout: payoutToDTO(position),
+  };
+}
+
+export function paymentBatchToDTO(
+  batch: PaymentBatchRow,
+  payments: ReimbursementPaymentRow[],
+  users: Map<string, UserRow>
+): PaymentBatchDTO {
+  return {
+    id: batch.id,
+    reference: batch.reference,
+    status: batch.status,
+    createdByUserId: batch.created_by_user_id,
+    payments: payments.map((p) => ({
+      id: p.id,
+      tripId: p.trip_id,
+      userId: p.user_id,
+      employeeName: users.get(p.user_id)?.name ?? 'Unknown',
+      amountCents: p.amount_cents,
+    })),
+    totalCents: sumCents(payments.map((p) => p.amount_cents)),
+    reportingCurrency: getReportingCurrency(),
+    createdAt: batch.created_at,
+    exportedAt: batch.exported_at,
+    paidAt: batch.paid_at,
+  };
+}
+
+export function accountingExportRowToDTO(row: AccountingExportRow, tripIds: string[]): AccountingExportDTO {
+  return {
+    id: row.id,
+    reference: row.reference,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    tripIds,
+    tripCount: row.trip_count,
+    totalCents: row.total_cents,
+    reportingCurrency: getReportingCurrency(),
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,626 @@
+/**
+ * Reviewer Tools
+ *
+ * Tools for anyone who decides on trips: line managers, delegates, finance
+ * managers and admins. Which trips a reviewer may act on is still checked
+ * per trip in every tool.
+ */
+
+import 'reflect-metadata';
+import { DaemoFunction } from 'daemo-engine';
+import { z } from 'zod';
+
+// Types
+import type { TripStatus, ReviewCommentRow, ExpenseReportStatus } from '../../types/domain';
+import {
+  PendingTripsResult,
+  PendingTripSummaryDTO,
+  ReviewPacketResult,
+  DecideTripResult,
+  ApprovalDelegationDTO,
+  ListApprovalDelegationsResult,
+} from '../../types/dto';
+
+// Utilities
+import { getSessionContext } from '../../utils/context';
+import {
+  canViewTrip,
+  canReviewTrip,
+  canActAtStageWithDelegation,
+} from '../../utils/rbac';
+import {
+  validateArgs,
+  listPendingTripsArgsSchema,
+  getTripReviewPacketArgsSchema,
+  decideTripArgsSchema,
+} from '../../utils/validation';
+import { getReportingCurrency, sumCents } from '../../utils/money';
+import { resolvePolicyForTrip } from '../policyOverrides';
+import { resolveApprovalProgress, getActiveDelegators, getExpenseReview } from '../approvalChain';
+import { loadSeparationOfDutiesRules, checkSeparationOfDuties } from '../separationOfDuties';
+import { resolveExpenseReport } from '../expenseReports';
+import {
+  recordAuditEvent,
+  recordStatusChange,
+  violationsAuditSnapshot,
+} from '../audit';
+
+// Database
+import * as db from '../../db/queries';
+
+// Shared by the tool sets
+import {
+  tripRowToDTO,
+  tripItemChangeRowToDTO,
+  violationRowToDTO,
+  approvalRowToDTO,
+  approvalStagesToDTO,
+  policyRowToDTO,
+  appliedOverrideToDTO,
+  approvalDelegationRowToDTO,
+  expenseReportToDTO,
+} from './mappers';
+import { itemsWithReceiptStatus } from './helpers';
+
+export class ReviewerTools {
+  @DaemoFunction({
+    description:
+      'List trips pending review that are waiting at an approval stage the current user can act at ' +
+      '(line managers see their reports\' trips, finance sees trips at the finance stage, and delegates ' +
+      'see the trips of reviewers they are covering for). Approved trips whose expense report is in ' +
+      'review are listed too, with expenseReview set. ' +
+      'Optionally filter by department or only show trips with blocker violations.',
+    inputSchema: z.object({
+      department: z.string().optional().describe('Filter by department name'),
+      hasBlockers: z.boolean().optional().describe('Filter to only trips with blocker violations'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      trips: z.array(z.any()).optional(),
+      count: z.number().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async listPendingTrips(args?: {
+    department?: string;
+    hasBlockers?: boolean;
+  }): Promise<PendingTripsResult> {
+    try {
+      // Validate input (optional)
+      const validation = validateArgs(listPendingTripsArgsSchema, args || {});
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get pending trips with user info
+      const data = validation.data as { department?: string; hasBlockers?: boolean } | undefined;
+      const tripRows = await db.getPendingTrips({
+        department: data?.department,
+      });
+      // Approved trips are back in the chain while their expense report is in review
+      for (const approved of await db.getApprovedTrips()) {
+        if (data?.department && approved.user.department !== data.department) continue;
+        if (await getExpenseReview(approved)) tripRows.push(approved);
+      }
+      const reviewer = await db.getUserById(ctx.userId);
+      const delegators = await getActiveDelegators(ctx.userId);
+      const sodRules = await loadSeparationOfDutiesRules();
+
+      // Build summaries with violation counts
+      const summaries: PendingTripSummaryDTO[] = [];
+      for (const tripRow of tripRows) {
+        const violations = await db.getViolationsForTrip(tripRow.id);
+        const totalCents = await db.getTripTotalCents(tripRow.id);
+        const approvals = await db.getApprovalsForTrip(tripRow.id);
+        const changeRequests = approvals.filter((a) => a.decision === 'changes_requested');
+        // Blockers that count for this round (only the overrun in an expense review)
+        const progress = await resolveApprovalProgress(tripRow);
+
+        // Filter by hasBlockers if specified
+        if (data?.hasBlockers !== undefined) {
+          if (data.hasBlockers !== progress.hasBlockers) continue;
+        }
+
+        // Only trips waiting at a stage the caller can act at, directly or as a delegate
+        if (!progress.currentStage) continue;
+        const authority = canActAtStageWithDelegation(
+          ctx,
+          progress.currentStage,
+          progress.owner,
+          delegators
+        );
+        if (!authority.allowed) continue;
+
+        // Hide trips the caller is conflicted on
+        if (tripRow.user_id === ctx.userId) continue;
+        const conflict = checkSeparationOfDuties(sodRules, {
+          ctx,
+          reviewer,
+          owner: progress.owner,
+          stage: progress.currentStage,
+          roundApprovals: progress.roundApprovals,
+        });
+        if (!conflict.allowed) continue;
+
+        summaries.push({
+          tripId: tripRow.id,
+          employeeName: tripRow.user.name,
+          department: tripRow.user.department,
+          destinationCity: tripRow.destination_city,
+          startDate: tripRow.start_date,
+          endDate: tripRow.end_date,
+          status: tripRow.status,
+          violationCount: violations.length,
+          hasBlockers: progress.hasBlockers,
+          tripTotalCents: totalCents,
+          reviewRound: changeRequests.length + 1,
+          currentStage: progress.currentStage.name,
+          stagesSignedOff: progress.stages.filter((s) => s.approval !== null).length,
+          stagesRequired: progress.stages.length,
+          onBehalfOf: authority.onBehalfOf?.name ?? null,
+          expenseReview: progress.expenseReview !== null,
+        });
+      }
+
+      return {
+        success: true,
+        trips: summaries,
+        count: summaries.length,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error listing pending trips',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Get the complete review packet for a trip. Includes trip details, all items ' +
+      '(with original and converted amounts and receipt status), ' +
+      'violations, previous approvals with reviewer comments, current policy snapshot, and the ' +
+      'post-trip expense report reconciled against the approved amounts when one was filed. ' +
+      'Use this before making an approval decision to understand the full context.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to get review packet for'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      trip: z.any().optional(),
+      employeeName: z.string().optional(),
+      department: z.string().optional(),
+      items: z.array(z.any()).optional(),
+      violations: z.array(z.any()).optional(),
+      approvals: z.array(z.any()).optional(),
+      approvalStages: z.array(z.any()).optional(),
+      currentStage: z.string().nullable().optional(),
+      itemChanges: z.array(z.any()).optional(),
+      policySnapshot: z.any().optional(),
+      appliedOverrides: z.array(z.any()).optional(),
+      tripTotalCents: z.number().optional(),
+      reportingCurrency: z.string().optional(),
+      hasBlockers: z.boolean().optional(),
+      expenseReport: z.any().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async getTripReviewPacket(args: { tripId: string }): Promise<ReviewPacketResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(getTripReviewPacketArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Get user info
+      const user = await db.getUserById(trip.user_id);
+
+      // Check view permission (line managers can see their reports' trips, delegates what they cover)
+      const permission = canViewTrip(
+        ctx,
+        trip.user_id,
+        user?.manager_id ?? null,
+        await getActiveDelegators(ctx.userId)
+      );
+      if (!permission.allowed) {
+        return { success: false, error: permission.error };
+      }
+
+      // Get all related data
+      const items = await db.getTripItems(validation.data.tripId);
+      const violations = await db.getViolationsForTrip(validation.data.tripId);
+      const approvals = await db.getApprovalsForTrip(validation.data.tripId);
+      const itemChanges = await db.getTripItemChanges(validation.data.tripId);
+      const reviewComments = await db.getReviewCommentsForTrip(validation.data.tripId);
+      const chain = await resolveApprovalProgress(trip);
+      const progress = trip.status === 'pending_review' || chain.expenseReview ? chain : null;
+      const receipts = await db.getReceiptsForTrip(validation.data.tripId);
+      // The policy the trip was evaluated under (not necessarily today's),
+      // with the trip owner's overrides applied
+      const resolved = await resolvePolicyForTrip(trip);
+      const expenseReport = await resolveExpenseReport(trip.id);
+
+      const tripTotalCents = sumCents(items.map((i) => i.reporting_amount_cents));
+      const hasBlockers = violations.some((v) => v.severity === 'blocker');
+
+      return {
+        success: true,
+        trip: tripRowToDTO(trip),
+        employeeName: user?.name || 'Unknown',
+        department: user?.department || 'Unknown',
+        items: itemsWithReceiptStatus(
+          items,
+          receipts,
+          resolved?.policy.receipt_required_over_cents ?? 0
+        ),
+        violations: violations.map(violationRowToDTO),
+        approvals: approvals.map((a) => approvalRowToDTO(a, reviewComments)),
+        approvalStages: progress ? approvalStagesToDTO(progress) : [],
+        currentStage: progress?.currentStage?.name ?? null,
+        itemChanges: itemChanges.map(tripItemChangeRowToDTO),
+        policySnapshot: resolved ? policyRowToDTO(resolved.policy) : undefined,
+        appliedOverrides: resolved?.appliedOverrides.map(appliedOverrideToDTO) ?? [],
+        tripTotalCents,
+        reportingCurrency: getReportingCurrency(),
+        hasBlockers,
+        expenseReport: expenseReport ? expenseReportToDTO(expenseReport, items) : null,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error fetching review packet',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'Make an approval decision on a trip at the approval stage it is waiting at. Trips pass through ' +
+      'an approval chain (e.g. line manager, then finance, then an admin for large or blocked trips); ' +
+      'only someone who can act at the current stage, or a delegate covering for them, may decide. ' +
+      'Approving moves the trip to the next ' +
+      'required stage, and the trip is approved once every stage has signed off. ' +
+      'Decisions: "approved", "approved_exception" (requires reason), "denied", ' +
+      '"changes_requested" (sends the trip back to the employee as a draft; requires a reason or comments). ' +
+      'Comments can point at a trip item or a violation so the employee knows exactly what to fix. ' +
+      'For an approved trip whose expense report is in review, the decision applies to the report: ' +
+      'approving accepts the actual spend, denying rejects the report and changes_requested reopens it; ' +
+      'the trip stays approved either way. ' +
+      'Always call getTripReviewPacket first to understand violations before deciding.',
+    inputSchema: z.object({
+      tripId: z.string().describe('Trip ID to make decision on'),
+      decision: z.enum(['approved', 'approved_exception', 'denied', 'changes_requested']).describe('Approval decision'),
+      reason: z.string().optional().describe('Reason for decision (required for approved_exception)'),
+      comments: z
+        .array(
+          z.object({
+            tripItemId: z.string().optional().describe('Item the comment is about'),
+            violationId: z.string().optional().describe('Violation the comment is about'),
+            comment: z.string().describe('What needs fixing'),
+          })
+        )
+        .optional()
+        .describe('Comments on specific items or violations'),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      newStatus: z.string().optional(),
+      approval: z.any().optional(),
+      nextStage: z.string().nullable().optional(),
+      expenseReportStatus: z.string().optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async decideTrip(args: {
+    tripId: string;
+    decision: 'approved' | 'approved_exception' | 'denied' | 'changes_requested';
+    reason?: string;
+    comments?: Array<{ tripItemId?: string; violationId?: string; comment: string }>;
+  }): Promise<DecideTripResult> {
+    try {
+      // Validate input
+      const validation = validateArgs(decideTripArgsSchema, args);
+      if (!validation.success) {
+        return { success: false, error: validation.error };
+      }
+
+      const ctx = getSessionContext();
+
+      // Get trip
+      const trip = await db.getTripById(validation.data.tripId);
+      if (!trip) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: `Trip ${validation.data.tripId} not found`,
+          },
+        };
+      }
+
+      // Check permission at the stage the trip is waiting at
+      const progress = await resolveApprovalProgress(trip);
+      const stage = progress.currentStage;
+      const delegators = await getActiveDelegators(ctx.userId);
+      const expenseReview = progress.expenseReview;
+      const permission = canReviewTrip(
+        ctx,
+        trip.status,
+        expenseReview !== null,
+        stage,
+        progress.owner,
+        delegators
+      );
+      if (!permission.allowed || !stage) {
+        return { success: false, error: permission.error };
+      }
+
+      // Separation of duties: conflicted reviewers cannot decide
+      const separation = checkSeparationOfDuties(await loadSeparationOfDutiesRules(), {
+        ctx,
+        reviewer: await db.getUserById(ctx.userId),
+        owner: progress.owner,
+        stage,
+        roundApprovals: progress.roundApprovals,
+      });
+      if (!separation.allowed) {
+        return { success: false, error: separation.error };
+      }
+
+      // Later required stages still to sign off after this one
+      const laterStages = progress.stages.filter(
+        (s) => s.approval === null && s.stage.key !== stage.key
+      );
+
+      // Determine new status. In an expense review the decision settles the
+      // report once final, and the trip keeps its approval
+      let newStatus: TripStatus = trip.status;
+      let expenseReportStatus: ExpenseReportStatus | undefined;
+      let nextStage: string | null = null;
+      switch (validation.data.decision) {
+        case 'approved':
+        case 'approved_exception': {
+          if (laterStages.length > 0) {
+            // Signed off at this stage; the next stage takes over
+            nextStage = laterStages[0].stage.name;
+            break;
+          }
+          if (expenseReview) {
+            expenseReportStatus = 'approved';
+            break;
+          }
+          // Final stage: an exception at any stage carries through
+          const exceptionGranted =
+            validation.data.decision === 'approved_exception' ||
+            progress.roundApprovals.some((a) => a.decision === 'approved_exception');
+          newStatus = exceptionGranted ? 'approved_exception' : 'approved';
+          break;
+        }
+        case 'denied':
+          if (expenseReview) {
+            expenseReportStatus = 'rejected';
+          } else {
+            newStatus = 'denied';
+          }
+          break;
+        case 'changes_requested':
+          // Back to the employee; resubmission rejoins this review thread.
+          // For an expense report, the report reopens
+          if (expenseReview) {
+            expenseReportStatus = 'draft';
+          } else {
+            newStatus = 'draft';
+          }
+          break;
+      }
+
+      // Resolve comment targets; they must belong to this trip
+      const items = await db.getTripItems(trip.id);
+      const violations = await db.getViolationsForTrip(trip.id);
+      const commentTargets: Array<{ tripItemId: string | null; violationCode: string | null; comment: string }> = [];
+      for (const [index, comment] of (validation.data.comments ?? []).entries()) {
+        let tripItemId = comment.tripItemId ?? null;
+        let violationCode: string | null = null;
+
+        if (tripItemId && !items.some((i) => i.id === tripItemId)) {
+          return {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `Trip item ${tripItemId} is not part of this trip`,
+              details: [{ path: `comments.${index}.tripItemId`, message: 'Unknown trip item' }],
+              hint: 'Use item IDs from getTripReviewPacket',
+            },
+          };
+        }
+
+        if (comment.violationId) {
+          const violation = violations.find((v) => v.id === comment.violationId);
+          if (!violation) {
+            return {
+              success: false,
+              error: {
+                code: 'VALIDATION_ERROR',
+                message: `Violation ${comment.violationId} is not part of this trip`,
+                details: [{ path: `comments.${index}.violationId`, message: 'Unknown violation' }],
+                hint: 'Use violation IDs from getTripReviewPacket',
+              },
+            };
+          }
+          // Violations are recomputed on resubmission, so keep the code and item
+          violationCode = violation.code;
+          tripItemId = tripItemId ?? violation.trip_item_id;
+        }
+
+        commentTargets.push({ tripItemId, violationCode, comment: comment.comment });
+      }
+
+      // Create approval record
+      const approvalRow = await db.createApproval({
+        tripId: validation.data.tripId,
+        reviewerUserId: ctx.userId,
+        decision: validation.data.decision,
+        stage: stage.key,
+        reason: validation.data.reason,
+        onBehalfOfUserId: permission.onBehalfOf?.id ?? null,
+      });
+
+      if (!approvalRow) {
+        return {
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to record approval decision',
+          },
+        };
+      }
+
+      const comments: ReviewCommentRow[] = [];
+      for (const target of commentTargets) {
+        const commentRow = await db.createReviewComment({
+          tripId: trip.id,
+          approvalId: approvalRow.id,
+          tripItemId: target.tripItemId,
+          violationCode: target.violationCode,
+          comment: target.comment,
+        });
+        if (commentRow) comments.push(commentRow);
+      }
+
+      const onBehalfOfUserId = permission.onBehalfOf?.id ?? null;
+      await recordAuditEvent(ctx, {
+        tripId: trip.id,
+        action: 'approval.recorded',
+        entityType: 'approval',
+        entityId: approvalRow.id,
+        after: {
+          decision: approvalRow.decision,
+          stage: approvalRow.stage,
+          reason: approvalRow.reason,
+          comment_count: comments.length,
+        },
+        onBehalfOfUserId,
+      });
+
+      // A trip sent back for changes is a draft again: clear the submission
+      // like withdrawTrip so it is evaluated afresh when resubmitted
+      if (newStatus === 'draft') {
+        const violations = await db.getViolationsForTrip(trip.id);
+        await db.deleteViolationsForTrip(trip.id);
+        await db.clearTripSubmission(trip.id);
+        await recordAuditEvent(ctx, {
+          tripId: trip.id,
+          action: 'violations.cleared',
+          entityType: 'violation',
+          before: violationsAuditSnapshot(violations),
+          onBehalfOfUserId,
+        });
+      }
+
+      // Update trip status
+      if (newStatus !== trip.status) {
+        await db.updateTripStatus(validation.data.tripId, newStatus);
+        await recordStatusChange(ctx, trip, newStatus, onBehalfOfUserId);
+      }
+
+      // Settle the expense report once the decision is final
+      if (expenseReview && expenseReportStatus) {
+        await db.updateExpenseReportStatus(expenseReview.id, expenseReportStatus);
+        await recordAuditEvent(ctx, {
+          tripId: trip.id,
+          action: 'expense_report.status_changed',
+          entityType: 'expense_report',
+          entityId: expenseReview.id,
+          before: { status: expenseReview.status },
+          after: { status: expenseReportStatus },
+          onBehalfOfUserId,
+        });
+      }
+
+      return {
+        success: true,
+        newStatus,
+        approval: approvalRowToDTO(approvalRow, comments),
+        nextStage,
+        expenseReportStatus,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error recording decision',
+          hint: String(err),
+        },
+      };
+    }
+  }
+
+  @DaemoFunction({
+    description:
+      'List the approval delegations the current user has granted and received, ' +
+      'including past and revoked ones.',
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      success: z.boolean(),
+      granted: z.array(z.any()).optional(),
+      received: z.array(z.any()).optional(),
+      error: z.any().optional(),
+    }),
+  })
+  async listApprovalDelegations(): Promise<ListApprovalDelegationsResult> {
+    try {
+      const ctx = getSessionContext();
+
+      const rows = await db.getApprovalDelegationsForUser(ctx.userId);
+      const today = new Date().toISOString().slice(0, 10);
+
+      const delegations: ApprovalDelegationDTO[] = [];
+      for (const row of rows) {
+        const delegator = await db.getUserById(row.delegator_user_id);
+        const delegate = await db.getUserById(row.delegate_user_id);
+        delegations.push(approvalDelegationRowToDTO(row, delegator, delegate, today));
+      }
+
+      return {
+        success: true,
+        granted: delegations.filter((d) => d.delegatorUserId === ctx.userId),
+        received: delegations.filter((d) => d.delegateUserId === ctx.userId),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Unexpected error listing delegations',
+          hint: String(err),
+        },
+      };
+    }
+  }
+}
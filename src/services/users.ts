@@ -0,0 +1,66 @@
+/**
+ * User Management
+ *
+ * Checks shared by the admin user tools. A line manager must be an active
+ * user, and reporting lines cannot loop back on themselves, since the
+ * approval chain follows them to find each trip's line manager.
+ */
+
+import * as db from '../db/queries';
+import type { StructuredError, UserRow } from '../types/domain';
+
+/**
+ * Check that a user (null for a new user) can report to the given manager.
+ */
+export async function checkManagerAssignment(
+  userId: string | null,
+  managerId: string
+): Promise<StructuredError | null> {
+  if (userId === managerId) {
+    return {
+      code: 'VALIDATION_ERROR',
+      message: 'A user cannot be their own line manager',
+      hint: 'Pass managerId: null to remove the line manager',
+    };
+  }
+
+  const manager = await db.getUserById(managerId);
+  if (!manager) {
+    return {
+      code: 'NOT_FOUND',
+      message: `Manager ${managerId} not found`,
+      hint: 'Use listUsers to find the manager\'s user ID',
+    };
+  }
+  if (manager.deactivated_at) {
+    return {
+      code: 'VALIDATION_ERROR',
+      message: `${manager.name} has been deactivated and cannot be a line manager`,
+    };
+  }
+
+  // Walk up the new manager's reporting line looking for the user
+  const visited = new Set<string>([manager.id]);
+  let current: UserRow | null = manager;
+  while (userId && current?.manager_id && !visited.has(current.manager_id)) {
+    if (current.manager_id === userId) {
+      return {
+        code: 'VALIDATION_ERROR',
+        message: `${manager.name} already reports to this user, directly or indirectly`,
+        hint: 'Reporting lines cannot form a loop',
+      };
+    }
+    visited.add(current.manager_id);
+    current = await db.getUserById(current.manager_id);
+  }
+
+  return null;
+}
+
+/**
+ * Active users whose line manager is the given user.
+ */
+export async function getDirectReports(userId: string): Promise<UserRow[]> {
+  const users = await db.listUsers();
+  return users.filter((u) => u.manager_id === userId);
+}
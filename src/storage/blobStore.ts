@@ -0,0 +1,64 @@
+/**
+ * Blob Store
+ *
+ * Storage contract for binary files such as receipt scans. Metadata lives
+ * in the database; the file contents live in the configured blob store
+ * (RECEIPT_STORE), so the storage location can be swapped without touching
+ * the tools.
+ */
+
+import { createLocalBlobStore } from './localBlobStore';
+import { createMemoryBlobStore } from './memoryBlobStore';
+
+export interface BlobStore {
+  /** Store (or overwrite) a blob under the given key */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Read a blob, or null if the key does not exist */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove a blob; missing keys are ignored */
+  delete(key: string): Promise<void>;
+}
+
+export type BlobStoreBackend = 'local' | 'memory';
+
+const VALID_BACKENDS: BlobStoreBackend[] = ['local', 'memory'];
+
+let blobStoreInstance: BlobStore | null = null;
+
+/**
+ * Read the configured blob store backend (defaults to local).
+ */
+export function getBlobStoreBackend(): BlobStoreBackend {
+  const backend = (process.env.RECEIPT_STORE || 'local') as BlobStoreBackend;
+
+  if (!VALID_BACKENDS.includes(backend)) {
+    throw new Error(
+      `RECEIPT_STORE must be one of: ${VALID_BACKENDS.join(', ')}. Got: ${backend}`
+    );
+  }
+
+  return backend;
+}
+
+/**
+ * Get the blob store singleton for the configured backend.
+ */
+export function getBlobStore(): BlobStore {
+  if (blobStoreInstance) {
+    return blobStoreInstance;
+  }
+
+  blobStoreInstance =
+    getBlobStoreBackend() === 'memory'
+      ? createMemoryBlobStore()
+      : createLocalBlobStore(process.env.RECEIPT_STORAGE_DIR || './data/receipts');
+
+  return blobStoreInstance;
+}
+
+/**
+ * Replace the active blob store (e.g. a cloud bucket adapter).
+ */
+export function setBlobStore(store: BlobStore): void {
+  blobStoreInstance = store;
+}
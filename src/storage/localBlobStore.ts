@@ -0,0 +1,43 @@
+/**
+ * Local Blob Store
+ *
+ * Stores blobs as files under a root directory on the local filesystem.
+ * Keys are relative paths; anything that would escape the root is rejected.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, resolve, sep } from 'path';
+import type { BlobStore } from './blobStore';
+
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  const root = resolve(rootDir);
+
+  const pathForKey = (key: string): string => {
+    const fullPath = resolve(root, key);
+    if (!fullPath.startsWith(root + sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return fullPath;
+  };
+
+  return {
+    async put(key: string, data: Buffer): Promise<void> {
+      const fullPath = pathForKey(key);
+      await fs.mkdir(dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, data);
+    },
+
+    async get(key: string): Promise<Buffer | null> {
+      try {
+        return await fs.readFile(pathForKey(key));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      await fs.rm(pathForKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * In-Memory Blob Store
+ *
+ * Keeps blobs in a Map for sandboxes and the in-memory storage backend.
+ * Contents are discarded when the process exits.
+ */
+
+import type { BlobStore } from './blobStore';
+
+export function createMemoryBlobStore(): BlobStore {
+  const blobs = new Map<string, Buffer>();
+
+  return {
+    async put(key: string, data: Buffer): Promise<void> {
+      blobs.set(key, Buffer.from(data));
+    },
+
+    async get(key: string): Promise<Buffer | null> {
+      const data = blobs.get(key);
+      return data ? Buffer.from(data) : null;
+    },
+
+    async delete(key: string): Promise<void> {
+      blobs.delete(key);
+    },
+  };
+}
@@ -9,15 +9,56 @@
 
 export type UserRole = 'employee' | 'finance_manager' | 'admin';
 
-export type TripStatus = 'draft' | 'pending_review' | 'approved' | 'approved_exception' | 'denied';
+export type TripStatus =
+  | 'draft'
+  | 'pending_review'
+  | 'approved'
+  | 'approved_exception'
+  | 'denied'
+  | 'cancelled';
 
 export type ItemType = 'flight' | 'hotel' | 'meal' | 'transport';
 
 export type ViolationSeverity = 'warning' | 'blocker';
 
-export type ApprovalDecision = 'approved' | 'approved_exception' | 'denied';
+export type ApprovalDecision = 'approved' | 'approved_exception' | 'denied' | 'changes_requested';
 
-export type ViolationCode = 'BUSINESS_CLASS' | 'HOTEL_CAP' | 'MEAL_CAP' | 'PREAPPROVAL';
+export type ExpenseReportStatus =
+  | 'draft'             // Employee is filing actual expenses
+  | 'reconciled'        // Submitted and within tolerance of the approved estimate
+  | 'pending_review'    // Over tolerance; in review, the trip stays approved
+  | 'approved'          // Reviewers accepted the overrun
+  | 'rejected';         // Reviewers refused the overrun
+
+export type PaymentBatchStatus =
+  | 'draft'             // Payments can still be reviewed
+  | 'exported'          // Payment file handed to the bank
+  | 'paid';             // Finance confirmed the payments went out
+
+/** How much of an approved trip's reimbursable amount has been paid */
+export type ReimbursementStatus = 'unpaid' | 'partially_paid' | 'paid';
+
+/** What a general-ledger account is posted for: an item type's expense, or a payable */
+export type GlAccountPurpose = ItemType | 'employee_payable' | 'company_payable';
+
+export type BuiltInViolationCode =
+  | 'BUSINESS_CLASS'
+  | 'HOTEL_CAP'
+  | 'MEAL_CAP'
+  | 'PREAPPROVAL'
+  | 'MISSING_RECEIPT'
+  | 'BUDGET_EXCEEDED'
+  | 'OVER_APPROVED_AMOUNT';
+
+/** Built-in codes plus the codes of custom rules configured in policy_rules */
+export type ViolationCode = BuiltInViolationCode | (string & {});
+
+export type TripItemChangeType = 'updated' | 'removed';
+
+export type ReceiptStatus = 'attached' | 'missing' | 'not_required';
+
+/** ISO 4217 currency code, e.g. USD, EUR, GBP */
+export type CurrencyCode = string;
 
 // =============================================================================
 // DATABASE ROW TYPES
@@ -28,15 +69,50 @@ export interface UserRow {
   name: string;
   role: UserRole;
   department: string;
+  manager_id: string | null;            // Line manager; null skips the line manager stage
+  deactivated_at: string | null;        // Set when the user leaves; history is kept
   created_at: string;
 }
 
 export interface TravelPolicyRow {
   id: string;
+  version: number;
+  effective_from: string;               // Version applies to submissions from this date
+  change_note: string | null;
   economy_only: boolean;
   hotel_nightly_cap_cents: number;
   meal_daily_cap_cents: number;
   preapproval_over_cents: number;
+  receipt_required_over_cents: number;  // Items above this (reporting currency) need a receipt
+  business_class_min_flight_hours: number | null;  // Business allowed on flights this long; null = never
+  created_at: string;
+}
+
+export interface PolicyRuleConfigRow {
+  id: string;
+  code: string;                         // Rule code, also the code of the violations it produces
+  template: string | null;              // Null for registered rules; else the template a custom rule instantiates
+  enabled: boolean;
+  severity: ViolationSeverity | null;   // Null = the rule's default severity
+  params: Record<string, unknown>;
+  description: string | null;
+  created_at: string;
+}
+
+export type PolicyOverrideScope = 'department' | 'role' | 'user';
+
+export interface PolicyOverrideRow {
+  id: string;
+  policy_id: string;
+  scope_type: PolicyOverrideScope;
+  scope_value: string;                  // Department name, role, or user ID
+  economy_only: boolean | null;         // Null fields inherit from the less specific level
+  hotel_nightly_cap_cents: number | null;
+  meal_daily_cap_cents: number | null;
+  preapproval_over_cents: number | null;
+  receipt_required_over_cents: number | null;
+  business_class_min_flight_hours: number | null;
+  note: string | null;
   created_at: string;
 }
 
@@ -44,10 +120,13 @@ export interface TripRow {
   id: string;
   user_id: string;
   destination_city: string;
+  destination_country: string | null;   // ISO 3166-1 alpha-2, used for per-diem lookup
   start_date: string;
   end_date: string;
   purpose: string;
   status: TripStatus;
+  policy_id: string | null;             // Policy version in force at the last submission
+  submitted_at: string | null;
   created_at: string;
 }
 
@@ -56,14 +135,92 @@ export interface TripItemRow {
   trip_id: string;
   type: ItemType;
   description: string;
-  amount_cents: number;
+  amount_cents: number;                 // In the item's own currency
+  currency: CurrencyCode;
+  fx_rate: number;                      // Item currency -> reporting currency
+  fx_rate_date: string | null;          // Date of the rate used (null when no conversion needed)
+  reporting_amount_cents: number;       // Generated: amount_cents * fx_rate
   meta: Record<string, unknown>;
+  company_paid: boolean;                // Billed to the company; not reimbursed
+  created_at: string;
+}
+
+/**
+ * What an approved trip really cost, filed after the trip.
+ */
+export interface ExpenseReportRow {
+  id: string;
+  trip_id: string;
+  status: ExpenseReportStatus;
+  submitted_at: string | null;
+  created_at: string;
+}
+
+export interface ActualExpenseRow {
+  id: string;
+  report_id: string;
+  trip_id: string;
+  type: ItemType;
+  description: string;
+  amount_cents: number;                 // In the expense's own currency
+  currency: CurrencyCode;
+  fx_rate: number;                      // Expense currency -> reporting currency
+  fx_rate_date: string | null;
+  reporting_amount_cents: number;       // Generated: amount_cents * fx_rate
+  expense_date: string;
+  company_paid: boolean;                // Billed to the company; not reimbursed
+  created_at: string;
+}
+
+export interface PaymentBatchRow {
+  id: string;
+  reference: string;
+  status: PaymentBatchStatus;
+  created_by_user_id: string;
+  exported_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+export interface ReimbursementPaymentRow {
+  id: string;
+  batch_id: string;
+  trip_id: string;
+  user_id: string;                      // Payee (the trip owner)
+  amount_cents: number;                 // Reporting currency
+  created_at: string;
+}
+
+export interface GlAccountRow {
+  id: string;
+  purpose: GlAccountPurpose;
+  account_code: string;
+  account_name: string;
+  created_at: string;
+}
+
+export interface AccountingExportRow {
+  id: string;
+  reference: string;
+  start_date: string;
+  end_date: string;
+  trip_count: number;
+  total_cents: number;                  // Reporting currency
+  created_by_user_id: string;
+  created_at: string;
+}
+
+export interface AccountingExportTripRow {
+  id: string;
+  export_id: string;
+  trip_id: string;
   created_at: string;
 }
 
 export interface ViolationRow {
   id: string;
   trip_id: string;
+  trip_item_id: string | null;          // Item at fault; null for trip-level rules
   code: ViolationCode;
   severity: ViolationSeverity;
   message: string;
@@ -75,10 +232,197 @@ export interface ViolationRow {
 export interface ApprovalRow {
   id: string;
   trip_id: string;
-  reviewer_user_id: string;
+  reviewer_user_id: string;            // Who made the decision
+  on_behalf_of_user_id: string | null;  // Reviewer they were covering for, if delegated
   decision: ApprovalDecision;
+  stage: string | null;                 // approval_stages.key the decision was made at
   reason: string | null;
   created_at: string;
+  chain_position: number | null;        // Hash chain link; null for rows that predate the chain
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+export type ApproverType = 'line_manager' | 'role';
+
+/**
+ * One stage of the approval chain. A stage with no threshold and
+ * applies_with_blockers false is always required; otherwise it is required
+ * when the trip total reaches applies_over_cents or, if applies_with_blockers,
+ * when the trip has blocker violations.
+ */
+export interface ApprovalStageRow {
+  id: string;
+  stage_order: number;
+  key: string;
+  name: string;
+  approver_type: ApproverType;
+  approver_role: UserRole | null;       // Set for role stages
+  applies_over_cents: number | null;    // Reporting currency cents
+  applies_with_blockers: boolean;
+  created_at: string;
+}
+
+export interface ApprovalDelegationRow {
+  id: string;
+  delegator_user_id: string;
+  delegate_user_id: string;
+  start_date: string;
+  end_date: string;
+  note: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type SeparationOfDutiesRule =
+  | 'reports_to_owner'          // Reviewer reports directly to the trip owner
+  | 'same_department'           // Reviewer is in the trip owner's department (role stages only)
+  | 'distinct_stage_approvers'; // One person signs off at most one stage per round
+
+export interface SeparationOfDutiesConfigRow {
+  id: string;
+  rule: SeparationOfDutiesRule;
+  enabled: boolean;
+  updated_by_user_id: string | null;
+  updated_at: string | null;
+  created_at: string;
+}
+
+export interface ReviewCommentRow {
+  id: string;
+  trip_id: string;
+  approval_id: string;
+  trip_item_id: string | null;          // Item the comment is about, if any
+  violation_code: ViolationCode | null; // Violation the comment is about, if any
+  comment: string;
+  created_at: string;
+  chain_position: number | null;        // Hash chain link; null for rows that predate the chain
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+/**
+ * Destination-based caps. A row with a city applies to that city; a row
+ * with no city applies to the whole country. Null caps fall back to the
+ * flat policy value.
+ */
+export interface PerDiemRateRow {
+  id: string;
+  country: string;                      // ISO 3166-1 alpha-2
+  city: string | null;
+  hotel_nightly_cap_cents: number | null;
+  meal_daily_cap_cents: number | null;
+  effective_from: string;
+  effective_to: string | null;          // Inclusive; null = open-ended
+  created_at: string;
+}
+
+/**
+ * A department's travel budget for one fiscal period, in reporting
+ * currency cents.
+ */
+export interface DepartmentBudgetRow {
+  id: string;
+  department: string;
+  fiscal_period: string;                // Label, e.g. FY2026-Q1
+  period_start: string;
+  period_end: string;                   // Inclusive
+  budget_cents: number;
+  created_at: string;
+}
+
+export interface TripItemChangeRow {
+  id: string;
+  trip_id: string;
+  trip_item_id: string;                 // Not a foreign key; the item may have been removed
+  change_type: TripItemChangeType;
+  previous_values: Record<string, unknown>;  // Changed columns before the edit (whole item for removals)
+  new_values: Record<string, unknown> | null;
+  changed_by_user_id: string;
+  created_at: string;
+}
+
+export type AuditAction =
+  | 'trip.created'
+  | 'trip.updated'
+  | 'trip.status_changed'
+  | 'trip_item.added'
+  | 'trip_item.updated'
+  | 'trip_item.removed'
+  | 'receipt.attached'
+  | 'violations.evaluated'
+  | 'violations.cleared'
+  | 'approval.recorded'
+  | 'delegation.created'
+  | 'delegation.revoked'
+  | 'separation_of_duties.updated'
+  | 'user.created'
+  | 'user.updated'
+  | 'user.deactivated'
+  | 'policy.updated'
+  | 'actual_expense.added'
+  | 'actual_expense.removed'
+  | 'expense_report.status_changed'
+  | 'payment_batch.created'
+  | 'payment_batch.exported'
+  | 'payment_batch.paid'
+  | 'accounting_export.created';
+
+export type AuditEntityType =
+  | 'trip'
+  | 'trip_item'
+  | 'receipt'
+  | 'violation'
+  | 'approval'
+  | 'delegation'
+  | 'separation_of_duties_rule'
+  | 'user'
+  | 'travel_policy'
+  | 'expense_report'
+  | 'actual_expense'
+  | 'payment_batch'
+  | 'accounting_export';
+
+export interface AuditEventRow {
+  id: string;
+  trip_id: string | null;               // Not a foreign key; NULL for settings changes
+  actor_user_id: string;
+  actor_role: UserRole;                 // Role the actor held at the time
+  on_behalf_of_user_id: string | null;  // Reviewer the actor covered for, if delegated
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+  chain_position: number | null;        // Hash chain link; null for rows that predate the chain
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+export interface ReceiptRow {
+  id: string;
+  trip_id: string;
+  trip_item_id: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  sha256: string;
+  storage_key: string;                  // Key in the blob store
+  uploaded_by_user_id: string;
+  created_at: string;
+}
+
+/**
+ * One unit of base_currency is worth `rate` units of quote_currency on rate_date
+ */
+export interface ExchangeRateRow {
+  id: string;
+  rate_date: string;
+  base_currency: CurrencyCode;
+  quote_currency: CurrencyCode;
+  rate: number;
+  created_at: string;
 }
 
 // =============================================================================
@@ -88,6 +432,7 @@ export interface ApprovalRow {
 export interface FlightMeta {
   cabin: 'economy' | 'business' | 'first';
   airline?: string;
+  duration_hours?: number;              // Longest leg, used for long-haul business class exceptions
 }
 
 export interface HotelMeta {
@@ -119,6 +464,7 @@ export interface SessionContext {
 
 export type ErrorCode = 
   | 'VALIDATION_ERROR'
+  | 'UNAUTHENTICATED'
   | 'FORBIDDEN'
   | 'NOT_FOUND'
   | 'INVALID_STATE'
@@ -5,6 +5,12 @@ import type {
   ViolationSeverity, 
   ViolationCode,
   ApprovalDecision,
+  ReceiptStatus,
+  TripItemChangeType,
+  PolicyOverrideScope,
+  ExpenseReportStatus,
+  PaymentBatchStatus,
+  ReimbursementStatus,
   StructuredError 
 } from './domain';
 
@@ -18,22 +24,32 @@ import type {
     id: { type: 'string', description: 'Unique trip ID (UUID)' },
     userId: { type: 'string', description: 'Owner user ID' },
     destinationCity: { type: 'string', description: 'Destination city name' },
+    destinationCountry: { type: 'string', description: 'ISO 3166-1 alpha-2 destination country (null when not given)' },
     startDate: { type: 'string', description: 'Trip start date (YYYY-MM-DD)' },
     endDate: { type: 'string', description: 'Trip end date (YYYY-MM-DD)' },
     purpose: { type: 'string', description: 'Business purpose of the trip' },
-    status: { type: 'string', description: 'Current status: draft | pending_review | approved | approved_exception | denied' },
+    status: { type: 'string', description: 'Current status: draft | pending_review | approved | approved_exception | denied | cancelled' },
+    policyId: { type: 'string', description: 'Policy version the trip was evaluated under at its last submission (null if never submitted)' },
+    submittedAt: { type: 'string', description: 'ISO timestamp of the last submission (null if never submitted)' },
     createdAt: { type: 'string', description: 'ISO timestamp of creation' },
+    requestedChanges: { type: 'object', description: 'What the reviewer asked to fix, when the trip was sent back for changes (getMyTrips only)' },
+    payout: { type: 'object', description: 'Reimbursement status of an approved trip (getMyTrips only)' },
   },
 })
 export class TripDTO {
   id: string = '';
   userId: string = '';
   destinationCity: string = '';
+  destinationCountry: string | null = null;
   startDate: string = '';
   endDate: string = '';
   purpose: string = '';
   status: TripStatus = 'draft';
+  policyId: string | null = null;
+  submittedAt: string | null = null;
   createdAt: string = '';
+  requestedChanges?: RequestedChangesDTO | null;
+  payout?: PayoutDTO;
 }
 
 @DaemoSchema({
@@ -43,8 +59,16 @@ export class TripDTO {
     tripId: { type: 'string', description: 'Parent trip ID' },
     type: { type: 'string', description: 'Item type: flight | hotel | meal | transport' },
     description: { type: 'string', description: 'Human-readable description' },
-    amountCents: { type: 'number', description: 'Amount in cents (integer)' },
+    amountCents: { type: 'number', description: 'Original amount in cents (integer), in the item currency' },
+    currency: { type: 'string', description: 'ISO 4217 currency of the original amount' },
+    fxRate: { type: 'number', description: 'Exchange rate from the item currency to the reporting currency' },
+    fxRateDate: { type: 'string', description: 'Date of the exchange rate used (null when no conversion was needed)' },
+    reportingAmountCents: { type: 'number', description: 'Amount converted to the reporting currency, in cents' },
+    reportingCurrency: { type: 'string', description: 'ISO 4217 reporting currency' },
     meta: { type: 'object', description: 'Type-specific metadata (cabin, nightly_rate_cents, date, etc.)' },
+    companyPaid: { type: 'boolean', description: 'True if billed directly to the company (not reimbursed)' },
+    receiptStatus: { type: 'string', description: 'Receipt status: attached | missing | not_required (review packet only)' },
+    receiptCount: { type: 'number', description: 'Number of receipts attached (review packet only)' },
     createdAt: { type: 'string', description: 'ISO timestamp of creation' },
   },
 })
@@ -54,7 +78,15 @@ export class TripItemDTO {
   type: ItemType = 'flight';
   description: string = '';
   amountCents: number = 0;
+  currency: string = 'USD';
+  fxRate: number = 1;
+  fxRateDate: string | null = null;
+  reportingAmountCents: number = 0;
+  reportingCurrency: string = 'USD';
   meta: Record<string, unknown> = {};
+  companyPaid: boolean = false;
+  receiptStatus?: ReceiptStatus;
+  receiptCount?: number;
   createdAt: string = '';
 }
 
@@ -63,16 +95,18 @@ export class TripItemDTO {
   properties: {
     id: { type: 'string', description: 'Unique violation ID (UUID)' },
     tripId: { type: 'string', description: 'Trip ID this violation belongs to' },
-    code: { type: 'string', description: 'Violation code: BUSINESS_CLASS | HOTEL_CAP | MEAL_CAP | PREAPPROVAL' },
+    tripItemId: { type: 'string', description: 'Trip item at fault (null for trip-level violations)' },
+    code: { type: 'string', description: 'Violation code: BUSINESS_CLASS | HOTEL_CAP | MEAL_CAP | PREAPPROVAL | MISSING_RECEIPT | BUDGET_EXCEEDED | OVER_APPROVED_AMOUNT, or a custom rule code' },
     severity: { type: 'string', description: 'Severity level: warning (can approve) | blocker (needs exception)' },
     message: { type: 'string', description: 'Human-readable violation explanation' },
-    computedValueCents: { type: 'number', description: 'The actual value that triggered the violation (cents)' },
-    policyValueCents: { type: 'number', description: 'The policy limit (cents)' },
+    computedValueCents: { type: 'number', description: 'The actual value that triggered the violation (cents, reporting currency)' },
+    policyValueCents: { type: 'number', description: 'The policy limit (cents, reporting currency)' },
   },
 })
 export class ViolationDTO {
   id: string = '';
   tripId: string = '';
+  tripItemId: string | null = null;
   code: ViolationCode = 'BUSINESS_CLASS';
   severity: ViolationSeverity = 'warning';
   message: string = '';
@@ -85,9 +119,12 @@ export class ViolationDTO {
   properties: {
     id: { type: 'string', description: 'Unique approval ID (UUID)' },
     tripId: { type: 'string', description: 'Trip ID this approval is for' },
-    reviewerUserId: { type: 'string', description: 'User ID of the reviewer' },
-    decision: { type: 'string', description: 'Decision: approved | approved_exception | denied' },
+    reviewerUserId: { type: 'string', description: 'User ID of the reviewer who made the decision' },
+    onBehalfOfUserId: { type: 'string', description: 'Reviewer the decision was made for under a delegation (null if not delegated)' },
+    decision: { type: 'string', description: 'Decision: approved | approved_exception | denied | changes_requested' },
+    stage: { type: 'string', description: 'Approval chain stage the decision was made at (e.g. line_manager, finance)' },
     reason: { type: 'string', description: 'Reason for the decision (required for approved_exception)' },
+    comments: { type: 'array', description: 'Reviewer comments on specific items or violations' },
     createdAt: { type: 'string', description: 'ISO timestamp of decision' },
   },
 })
@@ -95,11 +132,72 @@ export class ApprovalDTO {
   id: string = '';
   tripId: string = '';
   reviewerUserId: string = '';
+  onBehalfOfUserId: string | null = null;
   decision: ApprovalDecision = 'approved';
+  stage: string | null = null;
   reason: string | null = null;
+  comments: ReviewCommentDTO[] = [];
   createdAt: string = '';
 }
 
+@DaemoSchema({
+  description: 'A required approval chain stage and whether it has signed off',
+  properties: {
+    key: { type: 'string', description: 'Stage key (e.g. line_manager, finance, executive)' },
+    name: { type: 'string', description: 'Stage name' },
+    approver: { type: 'string', description: 'Who signs off this stage' },
+    signedOff: { type: 'boolean', description: 'Whether the stage has approved in the current review round' },
+    approvalId: { type: 'string', description: 'The sign-off decision (null until signed off)' },
+    reviewerUserId: { type: 'string', description: 'Who signed off (null until signed off)' },
+  },
+})
+export class ApprovalStageStatusDTO {
+  key: string = '';
+  name: string = '';
+  approver: string = '';
+  signedOff: boolean = false;
+  approvalId: string | null = null;
+  reviewerUserId: string | null = null;
+}
+
+@DaemoSchema({
+  description: 'A reviewer comment attached to a decision',
+  properties: {
+    id: { type: 'string', description: 'Comment ID (UUID)' },
+    approvalId: { type: 'string', description: 'Decision the comment belongs to' },
+    tripItemId: { type: 'string', description: 'Item the comment is about (null for trip-level comments)' },
+    violationCode: { type: 'string', description: 'Violation the comment is about (null if none)' },
+    comment: { type: 'string', description: 'What the reviewer wrote' },
+    createdAt: { type: 'string', description: 'ISO timestamp of the comment' },
+  },
+})
+export class ReviewCommentDTO {
+  id: string = '';
+  approvalId: string = '';
+  tripItemId: string | null = null;
+  violationCode: string | null = null;
+  comment: string = '';
+  createdAt: string = '';
+}
+
+@DaemoSchema({
+  description: 'Changes a reviewer asked for before the trip can be approved',
+  properties: {
+    approvalId: { type: 'string', description: 'The changes_requested decision' },
+    reviewerUserId: { type: 'string', description: 'Reviewer who asked for changes' },
+    reason: { type: 'string', description: 'Overall note from the reviewer' },
+    comments: { type: 'array', description: 'Comments on specific items or violations' },
+    requestedAt: { type: 'string', description: 'ISO timestamp of the request' },
+  },
+})
+export class RequestedChangesDTO {
+  approvalId: string = '';
+  reviewerUserId: string = '';
+  reason: string | null = null;
+  comments: ReviewCommentDTO[] = [];
+  requestedAt: string = '';
+}
+
 @DaemoSchema({
   description: 'Current travel policy settings',
   properties: {
@@ -108,14 +206,70 @@ export class ApprovalDTO {
     hotelNightlyCapCents: { type: 'number', description: 'Maximum nightly hotel rate in cents' },
     mealDailyCapCents: { type: 'number', description: 'Maximum daily meal spending in cents' },
     preapprovalOverCents: { type: 'number', description: 'Trip total threshold requiring preapproval in cents' },
+    receiptRequiredOverCents: { type: 'number', description: 'Items above this amount in cents need a receipt' },
+    businessClassMinFlightHours: { type: 'number', description: 'Business class is allowed on flights at least this long (null = never)' },
+    version: { type: 'number', description: 'Policy version number' },
+    effectiveFrom: { type: 'string', description: 'Date this version took effect (YYYY-MM-DD)' },
+    changeNote: { type: 'string', description: 'Why this version was introduced' },
   },
 })
 export class PolicySnapshotDTO {
   id: string = '';
+  version: number = 0;
+  effectiveFrom: string = '';
+  changeNote: string | null = null;
   economyOnly: boolean = true;
   hotelNightlyCapCents: number = 0;
   mealDailyCapCents: number = 0;
   preapprovalOverCents: number = 0;
+  receiptRequiredOverCents: number = 0;
+  businessClassMinFlightHours: number | null = null;
+}
+
+@DaemoSchema({
+  description: 'A policy override that changed the policy for the trip owner',
+  properties: {
+    id: { type: 'string', description: 'Override ID (UUID)' },
+    scope: { type: 'string', description: 'Override scope: department | role | user' },
+    scopeValue: { type: 'string', description: 'Department name, role, or user ID the override targets' },
+    label: { type: 'string', description: 'Human-readable description of the override' },
+    fields: { type: 'array', description: 'Policy fields this override decided (e.g. mealDailyCapCents)' },
+    note: { type: 'string', description: 'Why the override exists' },
+  },
+})
+export class AppliedPolicyOverrideDTO {
+  id: string = '';
+  scope: PolicyOverrideScope = 'department';
+  scopeValue: string = '';
+  label: string = '';
+  fields: string[] = [];
+  note: string | null = null;
+}
+
+@DaemoSchema({
+  description: 'A receipt attached to a trip item (metadata only)',
+  properties: {
+    id: { type: 'string', description: 'Unique receipt ID (UUID)' },
+    tripId: { type: 'string', description: 'Trip ID' },
+    tripItemId: { type: 'string', description: 'Trip item this receipt proves' },
+    fileName: { type: 'string', description: 'Original file name' },
+    contentType: { type: 'string', description: 'MIME type of the file' },
+    sizeBytes: { type: 'number', description: 'File size in bytes' },
+    sha256: { type: 'string', description: 'SHA-256 hash of the file contents' },
+    uploadedByUserId: { type: 'string', description: 'User who attached the receipt' },
+    createdAt: { type: 'string', description: 'ISO timestamp of upload' },
+  },
+})
+export class ReceiptDTO {
+  id: string = '';
+  tripId: string = '';
+  tripItemId: string = '';
+  fileName: string = '';
+  contentType: string = '';
+  sizeBytes: number = 0;
+  sha256: string = '';
+  uploadedByUserId: string = '';
+  createdAt: string = '';
 }
 
 // =============================================================================
@@ -150,13 +304,207 @@ export class AddTripItemResult {
   error?: StructuredError;
 }
 
+@DaemoSchema({
+  description: 'A recorded edit or removal of a trip item',
+  properties: {
+    id: { type: 'string', description: 'Change ID (UUID)' },
+    tripId: { type: 'string', description: 'Trip the item belongs to' },
+    tripItemId: { type: 'string', description: 'Item that was changed (may no longer exist)' },
+    changeType: { type: 'string', description: 'updated | removed' },
+    previousValues: { type: 'object', description: 'Changed fields before the edit (the whole item for removals)' },
+    newValues: { type: 'object', description: 'Changed fields after the edit (null for removals)' },
+    changedByUserId: { type: 'string', description: 'User who made the change' },
+    createdAt: { type: 'string', description: 'ISO timestamp of the change' },
+  },
+})
+export class TripItemChangeDTO {
+  id: string = '';
+  tripId: string = '';
+  tripItemId: string = '';
+  changeType: TripItemChangeType = 'updated';
+  previousValues: Record<string, unknown> = {};
+  newValues: Record<string, unknown> | null = null;
+  changedByUserId: string = '';
+  createdAt: string = '';
+}
+
+@DaemoSchema({
+  description: 'Result of updating a trip item',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    item: { type: 'object', description: 'The updated trip item' },
+    change: { type: 'object', description: 'The recorded change with previous values' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class UpdateTripItemResult {
+  success: boolean = false;
+  item?: TripItemDTO;
+  change?: TripItemChangeDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of removing a trip item',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    removedItemId: { type: 'string', description: 'ID of the removed item' },
+    removedReceiptCount: { type: 'number', description: 'Receipts that were attached to the item and removed with it' },
+    change: { type: 'object', description: 'The recorded removal with the item values' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class RemoveTripItemResult {
+  success: boolean = false;
+  removedItemId?: string;
+  removedReceiptCount?: number;
+  change?: TripItemChangeDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of attaching a receipt to a trip item',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    receipt: { type: 'object', description: 'The stored receipt metadata' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class AttachReceiptResult {
+  success: boolean = false;
+  receipt?: ReceiptDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of listing receipts for a trip',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    receipts: { type: 'array', description: 'Receipts attached to the trip items' },
+    items: { type: 'array', description: 'Trip items with their receipt status' },
+    count: { type: 'number', description: 'Number of receipts returned' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ListReceiptsResult {
+  success: boolean = false;
+  receipts?: ReceiptDTO[];
+  items?: TripItemDTO[];
+  count?: number;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'A draft trip item extracted from a booking confirmation',
+  properties: {
+    type: { type: 'string', description: 'Item type: flight | hotel | meal | transport' },
+    description: { type: 'string', description: 'Generated description' },
+    amountCents: { type: 'number', description: 'Total amount in cents of the stated currency (null if not found)' },
+    currency: { type: 'string', description: 'ISO 4217 currency of the amount (null if not found)' },
+    meta: { type: 'object', description: 'Extracted metadata (cabin, airline, nightly_rate_cents, nights, dates, etc.)' },
+    complete: { type: 'boolean', description: 'Whether every field needed for policy checks was found' },
+  },
+})
+export class DraftTripItemDTO {
+  type: ItemType = 'flight';
+  description: string = '';
+  amountCents: number | null = null;
+  currency: string | null = null;
+  meta: Record<string, unknown> = {};
+  complete: boolean = false;
+}
+
+@DaemoSchema({
+  description: 'A field the booking parser could not extract or had to qualify',
+  properties: {
+    field: { type: 'string', description: 'Field the warning is about, e.g. meta.cabin' },
+    message: { type: 'string', description: 'What was missing or ambiguous' },
+  },
+})
+export class ParseWarningDTO {
+  field: string = '';
+  message: string = '';
+}
+
+@DaemoSchema({
+  description: 'Result of importing a pasted booking confirmation',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    bookingType: { type: 'string', description: 'Detected layout: flight | hotel | car_rental | unknown' },
+    drafts: { type: 'array', description: 'Draft trip items extracted from the text' },
+    warnings: { type: 'array', description: 'Fields that could not be extracted' },
+    addedItems: { type: 'array', description: 'Items added to the trip (only when addToTrip is true)' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ImportBookingConfirmationResult {
+  success: boolean = false;
+  bookingType?: string;
+  drafts?: DraftTripItemDTO[];
+  warnings?: ParseWarningDTO[];
+  addedItems?: TripItemDTO[];
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of updating a trip',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    trip: { type: 'object', description: 'The updated trip' },
+    repricedItems: { type: 'array', description: 'Items dated on the trip\'s first day, converted again at the rate for the new start date' },
+    violations: { type: 'array', description: 'Violations the trip would now get on submission, when its dates or destination changed' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class UpdateTripResult {
+  success: boolean = false;
+  trip?: TripDTO;
+  repricedItems?: TripItemDTO[];
+  violations?: PreviewViolationDTO[];
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of cancelling a trip',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    trip: { type: 'object', description: 'The cancelled trip' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class CancelTripResult {
+  success: boolean = false;
+  trip?: TripDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of withdrawing a trip from review',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    trip: { type: 'object', description: 'The trip, back in draft status' },
+    clearedViolationCount: { type: 'number', description: 'Violations removed from the withdrawn submission' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class WithdrawTripResult {
+  success: boolean = false;
+  trip?: TripDTO;
+  clearedViolationCount?: number;
+  error?: StructuredError;
+}
+
 @DaemoSchema({
   description: 'Result of submitting a trip for review, includes policy violations',
   properties: {
     success: { type: 'boolean', description: 'Whether the operation succeeded' },
     status: { type: 'string', description: 'New trip status after submission' },
     violations: { type: 'array', description: 'List of policy violations found' },
-    tripTotalCents: { type: 'number', description: 'Total trip cost in cents' },
+    tripTotalCents: { type: 'number', description: 'Total trip cost in cents (reporting currency)' },
+    reportingCurrency: { type: 'string', description: 'ISO 4217 currency of tripTotalCents' },
+    policyVersion: { type: 'number', description: 'Policy version the trip was evaluated under' },
+    resubmitted: { type: 'boolean', description: 'Whether this answers a changes_requested decision (same review thread)' },
+    nextStage: { type: 'string', description: 'First approval stage the trip now waits at' },
     hasBlockers: { type: 'boolean', description: 'Whether any violations are blockers' },
     error: { type: 'object', description: 'Error details if success is false' },
   },
@@ -166,6 +514,56 @@ export class SubmitTripResult {
   status?: TripStatus;
   violations?: ViolationDTO[];
   tripTotalCents?: number;
+  reportingCurrency?: string;
+  policyVersion?: number;
+  resubmitted?: boolean;
+  nextStage?: string | null;
+  hasBlockers?: boolean;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'A violation that would be flagged if the trip were submitted now',
+  properties: {
+    code: { type: 'string', description: 'Violation code' },
+    severity: { type: 'string', description: 'Severity level: warning | blocker' },
+    message: { type: 'string', description: 'Human-readable violation explanation' },
+    tripItemId: { type: 'string', description: 'Trip item at fault (null for trip-level violations)' },
+    computedValueCents: { type: 'number', description: 'The value that triggered the violation (cents, reporting currency)' },
+    policyValueCents: { type: 'number', description: 'The policy limit (cents, reporting currency)' },
+    overByCents: { type: 'number', description: 'How far the value is over the limit in cents (null when not an amount check)' },
+    overByPercent: { type: 'number', description: 'How far the value is over the limit as a percentage of the limit' },
+  },
+})
+export class PreviewViolationDTO {
+  code: ViolationCode = 'BUSINESS_CLASS';
+  severity: ViolationSeverity = 'warning';
+  message: string = '';
+  tripItemId: string | null = null;
+  computedValueCents: number | null = null;
+  policyValueCents: number | null = null;
+  overByCents: number | null = null;
+  overByPercent: number | null = null;
+}
+
+@DaemoSchema({
+  description: 'Dry-run policy evaluation of a draft trip; nothing is saved',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    violations: { type: 'array', description: 'Violations that would be flagged on submission' },
+    tripTotalCents: { type: 'number', description: 'Total trip cost in cents (reporting currency)' },
+    reportingCurrency: { type: 'string', description: 'ISO 4217 currency of amounts and totals' },
+    policyVersion: { type: 'number', description: 'Policy version the trip would be evaluated under' },
+    hasBlockers: { type: 'boolean', description: 'Whether submission would produce blocker violations' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class PreviewPolicyViolationsResult {
+  success: boolean = false;
+  violations?: PreviewViolationDTO[];
+  tripTotalCents?: number;
+  reportingCurrency?: string;
+  policyVersion?: number;
   hasBlockers?: boolean;
   error?: StructuredError;
 }
@@ -198,7 +596,13 @@ export class ListTripsResult {
     status: { type: 'string', description: 'Current trip status' },
     violationCount: { type: 'number', description: 'Number of violations' },
     hasBlockers: { type: 'boolean', description: 'Whether trip has blocker violations' },
-    tripTotalCents: { type: 'number', description: 'Total trip cost in cents' },
+    tripTotalCents: { type: 'number', description: 'Total trip cost in cents (reporting currency)' },
+    reviewRound: { type: 'number', description: 'Submission count in this review thread (2+ means resubmitted after changes were requested)' },
+    currentStage: { type: 'string', description: 'Approval stage the trip is waiting at' },
+    stagesSignedOff: { type: 'number', description: 'Required stages already signed off' },
+    stagesRequired: { type: 'number', description: 'Stages that must sign off before the trip is approved' },
+    onBehalfOf: { type: 'string', description: 'Reviewer you would act for under a delegation (null if you can act yourself)' },
+    expenseReview: { type: 'boolean', description: 'True if the trip is approved and its expense report is in review because actual expenses exceeded the approved amount' },
   },
 })
 export class PendingTripSummaryDTO {
@@ -212,6 +616,12 @@ export class PendingTripSummaryDTO {
   violationCount: number = 0;
   hasBlockers: boolean = false;
   tripTotalCents: number = 0;
+  reviewRound: number = 1;
+  currentStage: string = '';
+  stagesSignedOff: number = 0;
+  stagesRequired: number = 0;
+  onBehalfOf: string | null = null;
+  expenseReview: boolean = false;
 }
 
 @DaemoSchema({
@@ -237,12 +647,18 @@ export class PendingTripsResult {
     trip: { type: 'object', description: 'The trip record' },
     employeeName: { type: 'string', description: 'Name of the employee' },
     department: { type: 'string', description: 'Employee department' },
-    items: { type: 'array', description: 'All expense items in the trip' },
+    items: { type: 'array', description: 'All expense items in the trip, with original and converted amounts' },
     violations: { type: 'array', description: 'All policy violations' },
     approvals: { type: 'array', description: 'Previous approval decisions' },
-    policySnapshot: { type: 'object', description: 'Current policy settings used for evaluation' },
-    tripTotalCents: { type: 'number', description: 'Total trip cost in cents' },
+    approvalStages: { type: 'array', description: 'Required approval chain stages and which have signed off in this round' },
+    currentStage: { type: 'string', description: 'Stage the trip is waiting at (null when not pending or fully signed off)' },
+    itemChanges: { type: 'array', description: 'Edits and removals of items made while the trip was a draft, with previous values' },
+    policySnapshot: { type: 'object', description: 'Policy the trip was evaluated under (current policy if never submitted), with the owner\'s overrides applied' },
+    appliedOverrides: { type: 'array', description: 'Department, role or user overrides that changed the policy for the trip owner' },
+    tripTotalCents: { type: 'number', description: 'Total trip cost in cents (reporting currency)' },
+    reportingCurrency: { type: 'string', description: 'ISO 4217 currency of converted amounts and totals' },
     hasBlockers: { type: 'boolean', description: 'Whether trip has blocker violations' },
+    expenseReport: { type: 'object', description: 'Post-trip expense report reconciled against the approved amounts (null if none was filed)' },
     error: { type: 'object', description: 'Error details if success is false' },
   },
 })
@@ -254,9 +670,15 @@ export class ReviewPacketResult {
   items?: TripItemDTO[];
   violations?: ViolationDTO[];
   approvals?: ApprovalDTO[];
+  approvalStages?: ApprovalStageStatusDTO[];
+  currentStage?: string | null;
+  itemChanges?: TripItemChangeDTO[];
   policySnapshot?: PolicySnapshotDTO;
+  appliedOverrides?: AppliedPolicyOverrideDTO[];
   tripTotalCents?: number;
+  reportingCurrency?: string;
   hasBlockers?: boolean;
+  expenseReport?: ExpenseReportDTO | null;
   error?: StructuredError;
 }
 
@@ -264,8 +686,10 @@ export class ReviewPacketResult {
   description: 'Result of making an approval decision on a trip',
   properties: {
     success: { type: 'boolean', description: 'Whether the operation succeeded' },
-    newStatus: { type: 'string', description: 'The new trip status after decision' },
+    newStatus: { type: 'string', description: 'The new trip status after decision (stays pending_review while later stages remain; unchanged for an expense report review)' },
     approval: { type: 'object', description: 'The approval record created' },
+    nextStage: { type: 'string', description: 'Stage the trip now waits at (null if the decision was final)' },
+    expenseReportStatus: { type: 'string', description: 'New expense report status when a final decision settled an expense report review' },
     error: { type: 'object', description: 'Error details if success is false' },
   },
 })
@@ -273,6 +697,8 @@ export class DecideTripResult {
   success: boolean = false;
   newStatus?: TripStatus;
   approval?: ApprovalDTO;
+  nextStage?: string | null;
+  expenseReportStatus?: ExpenseReportStatus;
   error?: StructuredError;
 }
 
@@ -319,7 +745,7 @@ export class ViolationAnalyticsResult {
   description: 'Result of spend analytics query',
   properties: {
     success: { type: 'boolean', description: 'Whether the operation succeeded' },
-    summary: { type: 'object', description: 'Summary statistics' },
+    summary: { type: 'object', description: 'Summary statistics (amounts in the reporting currency)' },
     breakdown: { type: 'array', description: 'Breakdown by the requested grouping' },
     error: { type: 'object', description: 'Error details if success is false' },
   },
@@ -330,8 +756,924 @@ export class SpendAnalyticsResult {
     totalSpendCents: number;
     tripCount: number;
     averagePerTripCents: number;
+    reportingCurrency: string;
     dateRange: { start: string; end: string };
   };
   breakdown?: AnalyticsBreakdownItem[];
   error?: StructuredError;
-}
\ No newline at end of file
+}
+// =============================================================================
+// DEPARTMENT BUDGETS
+// =============================================================================
+
+@DaemoSchema({
+  description: 'How much of a department\'s travel budget is used in a fiscal period',
+  properties: {
+    department: { type: 'string', description: 'Department' },
+    fiscalPeriod: { type: 'string', description: 'Fiscal period label (e.g. FY2026-Q1)' },
+    periodStart: { type: 'string', description: 'First day of the period (YYYY-MM-DD)' },
+    periodEnd: { type: 'string', description: 'Last day of the period (YYYY-MM-DD)' },
+    budgetCents: { type: 'number', description: 'Travel budget in cents' },
+    approvedCents: { type: 'number', description: 'Total of approved trips in cents' },
+    pendingCents: { type: 'number', description: 'Total of trips waiting for review in cents' },
+    remainingCents: { type: 'number', description: 'Budget left after approved and pending trips (negative when over)' },
+    percentUsed: { type: 'number', description: 'Approved and pending spend as a percentage of the budget' },
+    overBudget: { type: 'boolean', description: 'True if approved and pending spend exceeds the budget' },
+    tripCount: { type: 'number', description: 'Number of approved and pending trips counted' },
+  },
+})
+export class DepartmentBudgetStatusDTO {
+  department: string = '';
+  fiscalPeriod: string = '';
+  periodStart: string = '';
+  periodEnd: string = '';
+  budgetCents: number = 0;
+  approvedCents: number = 0;
+  pendingCents: number = 0;
+  remainingCents: number = 0;
+  percentUsed: number = 0;
+  overBudget: boolean = false;
+  tripCount: number = 0;
+}
+
+@DaemoSchema({
+  description: 'Result of loading department budget status',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    onDate: { type: 'string', description: 'Date whose fiscal period was reported (YYYY-MM-DD)' },
+    reportingCurrency: { type: 'string', description: 'Currency of all amounts' },
+    budgets: { type: 'array', description: 'Budget status per department' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class BudgetStatusResult {
+  success: boolean = false;
+  onDate?: string;
+  reportingCurrency?: string;
+  budgets?: DepartmentBudgetStatusDTO[];
+  error?: StructuredError;
+}
+
+// =============================================================================
+// EXPENSE REPORTS
+// =============================================================================
+
+@DaemoSchema({
+  description: 'An expense actually incurred on an approved trip',
+  properties: {
+    id: { type: 'string', description: 'Unique expense ID (UUID)' },
+    tripId: { type: 'string', description: 'Trip the expense was incurred on' },
+    type: { type: 'string', description: 'Item type: flight | hotel | meal | transport' },
+    description: { type: 'string', description: 'Description of the expense' },
+    amountCents: { type: 'number', description: 'Amount in cents of the expense currency' },
+    currency: { type: 'string', description: 'ISO 4217 currency the expense was paid in' },
+    fxRate: { type: 'number', description: 'Exchange rate to the reporting currency' },
+    fxRateDate: { type: 'string', description: 'Date of the exchange rate used (null for the reporting currency)' },
+    reportingAmountCents: { type: 'number', description: 'Amount converted to the reporting currency, in cents' },
+    expenseDate: { type: 'string', description: 'Date the expense was incurred (YYYY-MM-DD)' },
+    companyPaid: { type: 'boolean', description: 'True if billed directly to the company (not reimbursed)' },
+    createdAt: { type: 'string', description: 'ISO timestamp of filing' },
+  },
+})
+export class ActualExpenseDTO {
+  id: string = '';
+  tripId: string = '';
+  type: ItemType = 'flight';
+  description: string = '';
+  amountCents: number = 0;
+  currency: string = 'USD';
+  fxRate: number = 1;
+  fxRateDate: string | null = null;
+  reportingAmountCents: number = 0;
+  expenseDate: string = '';
+  companyPaid: boolean = false;
+  createdAt: string = '';
+}
+
+@DaemoSchema({
+  description: 'Approved vs actual spend for one item type',
+  properties: {
+    itemType: { type: 'string', description: 'Item type: flight | hotel | meal | transport' },
+    approvedCents: { type: 'number', description: 'Total of the approved trip items of this type, in cents' },
+    actualCents: { type: 'number', description: 'Total of the actual expenses of this type, in cents' },
+    varianceCents: { type: 'number', description: 'Actual minus approved, in cents (positive when more was spent)' },
+    variancePercent: { type: 'number', description: 'Variance as a percentage of the approved amount (null when nothing was approved)' },
+  },
+})
+export class ExpenseReconciliationLineDTO {
+  itemType: ItemType = 'flight';
+  approvedCents: number = 0;
+  actualCents: number = 0;
+  varianceCents: number = 0;
+  variancePercent: number | null = null;
+}
+
+@DaemoSchema({
+  description: 'A post-trip expense report reconciled against the approved trip',
+  properties: {
+    id: { type: 'string', description: 'Unique report ID (UUID)' },
+    tripId: { type: 'string', description: 'Trip the report belongs to' },
+    status: { type: 'string', description: 'Report status: draft | reconciled | pending_review | approved | rejected' },
+    submittedAt: { type: 'string', description: 'ISO timestamp of the latest submission (null while never submitted)' },
+    expenses: { type: 'array', description: 'Actual expenses filed' },
+    reconciliation: { type: 'array', description: 'Approved vs actual spend per item type' },
+    approvedTotalCents: { type: 'number', description: 'Total of the approved trip in cents' },
+    actualTotalCents: { type: 'number', description: 'Total of the actual expenses in cents' },
+    reportingCurrency: { type: 'string', description: 'Currency of converted amounts and totals' },
+  },
+})
+export class ExpenseReportDTO {
+  id: string = '';
+  tripId: string = '';
+  status: ExpenseReportStatus = 'draft';
+  submittedAt: string | null = null;
+  expenses: ActualExpenseDTO[] = [];
+  reconciliation: ExpenseReconciliationLineDTO[] = [];
+  approvedTotalCents: number = 0;
+  actualTotalCents: number = 0;
+  reportingCurrency: string = 'USD';
+}
+
+@DaemoSchema({
+  description: 'Result of filing an actual expense',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    expense: { type: 'object', description: 'The expense filed' },
+    reportStatus: { type: 'string', description: 'Status of the trip\'s expense report' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class AddActualExpenseResult {
+  success: boolean = false;
+  expense?: ActualExpenseDTO;
+  reportStatus?: ExpenseReportStatus;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of removing an actual expense',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    removedExpenseId: { type: 'string', description: 'ID of the expense removed' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class RemoveActualExpenseResult {
+  success: boolean = false;
+  removedExpenseId?: string;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of submitting an expense report',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    report: { type: 'object', description: 'The submitted report with its reconciliation' },
+    violations: { type: 'array', description: 'OVER_APPROVED_AMOUNT violations raised by the report' },
+    sentForReview: { type: 'boolean', description: 'True if actual spend exceeded the approved amount by more than the tolerance and the report is in review; the trip stays approved' },
+    nextStage: { type: 'string', description: 'Stage the report now waits at (null unless sent for review)' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class SubmitExpenseReportResult {
+  success: boolean = false;
+  report?: ExpenseReportDTO;
+  violations?: ViolationDTO[];
+  sentForReview?: boolean;
+  nextStage?: string | null;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of loading a trip\'s expense report',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    report: { type: 'object', description: 'The expense report with its reconciliation' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ExpenseReportResult {
+  success: boolean = false;
+  report?: ExpenseReportDTO;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// REIMBURSEMENTS
+// =============================================================================
+
+@DaemoSchema({
+  description: 'How much of an approved trip has been paid back to the employee',
+  properties: {
+    status: { type: 'string', description: 'Payout status: unpaid | partially_paid | paid' },
+    basis: { type: 'string', description: 'What the amount owed is based on: approved_items | actual_expenses (once the expense report is accepted)' },
+    reimbursableCents: { type: 'number', description: 'Amount owed in cents, excluding company-paid items' },
+    paidCents: { type: 'number', description: 'Amount paid in cents (payment batches marked paid)' },
+    scheduledCents: { type: 'number', description: 'Amount in payment batches not yet paid, in cents' },
+    outstandingCents: { type: 'number', description: 'Amount owed and not yet in a payment batch, in cents' },
+    reportingCurrency: { type: 'string', description: 'Currency of all amounts' },
+  },
+})
+export class PayoutDTO {
+  status: ReimbursementStatus = 'unpaid';
+  basis: 'approved_items' | 'actual_expenses' = 'approved_items';
+  reimbursableCents: number = 0;
+  paidCents: number = 0;
+  scheduledCents: number = 0;
+  outstandingCents: number = 0;
+  reportingCurrency: string = 'USD';
+}
+
+@DaemoSchema({
+  description: 'An approved trip and what is owed to its owner',
+  properties: {
+    tripId: { type: 'string', description: 'Trip ID' },
+    userId: { type: 'string', description: 'Employee to be paid' },
+    employeeName: { type: 'string', description: 'Employee name' },
+    department: { type: 'string', description: 'Employee department' },
+    destinationCity: { type: 'string', description: 'Trip destination' },
+    startDate: { type: 'string', description: 'Trip start date (YYYY-MM-DD)' },
+    tripStatus: { type: 'string', description: 'Trip status: approved | approved_exception' },
+    payout: { type: 'object', description: 'Amounts owed, paid and scheduled' },
+  },
+})
+export class ReimbursementDTO {
+  tripId: string = '';
+  userId: string = '';
+  employeeName: string = '';
+  department: string = '';
+  destinationCity: string = '';
+  startDate: string = '';
+  tripStatus: TripStatus = 'approved';
+  payout: PayoutDTO = new PayoutDTO();
+}
+
+@DaemoSchema({
+  description: 'One payment in a payment batch',
+  properties: {
+    id: { type: 'string', description: 'Payment ID (UUID)' },
+    tripId: { type: 'string', description: 'Trip being reimbursed' },
+    userId: { type: 'string', description: 'Employee being paid' },
+    employeeName: { type: 'string', description: 'Employee name' },
+    amountCents: { type: 'number', description: 'Amount in cents of the reporting currency' },
+  },
+})
+export class ReimbursementPaymentDTO {
+  id: string = '';
+  tripId: string = '';
+  userId: string = '';
+  employeeName: string = '';
+  amountCents: number = 0;
+}
+
+@DaemoSchema({
+  description: 'A batch of reimbursement payments',
+  properties: {
+    id: { type: 'string', description: 'Batch ID (UUID)' },
+    reference: { type: 'string', description: 'Batch reference used on the payment file (e.g. PB-20261019-01)' },
+    status: { type: 'string', description: 'Batch status: draft | exported | paid' },
+    createdByUserId: { type: 'string', description: 'Finance user who created the batch' },
+    payments: { type: 'array', description: 'Payments in the batch' },
+    totalCents: { type: 'number', description: 'Total of the payments in cents' },
+    reportingCurrency: { type: 'string', description: 'Currency of all amounts' },
+    createdAt: { type: 'string', description: 'ISO timestamp of creation' },
+    exportedAt: { type: 'string', description: 'ISO timestamp of the export (null until exported)' },
+    paidAt: { type: 'string', description: 'ISO timestamp it was marked paid (null until paid)' },
+  },
+})
+export class PaymentBatchDTO {
+  id: string = '';
+  reference: string = '';
+  status: PaymentBatchStatus = 'draft';
+  createdByUserId: string = '';
+  payments: ReimbursementPaymentDTO[] = [];
+  totalCents: number = 0;
+  reportingCurrency: string = 'USD';
+  createdAt: string = '';
+  exportedAt: string | null = null;
+  paidAt: string | null = null;
+}
+
+@DaemoSchema({
+  description: 'Result of listing reimbursements',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    reimbursements: { type: 'array', description: 'Approved trips with their payout status' },
+    count: { type: 'number', description: 'Number of trips listed' },
+    totalOutstandingCents: { type: 'number', description: 'Total owed and not yet in a payment batch, in cents' },
+    reportingCurrency: { type: 'string', description: 'Currency of all amounts' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ListReimbursementsResult {
+  success: boolean = false;
+  reimbursements?: ReimbursementDTO[];
+  count?: number;
+  totalOutstandingCents?: number;
+  reportingCurrency?: string;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of creating a payment batch',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    batch: { type: 'object', description: 'The new batch' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class CreatePaymentBatchResult {
+  success: boolean = false;
+  batch?: PaymentBatchDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of exporting a payment batch',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    batch: { type: 'object', description: 'The exported batch' },
+    fileName: { type: 'string', description: 'Suggested file name' },
+    contentType: { type: 'string', description: 'MIME type of the file (text/csv)' },
+    content: { type: 'string', description: 'CSV file content, one row per payment' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ExportPaymentBatchResult {
+  success: boolean = false;
+  batch?: PaymentBatchDTO;
+  fileName?: string;
+  contentType?: string;
+  content?: string;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of marking a payment batch paid',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    batch: { type: 'object', description: 'The paid batch' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class MarkPaymentBatchPaidResult {
+  success: boolean = false;
+  batch?: PaymentBatchDTO;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// ACCOUNTING EXPORTS
+// =============================================================================
+
+@DaemoSchema({
+  description: 'A generated file',
+  properties: {
+    fileName: { type: 'string', description: 'Suggested file name' },
+    contentType: { type: 'string', description: 'MIME type of the file' },
+    content: { type: 'string', description: 'File content' },
+  },
+})
+export class ExportFileDTO {
+  fileName: string = '';
+  contentType: string = 'text/csv';
+  content: string = '';
+}
+
+@DaemoSchema({
+  description: 'A batch of approved trips exported to the general ledger',
+  properties: {
+    id: { type: 'string', description: 'Export ID (UUID)' },
+    reference: { type: 'string', description: 'Export reference, used as the journal batch (e.g. AE-20261019-01)' },
+    startDate: { type: 'string', description: 'First trip start date requested (YYYY-MM-DD)' },
+    endDate: { type: 'string', description: 'Last trip start date requested (YYYY-MM-DD)' },
+    tripIds: { type: 'array', description: 'Trips included in the export' },
+    tripCount: { type: 'number', description: 'Number of trips included' },
+    totalCents: { type: 'number', description: 'Total posted in cents' },
+    reportingCurrency: { type: 'string', description: 'Currency of all amounts' },
+    createdAt: { type: 'string', description: 'ISO timestamp of the export' },
+  },
+})
+export class AccountingExportDTO {
+  id: string = '';
+  reference: string = '';
+  startDate: string = '';
+  endDate: string = '';
+  tripIds: string[] = [];
+  tripCount: number = 0;
+  totalCents: number = 0;
+  reportingCurrency: string = 'USD';
+  createdAt: string = '';
+}
+
+@DaemoSchema({
+  description: 'Result of exporting approved trips to the general ledger',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    export: { type: 'object', description: 'The export that was recorded' },
+    csv: { type: 'object', description: 'CSV file with one row per approved item or actual expense posted' },
+    journal: { type: 'object', description: 'Double-entry journal file with one balanced entry per trip' },
+    alreadyExportedCount: { type: 'number', description: 'Approved trips in the range left out because an earlier export included them' },
+    unsettledExpenseReportCount: { type: 'number', description: 'Approved trips in the range left out because their expense report is missing, draft or in review' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ExportApprovedTripsResult {
+  success: boolean = false;
+  export?: AccountingExportDTO;
+  csv?: ExportFileDTO;
+  journal?: ExportFileDTO;
+  alreadyExportedCount?: number;
+  unsettledExpenseReportCount?: number;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// POLICY HISTORY
+// =============================================================================
+
+@DaemoSchema({
+  description: 'A single field that changed between two policy versions',
+  properties: {
+    field: { type: 'string', description: 'Policy field name (e.g. hotelNightlyCapCents)' },
+    previousValue: { type: 'object', description: 'Value in the previous version' },
+    newValue: { type: 'object', description: 'Value in this version' },
+  },
+})
+export class PolicyChangeDTO {
+  field: string = '';
+  previousValue: number | boolean | null = null;
+  newValue: number | boolean | null = null;
+}
+
+@DaemoSchema({
+  description: 'A policy version with the changes it introduced',
+  properties: {
+    policy: { type: 'object', description: 'Full policy values for this version' },
+    supersededOn: { type: 'string', description: 'Date the next version took effect (null if not superseded)' },
+    isCurrent: { type: 'boolean', description: 'Whether this version is in force today' },
+    changes: { type: 'array', description: 'Fields changed from the previous version (empty for the first version)' },
+  },
+})
+export class PolicyVersionDTO {
+  policy: PolicySnapshotDTO = new PolicySnapshotDTO();
+  supersededOn: string | null = null;
+  isCurrent: boolean = false;
+  changes: PolicyChangeDTO[] = [];
+}
+
+@DaemoSchema({
+  description: 'Result of listing travel policy versions',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    versions: { type: 'array', description: 'Policy versions, oldest first' },
+    currentVersion: { type: 'number', description: 'Version in force today' },
+    tripPolicyVersion: { type: 'number', description: 'Version the requested trip was evaluated under (only when tripId is given)' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class PolicyHistoryResult {
+  success: boolean = false;
+  versions?: PolicyVersionDTO[];
+  currentVersion?: number;
+  tripPolicyVersion?: number | null;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// AUDIT TRAIL
+// =============================================================================
+
+@DaemoSchema({
+  description: 'One entry in a trip\'s audit trail',
+  properties: {
+    id: { type: 'string', description: 'Audit event ID (UUID)' },
+    action: { type: 'string', description: 'What happened (e.g. trip.created, trip_item.updated, trip.status_changed, violations.evaluated, approval.recorded)' },
+    summary: { type: 'string', description: 'One-line description of the event' },
+    actorUserId: { type: 'string', description: 'User who acted' },
+    actorName: { type: 'string', description: 'Name of the user who acted' },
+    actorRole: { type: 'string', description: 'Role the user held at the time' },
+    onBehalfOfUserId: { type: 'string', description: 'Reviewer the actor covered for under a delegation (null if not delegated)' },
+    onBehalfOfName: { type: 'string', description: 'Name of the reviewer covered for' },
+    entityType: { type: 'string', description: 'Kind of record changed: trip, trip_item, receipt, violation or approval' },
+    entityId: { type: 'string', description: 'ID of the record changed (null for trip-wide violation events)' },
+    before: { type: 'object', description: 'Values before the change (null for creations)' },
+    after: { type: 'object', description: 'Values after the change (null for removals)' },
+    createdAt: { type: 'string', description: 'ISO timestamp of the event' },
+  },
+})
+export class AuditEventDTO {
+  id: string = '';
+  action: string = '';
+  summary: string = '';
+  actorUserId: string = '';
+  actorName: string = '';
+  actorRole: string = '';
+  onBehalfOfUserId: string | null = null;
+  onBehalfOfName: string | null = null;
+  entityType: string = '';
+  entityId: string | null = null;
+  before: Record<string, unknown> | null = null;
+  after: Record<string, unknown> | null = null;
+  createdAt: string = '';
+}
+
+@DaemoSchema({
+  description: 'Result of getting a trip\'s audit trail',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    tripId: { type: 'string', description: 'Trip the history is for' },
+    events: { type: 'array', description: 'Audit events, oldest first' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class TripHistoryResult {
+  success: boolean = false;
+  tripId?: string;
+  events?: AuditEventDTO[];
+  error?: StructuredError;
+}
+
+// =============================================================================
+// APPROVAL DELEGATIONS
+// =============================================================================
+
+@DaemoSchema({
+  description: 'Review authority granted by one reviewer to another for a date range',
+  properties: {
+    id: { type: 'string', description: 'Delegation ID (UUID)' },
+    delegatorUserId: { type: 'string', description: 'Reviewer granting their authority' },
+    delegatorName: { type: 'string', description: 'Name of the delegator' },
+    delegateUserId: { type: 'string', description: 'User covering for the delegator' },
+    delegateName: { type: 'string', description: 'Name of the delegate' },
+    startDate: { type: 'string', description: 'First day of cover (YYYY-MM-DD)' },
+    endDate: { type: 'string', description: 'Last day of cover (YYYY-MM-DD)' },
+    note: { type: 'string', description: 'Optional note, e.g. the reason for the cover' },
+    active: { type: 'boolean', description: 'Whether the delegation is in effect today' },
+    revokedAt: { type: 'string', description: 'When the delegation was revoked (null if not revoked)' },
+    createdAt: { type: 'string', description: 'ISO timestamp of creation' },
+  },
+})
+export class ApprovalDelegationDTO {
+  id: string = '';
+  delegatorUserId: string = '';
+  delegatorName: string = '';
+  delegateUserId: string = '';
+  delegateName: string = '';
+  startDate: string = '';
+  endDate: string = '';
+  note: string | null = null;
+  active: boolean = false;
+  revokedAt: string | null = null;
+  createdAt: string = '';
+}
+
+@DaemoSchema({
+  description: 'Result of delegating review authority',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    delegation: { type: 'object', description: 'The delegation created' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class DelegateApprovalsResult {
+  success: boolean = false;
+  delegation?: ApprovalDelegationDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of listing approval delegations',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    granted: { type: 'array', description: 'Delegations the current user granted, newest first' },
+    received: { type: 'array', description: 'Delegations the current user received, newest first' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ListApprovalDelegationsResult {
+  success: boolean = false;
+  granted?: ApprovalDelegationDTO[];
+  received?: ApprovalDelegationDTO[];
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of revoking an approval delegation',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    delegation: { type: 'object', description: 'The revoked delegation' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class RevokeApprovalDelegationResult {
+  success: boolean = false;
+  delegation?: ApprovalDelegationDTO;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// SEPARATION OF DUTIES
+// =============================================================================
+
+@DaemoSchema({
+  description: 'A separation-of-duties rule and whether it is enforced',
+  properties: {
+    rule: { type: 'string', description: 'Rule key: self_approval, reports_to_owner, same_department or distinct_stage_approvers' },
+    description: { type: 'string', description: 'What the rule prevents' },
+    enabled: { type: 'boolean', description: 'Whether the rule is enforced' },
+    configurable: { type: 'boolean', description: 'Whether admins can switch the rule off (self_approval cannot be)' },
+    updatedByUserId: { type: 'string', description: 'Admin who last changed the rule (null if still at its default)' },
+    updatedAt: { type: 'string', description: 'When the rule was last changed' },
+  },
+})
+export class SeparationOfDutiesRuleDTO {
+  rule: string = '';
+  description: string = '';
+  enabled: boolean = true;
+  configurable: boolean = true;
+  updatedByUserId: string | null = null;
+  updatedAt: string | null = null;
+}
+
+@DaemoSchema({
+  description: 'Result of listing separation-of-duties rules',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    rules: { type: 'array', description: 'Every rule with its current setting' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class SeparationOfDutiesRulesResult {
+  success: boolean = false;
+  rules?: SeparationOfDutiesRuleDTO[];
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of switching a separation-of-duties rule on or off',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the operation succeeded' },
+    rule: { type: 'object', description: 'The rule with its new setting' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class UpdateSeparationOfDutiesRuleResult {
+  success: boolean = false;
+  rule?: SeparationOfDutiesRuleDTO;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// AUDIT INTEGRITY
+// =============================================================================
+
+@DaemoSchema({
+  description: 'A place where a hash chain no longer matches what was written',
+  properties: {
+    chain: { type: 'string', description: 'Chain the break is in: approvals, review_comments or audit_events' },
+    recordId: { type: 'string', description: 'ID of the affected row' },
+    chainPosition: { type: 'number', description: 'Position of the row in the chain (null for rows without a hash)' },
+    problem: { type: 'string', description: 'hash_mismatch (row edited), broken_link (row before it edited or removed), missing_records (rows removed) or unchained_record (hash stripped)' },
+    detail: { type: 'string', description: 'Explanation of the break' },
+  },
+})
+export class IntegrityBreakDTO {
+  chain: string = '';
+  recordId: string = '';
+  chainPosition: number | null = null;
+  problem: string = '';
+  detail: string = '';
+}
+
+@DaemoSchema({
+  description: 'Verification result for one hash chain',
+  properties: {
+    chain: { type: 'string', description: 'approvals, review_comments or audit_events' },
+    intact: { type: 'boolean', description: 'Whether the chain verified without breaks' },
+    recordCount: { type: 'number', description: 'Rows in the table' },
+    chainedCount: { type: 'number', description: 'Rows covered by the chain' },
+    unchainedCount: { type: 'number', description: 'Rows written before the chain was introduced' },
+    headHash: { type: 'string', description: 'Hash of the last row; keep it outside the system to detect removal of the newest rows' },
+    breaks: { type: 'array', description: 'Every break found, in chain order' },
+  },
+})
+export class ChainIntegrityDTO {
+  chain: string = '';
+  intact: boolean = true;
+  recordCount: number = 0;
+  chainedCount: number = 0;
+  unchainedCount: number = 0;
+  headHash: string | null = null;
+  breaks: IntegrityBreakDTO[] = [];
+}
+
+@DaemoSchema({
+  description: 'Result of verifying the approval, review comment and audit hash chains',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the verification ran' },
+    intact: { type: 'boolean', description: 'Whether every chain verified without breaks' },
+    chains: { type: 'array', description: 'Result per chain' },
+    exceptionApprovals: { type: 'object', description: 'approved_exception decisions: total, and how many are chained and unaltered' },
+    verifiedAt: { type: 'string', description: 'ISO timestamp of the verification' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class VerifyAuditIntegrityResult {
+  success: boolean = false;
+  intact?: boolean;
+  chains?: ChainIntegrityDTO[];
+  exceptionApprovals?: { total: number; verified: number };
+  verifiedAt?: string;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// USERS
+// =============================================================================
+
+@DaemoSchema({
+  description: 'A user of the travel expense system',
+  properties: {
+    id: { type: 'string', description: 'User ID' },
+    name: { type: 'string', description: 'Full name' },
+    role: { type: 'string', description: 'employee | finance_manager | admin' },
+    department: { type: 'string', description: 'Department' },
+    managerId: { type: 'string', description: 'Line manager user ID (null if none)' },
+    active: { type: 'boolean', description: 'False once the user has been deactivated' },
+    deactivatedAt: { type: 'string', description: 'ISO timestamp of deactivation (null while active)' },
+    createdAt: { type: 'string', description: 'ISO timestamp of creation' },
+  },
+})
+export class UserDTO {
+  id: string = '';
+  name: string = '';
+  role: string = '';
+  department: string = '';
+  managerId: string | null = null;
+  active: boolean = true;
+  deactivatedAt: string | null = null;
+  createdAt: string = '';
+}
+
+@DaemoSchema({
+  description: 'Result of listing users',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the list was loaded' },
+    users: { type: 'array', description: 'Users ordered by name' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class ListUsersResult {
+  success: boolean = false;
+  users?: UserDTO[];
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of adding a user',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the user was created' },
+    user: { type: 'object', description: 'The new user' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class CreateUserResult {
+  success: boolean = false;
+  user?: UserDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of changing a user',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the user was updated' },
+    user: { type: 'object', description: 'The user after the change' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class UpdateUserResult {
+  success: boolean = false;
+  user?: UserDTO;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'Result of deactivating a user',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the user was deactivated' },
+    user: { type: 'object', description: 'The deactivated user' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class DeactivateUserResult {
+  success: boolean = false;
+  user?: UserDTO;
+  error?: StructuredError;
+}
+
+// =============================================================================
+// TRAVEL POLICY
+// =============================================================================
+
+@DaemoSchema({
+  description: 'Allowed range for a policy value',
+  properties: {
+    min: { type: 'number', description: 'Lowest allowed value' },
+    max: { type: 'number', description: 'Highest allowed value' },
+  },
+})
+export class PolicyBoundDTO {
+  min: number = 0;
+  max: number = 0;
+}
+
+@DaemoSchema({
+  description: 'Result of loading the travel policy',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the policy was loaded' },
+    policy: { type: 'object', description: 'The policy version in effect today' },
+    scheduled: { type: 'object', description: 'A later version that has not taken effect yet (null if none)' },
+    bounds: { type: 'object', description: 'Allowed range of each value, keyed by field name (amounts in cents)' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class TravelPolicyResult {
+  success: boolean = false;
+  policy?: PolicySnapshotDTO;
+  scheduled?: PolicySnapshotDTO | null;
+  bounds?: Record<string, PolicyBoundDTO>;
+  error?: StructuredError;
+}
+
+@DaemoSchema({
+  description: 'A violation that would appear or disappear under the proposed policy',
+  properties: {
+    code: { type: 'string', description: 'Violation code' },
+    severity: { type: 'string', description: 'Severity level: warning | blocker' },
+    tripItemId: { type: 'string', description: 'Trip item at fault (null for trip-level violations)' },
+    message: { type: 'string', description: 'Human-readable violation explanation' },
+  },
+})
+export class PolicyImpactViolationDTO {
+  code: ViolationCode = 'BUSINESS_CLASS';
+  severity: ViolationSeverity = 'warning';
+  tripItemId: string | null = null;
+  message: string = '';
+}
+
+@DaemoSchema({
+  description: 'How a pending trip\'s violations would change under the proposed policy',
+  properties: {
+    tripId: { type: 'string', description: 'Trip ID' },
+    employeeName: { type: 'string', description: 'Trip owner' },
+    destinationCity: { type: 'string', description: 'Destination city' },
+    gained: { type: 'array', description: 'Violations the trip would gain' },
+    lost: { type: 'array', description: 'Violations the trip would lose' },
+  },
+})
+export class PolicyImpactTripDTO {
+  tripId: string = '';
+  employeeName: string = '';
+  destinationCity: string = '';
+  gained: PolicyImpactViolationDTO[] = [];
+  lost: PolicyImpactViolationDTO[] = [];
+}
+
+@DaemoSchema({
+  description: 'Effect of a policy change on the trips currently waiting for review',
+  properties: {
+    pendingTrips: { type: 'number', description: 'Number of trips waiting for review' },
+    tripsGainingViolations: { type: 'number', description: 'Pending trips that would gain at least one violation' },
+    tripsLosingViolations: { type: 'number', description: 'Pending trips that would lose at least one violation' },
+    trips: { type: 'array', description: 'Pending trips whose violations would change' },
+  },
+})
+export class PolicyImpactDTO {
+  pendingTrips: number = 0;
+  tripsGainingViolations: number = 0;
+  tripsLosingViolations: number = 0;
+  trips: PolicyImpactTripDTO[] = [];
+}
+
+@DaemoSchema({
+  description: 'Result of previewing or applying a travel policy change',
+  properties: {
+    success: { type: 'boolean', description: 'Whether the preview or change succeeded' },
+    applied: { type: 'boolean', description: 'True if a new policy version was created; false for a preview' },
+    policy: { type: 'object', description: 'The new policy version (only when applied)' },
+    changes: { type: 'array', description: 'Fields that differ from the current policy' },
+    impact: { type: 'object', description: 'How pending trips\' violations would change' },
+    note: { type: 'string', description: 'What happens next' },
+    error: { type: 'object', description: 'Error details if success is false' },
+  },
+})
+export class UpdateTravelPolicyResult {
+  success: boolean = false;
+  applied?: boolean;
+  policy?: PolicySnapshotDTO;
+  changes?: PolicyChangeDTO[];
+  impact?: PolicyImpactDTO;
+  note?: string;
+  error?: StructuredError;
+}
@@ -0,0 +1,194 @@
+/**
+ * Request Authentication
+ *
+ * Resolves who is behind each tool call and runs the call in that user's
+ * session scope. The caller's identity is taken from the signed session
+ * token Daemo forwards with the call (AUTH_MODE=jwt, the default); role and
+ * department are always looked up from the users table, and deactivated
+ * users are turned away.
+ *
+ * AUTH_MODE=env is for local development: every call runs as
+ * SESSION_USER_ID, still with role and department from the users table.
+ */
+
+import * as db from '../db/queries';
+import type { SessionContext, StructuredError, UserRole } from '../types/domain';
+import { runWithSessionContext } from './context';
+import { verifySessionToken } from './sessionToken';
+
+export type AuthMode = 'jwt' | 'env';
+
+const VALID_MODES: AuthMode[] = ['jwt', 'env'];
+
+/**
+ * Credentials that may accompany a call, next to the LLM-provided arguments.
+ *
+ * This is this service's own contract, not a type exported by daemo-engine:
+ * the package does not publish its per-call metadata shape, so nothing here
+ * relies on a particular argument position (see readCallCredentials).
+ */
+export interface CallCredentials {
+  authToken?: string;
+  headers?: Record<string, string | undefined>;
+}
+
+/**
+ * Read the configured authentication mode (defaults to jwt).
+ */
+export function getAuthMode(): AuthMode {
+  const mode = (process.env.AUTH_MODE || 'jwt') as AuthMode;
+
+  if (!VALID_MODES.includes(mode)) {
+    throw new Error(
+      `AUTH_MODE must be one of: ${VALID_MODES.join(', ')}. Got: ${mode}`
+    );
+  }
+
+  return mode;
+}
+
+/**
+ * The bearer token of a call, from authToken or an Authorization header.
+ */
+function extractToken(credentials: CallCredentials | undefined): string | null {
+  if (credentials?.authToken) {
+    return credentials.authToken;
+  }
+
+  const header = credentials?.headers?.authorization ?? credentials?.headers?.Authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Find the credentials among the extra arguments of a call, whichever
+ * position they arrive in. Only objects carrying a string authToken or a
+ * headers object count, so LLM-provided arguments are never mistaken for
+ * credentials.
+ */
+export function readCallCredentials(extraArgs: unknown[]): CallCredentials | undefined {
+  for (const arg of extraArgs) {
+    if (!arg || typeof arg !== 'object') {
+      continue;
+    }
+    const candidate = arg as Record<string, unknown>;
+    if (
+      typeof candidate.authToken === 'string' ||
+      (candidate.headers !== null && typeof candidate.headers === 'object')
+    ) {
+      return candidate as CallCredentials;
+    }
+  }
+  return undefined;
+}
+
+function unauthenticated(message: string, hint: string): { error: StructuredError } {
+  return { error: { code: 'UNAUTHENTICATED', message, hint } };
+}
+
+/**
+ * Resolve the session identity for one call.
+ */
+export async function authenticateCall(
+  credentials?: CallCredentials
+): Promise<{ ctx?: SessionContext; error?: StructuredError }> {
+  let userId: string;
+
+  if (getAuthMode() === 'env') {
+    const configured = process.env.SESSION_USER_ID;
+    if (!configured) {
+      return unauthenticated(
+        'SESSION_USER_ID not configured',
+        'Set SESSION_USER_ID in .env, or use AUTH_MODE=jwt'
+      );
+    }
+    userId = configured;
+  } else {
+    const token = extractToken(credentials);
+    if (!token) {
+      return unauthenticated(
+        'No session token was provided with this call',
+        'Sign in again so the request carries a session token'
+      );
+    }
+
+    const verification = verifySessionToken(token, {
+      secret: process.env.AUTH_JWT_SECRET ?? '',
+      issuer: process.env.AUTH_JWT_ISSUER || undefined,
+      audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+    });
+    if (!verification.valid) {
+      return unauthenticated('Session token rejected', verification.reason);
+    }
+    userId = verification.claims.sub;
+  }
+
+  const user = await db.getUserById(userId);
+  if (!user) {
+    return unauthenticated(
+      `User ${userId} does not exist`,
+      'The session identifies a user that is not in the users table'
+    );
+  }
+
+  if (user.deactivated_at) {
+    return {
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Your account has been deactivated',
+        hint: `Deactivated on ${user.deactivated_at.slice(0, 10)}; ask an admin if this is a mistake`,
+      },
+    };
+  }
+
+  return {
+    ctx: {
+      userId: user.id,
+      role: user.role,
+      department: user.department,
+    },
+  };
+}
+
+/**
+ * Wrap every tool method of a service so each call is authenticated and
+ * runs in its own session scope. Calls that fail authentication return
+ * an UNAUTHENTICATED error without reaching the tool; deactivated users,
+ * and callers whose role is not in `roles` (when given), get FORBIDDEN.
+ *
+ * This fails closed: a call that reaches a tool without passing through
+ * the wrapper has no session scope, so getSessionContext() throws and the
+ * tool returns an error instead of running as anyone.
+ */
+export function withSessionAuthentication<T extends object>(service: T, roles?: UserRole[]): T {
+  const prototype = Object.getPrototypeOf(service) as Record<string, unknown>;
+  const methods = Object.getOwnPropertyNames(prototype).filter(
+    (name) => name !== 'constructor' && typeof prototype[name] === 'function'
+  );
+
+  for (const name of methods) {
+    const method = prototype[name] as (...args: unknown[]) => Promise<unknown>;
+
+    Object.defineProperty(service, name, {
+      configurable: true,
+      writable: true,
+      value: async (args: unknown, ...extraArgs: unknown[]) => {
+        const { ctx, error } = await authenticateCall(readCallCredentials(extraArgs));
+        if (!ctx) {
+          return { success: false, error };
+        }
+        if (roles && !roles.includes(ctx.role)) {
+          const forbidden: StructuredError = {
+            code: 'FORBIDDEN',
+            message: `This assistant is not available to the '${ctx.role}' role`,
+            hint: 'Sign in to the assistant for your role',
+          };
+          return { success: false, error: forbidden };
+        }
+        return runWithSessionContext(ctx, () => method.call(service, args));
+      },
+    });
+  }
+
+  return service;
+}
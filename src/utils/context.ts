@@ -1,52 +1,41 @@
 /**
  * Session Context Injection
- * 
- * This module simulates Daemo's Context Injection principle by reading
- * user identity from environment variables rather than accepting them
- * from LLM-provided function arguments.
- * 
- * In production, this would integrate with your actual auth system
- * (JWT tokens, session middleware, etc.)
+ *
+ * Implements Daemo's Context Injection principle: user identity comes from
+ * the authenticated request, never from LLM-provided function arguments.
+ *
+ * Each tool call runs inside its own session scope (see utils/auth.ts), so
+ * one agent process can serve many users at the same time.
  */
 
-import type { SessionContext, UserRole } from '../types/domain';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { SessionContext } from '../types/domain';
 
-const VALID_ROLES: UserRole[] = ['employee', 'finance_manager', 'admin'];
+const sessionScope = new AsyncLocalStorage<SessionContext>();
 
 /**
- * Get the current session context from environment variables.
+ * Run a tool call with the given session identity.
+ */
+export function runWithSessionContext<T>(ctx: SessionContext, fn: () => T): T {
+  return sessionScope.run(ctx, fn);
+}
+
+/**
+ * Get the session context of the current tool call.
  * This is called at the start of every tool function to inject identity.
- * 
+ *
  * The LLM CANNOT override these values - they come from a trusted source.
  */
 export function getSessionContext(): SessionContext {
-  const userId = process.env.SESSION_USER_ID;
-  const role = process.env.SESSION_ROLE as UserRole | undefined;
-  const department = process.env.SESSION_DEPARTMENT;
+  const ctx = sessionScope.getStore();
 
-  if (!userId) {
+  if (!ctx) {
     throw new Error(
-      'SESSION_USER_ID not configured. Set it in .env to simulate an authenticated user.'
+      'No authenticated session for this call. Register the service through withSessionAuthentication().'
     );
   }
 
-  if (!role || !VALID_ROLES.includes(role)) {
-    throw new Error(
-      `SESSION_ROLE must be one of: ${VALID_ROLES.join(', ')}. Got: ${role}`
-    );
-  }
-
-  if (!department) {
-    throw new Error(
-      'SESSION_DEPARTMENT not configured. Set it in .env to simulate an authenticated user.'
-    );
-  }
-
-  return {
-    userId,
-    role,
-    department,
-  };
+  return ctx;
 }
 
 /**
@@ -61,4 +50,4 @@ export function isFinanceOrAdmin(ctx: SessionContext): boolean {
  */
 export function isAdmin(ctx: SessionContext): boolean {
   return ctx.role === 'admin';
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+/**
+ * CSV Utilities
+ *
+ * Builds RFC 4180 CSV text for files finance hands to other systems.
+ * Fields containing a comma, quote or line break are quoted, with quotes
+ * doubled; lines end in CRLF. Text that a spreadsheet would run as a
+ * formula is prefixed with an apostrophe so it opens as plain text.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/** Leading characters spreadsheets treat as the start of a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Plain numbers, including negative amounts, are data rather than formulas */
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Quote a single field if it needs it
+ * @param value - Field value (null and undefined become an empty field)
+ * @returns The field as it appears in the file
+ */
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document with a header row
+ * @param headers - Column names
+ * @param rows - One array of values per row, in header order
+ * @returns CSV text ending with a line break
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvField).join(',') + '\r\n').join('');
+}
@@ -3,8 +3,13 @@
  * 
  * All monetary values are stored and processed as INTEGER CENTS
  * to ensure deterministic calculations without floating-point errors.
+ *
+ * Items can be recorded in any currency; policy checks, totals and analytics
+ * work on amounts converted to the company reporting currency.
  */
 
+const DEFAULT_REPORTING_CURRENCY = 'USD';
+
 /**
  * Convert cents to a formatted dollar string for display
  * @param cents - Amount in cents (integer)
@@ -44,4 +49,46 @@ export function centsToDollars(cents: number): string {
   export function averageCents(values: number[]): number {
     if (values.length === 0) return 0;
     return Math.round(sumCents(values) / values.length);
-  }
\ No newline at end of file
+  }
+
+  /**
+   * Get the company reporting currency (REPORTING_CURRENCY, defaults to USD)
+   * @returns ISO 4217 currency code
+   */
+  export function getReportingCurrency(): string {
+    return (process.env.REPORTING_CURRENCY || DEFAULT_REPORTING_CURRENCY).toUpperCase();
+  }
+
+  /**
+   * Convert cents to a formatted string in any currency
+   * @param cents - Amount in minor units (integer)
+   * @param currency - ISO 4217 code (defaults to the reporting currency)
+   * @returns Formatted string like "€1,234.56"
+   */
+  export function formatCents(cents: number, currency: string = getReportingCurrency()): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(cents / 100);
+  }
+
+  /**
+   * Convert an amount with an exchange rate, rounding to whole cents
+   * @param cents - Amount in the source currency
+   * @param rate - Units of target currency per unit of source currency
+   * @returns Integer cents in the target currency
+   */
+  export function convertCents(cents: number, rate: number): number {
+    return Math.round(cents * rate);
+  }
+
+  /**
+   * Convert cents to a plain decimal string for files and exports
+   * @param cents - Amount in minor units (integer)
+   * @returns String like "1234.56" (no symbol or grouping)
+   */
+  export function centsToDecimal(cents: number): string {
+    const sign = cents < 0 ? '-' : '';
+    const abs = Math.abs(cents);
+    return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, '0')}`;
+  }
@@ -5,16 +5,35 @@
  * All permission checks happen server-side in tool functions.
  */
 
-import type { SessionContext, TripStatus, StructuredError } from '../types/domain';
+import type {
+  ApprovalDelegationRow,
+  ApprovalStageRow,
+  ExpenseReportStatus,
+  SessionContext,
+  TripStatus,
+  StructuredError,
+  UserRow,
+} from '../types/domain';
+import { isAdmin, isFinanceOrAdmin } from './context';
+
+/**
+ * Session identity of a reviewer whose authority has been delegated
+ */
+function delegatorContext(delegator: UserRow): SessionContext {
+  return { userId: delegator.id, role: delegator.role, department: delegator.department };
+}
 
 /**
  * Check if user can view a trip
- * - Employees can only view their own trips
+ * - Employees can only view their own trips and their direct reports' trips
  * - Finance managers and admins can view any trip
+ * - Delegates can view what the reviewers they cover for can view
  */
 export function canViewTrip(
   ctx: SessionContext,
-  tripUserId: string
+  tripUserId: string,
+  tripOwnerManagerId: string | null = null,
+  delegators: UserRow[] = []
 ): { allowed: boolean; error?: StructuredError } {
   if (ctx.role === 'finance_manager' || ctx.role === 'admin') {
     return { allowed: true };
@@ -24,6 +43,19 @@ export function canViewTrip(
     return { allowed: true };
   }
 
+  // Line managers review their reports' trips
+  if (tripOwnerManagerId && ctx.userId === tripOwnerManagerId) {
+    return { allowed: true };
+  }
+
+  // Out-of-office cover
+  const coveredFor = delegators.some(
+    (d) => canViewTrip(delegatorContext(d), tripUserId, tripOwnerManagerId).allowed
+  );
+  if (coveredFor) {
+    return { allowed: true };
+  }
+
   return {
     allowed: false,
     error: {
@@ -96,9 +128,132 @@ export function canSubmitTrip(
       error: {
         code: 'INVALID_STATE',
         message: `Trip is already in '${tripStatus}' status and cannot be resubmitted`,
-        hint: tripStatus === 'pending_review' 
-          ? 'This trip is already pending review' 
-          : 'This trip has already been processed',
+        hint: tripStatus === 'pending_review'
+          ? 'This trip is already pending review'
+          : tripStatus === 'cancelled'
+            ? 'This trip was cancelled; create a new trip instead'
+            : 'This trip has already been processed',
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can cancel a trip
+ * - Only the trip owner can cancel
+ * - Trip must be in draft status (withdraw a pending trip first)
+ */
+export function canCancelTrip(
+  ctx: SessionContext,
+  tripUserId: string,
+  tripStatus: TripStatus
+): { allowed: boolean; error?: StructuredError } {
+  if (ctx.userId !== tripUserId) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You can only cancel your own trips',
+      },
+    };
+  }
+
+  if (tripStatus !== 'draft') {
+    return {
+      allowed: false,
+      error: {
+        code: 'INVALID_STATE',
+        message: `Trip is in '${tripStatus}' status and cannot be cancelled`,
+        hint: tripStatus === 'pending_review'
+          ? 'Withdraw the trip from review first, then cancel it'
+          : 'Only draft trips can be cancelled',
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can withdraw a trip from review
+ * - Only the trip owner can withdraw
+ * - Trip must be in pending_review status (decided trips are final)
+ */
+export function canWithdrawTrip(
+  ctx: SessionContext,
+  tripUserId: string,
+  tripStatus: TripStatus
+): { allowed: boolean; error?: StructuredError } {
+  if (ctx.userId !== tripUserId) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You can only withdraw your own trips',
+      },
+    };
+  }
+
+  if (tripStatus !== 'pending_review') {
+    return {
+      allowed: false,
+      error: {
+        code: 'INVALID_STATE',
+        message: `Trip is in '${tripStatus}' status and cannot be withdrawn`,
+        hint: tripStatus === 'draft'
+          ? 'This trip has not been submitted yet'
+          : 'Only trips pending review can be withdrawn',
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can file actual expenses and submit the expense report
+ * - Only the trip owner can file expenses
+ * - Trip must be approved (or approved as an exception)
+ * - The report must not have been submitted yet (or was sent back for changes)
+ */
+export function canFileExpenseReport(
+  ctx: SessionContext,
+  tripUserId: string,
+  tripStatus: TripStatus,
+  reportStatus: ExpenseReportStatus | null
+): { allowed: boolean; error?: StructuredError } {
+  if (ctx.userId !== tripUserId) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You can only file expenses for your own trips',
+      },
+    };
+  }
+
+  if (reportStatus !== null && reportStatus !== 'draft') {
+    return {
+      allowed: false,
+      error: {
+        code: 'INVALID_STATE',
+        message: `The expense report is '${reportStatus}' and can no longer be changed`,
+        hint: reportStatus === 'pending_review'
+          ? 'Wait for the review; if changes are requested the report opens again'
+          : 'Each trip has a single expense report',
+      },
+    };
+  }
+
+  if (tripStatus !== 'approved' && tripStatus !== 'approved_exception') {
+    return {
+      allowed: false,
+      error: {
+        code: 'INVALID_STATE',
+        message: `Trip is in '${tripStatus}' status; expenses can only be filed for approved trips`,
+        hint: 'File actual expenses after the trip has been approved',
       },
     };
   }
@@ -106,33 +261,195 @@ export function canSubmitTrip(
   return { allowed: true };
 }
 
+/**
+ * Check if user can preview policy violations for a trip
+ * - Trip owner, finance managers and admins can preview
+ * - Trip must be in draft status (submitted trips already have violations)
+ */
+export function canPreviewTrip(
+  ctx: SessionContext,
+  tripUserId: string,
+  tripStatus: TripStatus
+): { allowed: boolean; error?: StructuredError } {
+  const viewPermission = canViewTrip(ctx, tripUserId);
+  if (!viewPermission.allowed) {
+    return viewPermission;
+  }
+
+  if (tripStatus !== 'draft') {
+    return {
+      allowed: false,
+      error: {
+        code: 'INVALID_STATE',
+        message: `Trip is in '${tripStatus}' status; only draft trips can be previewed`,
+        hint: 'Submitted trips already have violations; use getTripReviewPacket to see them',
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can sign off an approval chain stage
+ * - Line manager stages: only the trip owner's manager
+ * - Role stages: users with the stage's role; admins can act at any role stage
+ */
+export function canActAtStage(
+  ctx: SessionContext,
+  stage: ApprovalStageRow,
+  owner: UserRow | null
+): { allowed: boolean; error?: StructuredError } {
+  if (stage.approver_type === 'line_manager') {
+    if (owner?.manager_id && ctx.userId === owner.manager_id) {
+      return { allowed: true };
+    }
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: `Trip is waiting at the '${stage.name}' stage; only the employee's line manager can decide`,
+      },
+    };
+  }
+
+  if (ctx.role === stage.approver_role || ctx.role === 'admin') {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    error: {
+      code: 'FORBIDDEN',
+      message: `Trip is waiting at the '${stage.name}' stage, which needs the ${stage.approver_role} role`,
+      hint: `Your current role is '${ctx.role}'`,
+    },
+  };
+}
+
+/**
+ * Check if user can sign off a stage themselves or under a delegation
+ * - Tries the user's own authority first, then each active delegator's
+ * - A delegation never lets the delegate act on the delegator's own trip
+ */
+export function canActAtStageWithDelegation(
+  ctx: SessionContext,
+  stage: ApprovalStageRow,
+  owner: UserRow | null,
+  delegators: UserRow[] = []
+): { allowed: boolean; error?: StructuredError; onBehalfOf?: UserRow } {
+  const direct = canActAtStage(ctx, stage, owner);
+  if (direct.allowed) {
+    return direct;
+  }
+
+  for (const delegator of delegators) {
+    if (owner && delegator.id === owner.id) continue;
+    if (canActAtStage(delegatorContext(delegator), stage, owner).allowed) {
+      return { allowed: true, onBehalfOf: delegator };
+    }
+  }
+
+  return direct;
+}
+
 /**
  * Check if user can review/decide on a trip
- * - Only finance_manager or admin can review
- * - Trip must be in pending_review status
+ * - Trip must be in pending_review status, or approved with its expense
+ *   report in review
+ * - Nobody can review their own trip, whatever their role
+ * - User must be able to act at the trip's current approval stage,
+ *   directly or on behalf of a reviewer who delegated to them
  */
 export function canReviewTrip(
   ctx: SessionContext,
-  tripStatus: TripStatus
+  tripStatus: TripStatus,
+  inExpenseReview: boolean,
+  currentStage: ApprovalStageRow | null,
+  owner: UserRow | null,
+  delegators: UserRow[] = []
+): { allowed: boolean; error?: StructuredError; onBehalfOf?: UserRow } {
+  if (tripStatus !== 'pending_review' && !inExpenseReview) {
+    return {
+      allowed: false,
+      error: {
+        code: 'INVALID_STATE',
+        message: `Trip is in '${tripStatus}' status and cannot be reviewed`,
+        hint: 'Only trips with pending_review status, or an expense report in review, can be approved or denied',
+      },
+    };
+  }
+
+  if (owner && ctx.userId === owner.id) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You cannot review your own trip',
+        hint: 'Separation of duties: another reviewer must decide on this trip',
+      },
+    };
+  }
+
+  if (!currentStage) {
+    return {
+      allowed: false,
+      error: {
+        code: 'INVALID_STATE',
+        message: 'Every approval stage has already signed off on this trip',
+      },
+    };
+  }
+
+  return canActAtStageWithDelegation(ctx, currentStage, owner, delegators);
+}
+
+/**
+ * Check if user can delegate their review authority
+ * - Only finance_manager or admin can delegate
+ */
+export function canDelegateApprovals(
+  ctx: SessionContext
 ): { allowed: boolean; error?: StructuredError } {
   if (ctx.role !== 'finance_manager' && ctx.role !== 'admin') {
     return {
       allowed: false,
       error: {
         code: 'FORBIDDEN',
-        message: 'Only finance managers and admins can review trips',
+        message: 'Only finance managers and admins can delegate their review authority',
         hint: `Your current role is '${ctx.role}'`,
       },
     };
   }
 
-  if (tripStatus !== 'pending_review') {
+  return { allowed: true };
+}
+
+/**
+ * Check if user can revoke a delegation
+ * - The delegator or an admin can revoke
+ * - Revoked delegations cannot be revoked again
+ */
+export function canRevokeDelegation(
+  ctx: SessionContext,
+  delegation: ApprovalDelegationRow
+): { allowed: boolean; error?: StructuredError } {
+  if (ctx.userId !== delegation.delegator_user_id && ctx.role !== 'admin') {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You can only revoke delegations you granted',
+      },
+    };
+  }
+
+  if (delegation.revoked_at) {
     return {
       allowed: false,
       error: {
         code: 'INVALID_STATE',
-        message: `Trip is in '${tripStatus}' status and cannot be reviewed`,
-        hint: 'Only trips with pending_review status can be approved or denied',
+        message: `Delegation was already revoked at ${delegation.revoked_at}`,
       },
     };
   }
@@ -159,4 +476,172 @@ export function canViewAnalytics(
   }
 
   return { allowed: true };
-}
\ No newline at end of file
+}
+
+/**
+ * Check if user can view policy version history
+ * - Only finance_manager or admin can view policy history
+ */
+export function canViewPolicyHistory(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (ctx.role !== 'finance_manager' && ctx.role !== 'admin') {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only finance managers and admins can view policy history',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can view department budgets
+ * - Only finance_manager or admin can view budgets
+ */
+export function canViewBudgets(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (!isFinanceOrAdmin(ctx)) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only finance managers and admins can view department budgets',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can list reimbursements and manage payment batches
+ * - Only finance_manager or admin can pay reimbursements
+ */
+export function canManageReimbursements(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (!isFinanceOrAdmin(ctx)) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only finance managers and admins can manage reimbursements',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can export approved trips to the general ledger
+ * - Only finance_manager or admin can export accounting data
+ */
+export function canExportAccounting(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (!isFinanceOrAdmin(ctx)) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only finance managers and admins can export accounting data',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can view and change separation-of-duties rules
+ * - Only admins can configure separation of duties
+ */
+export function canManageSeparationOfDuties(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (ctx.role !== 'admin') {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only admins can configure separation of duties',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can verify the approval, review comment and audit hash chains
+ * - Only admins can verify audit integrity
+ */
+export function canVerifyAuditIntegrity(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (ctx.role !== 'admin') {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only admins can verify audit integrity',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can list, create, change and deactivate users
+ * - Only admins can manage users
+ */
+export function canManageUsers(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (!isAdmin(ctx)) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only admins can manage users',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check if user can view and change the travel policy
+ * - Only admins can change the travel policy
+ */
+export function canManageTravelPolicy(
+  ctx: SessionContext
+): { allowed: boolean; error?: StructuredError } {
+  if (!isAdmin(ctx)) {
+    return {
+      allowed: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Only admins can change the travel policy',
+        hint: `Your current role is '${ctx.role}'`,
+      },
+    };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,122 @@
+/**
+ * Session Tokens
+ *
+ * Signed JWTs (HS256) that identify the user behind a tool call. Only the
+ * user ID is taken from the token; role and department are looked up from
+ * the users table, so a token cannot grant more than the user has.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Tolerance for clocks that disagree between the issuer and this agent */
+const CLOCK_SKEW_SECONDS = 30;
+
+export interface SessionTokenClaims {
+  sub: string;                          // User ID
+  exp: number;                          // Expiry, seconds since epoch
+  iat?: number;
+  nbf?: number;
+  iss?: string;
+  aud?: string | string[];
+}
+
+export interface SessionTokenOptions {
+  secret: string;
+  issuer?: string;
+  audience?: string;
+}
+
+export type SessionTokenVerification =
+  | { valid: true; claims: SessionTokenClaims }
+  | { valid: false; reason: string };
+
+function base64UrlEncode(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(input: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(input).digest();
+}
+
+function parseSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issue a token for a user, e.g. from an identity provider or for local testing.
+ */
+export function signSessionToken(
+  userId: string,
+  options: SessionTokenOptions & { expiresInSeconds?: number }
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionTokenClaims = {
+    sub: userId,
+    iat: now,
+    exp: now + (options.expiresInSeconds ?? 3600),
+    ...(options.issuer ? { iss: options.issuer } : {}),
+    ...(options.audience ? { aud: options.audience } : {}),
+  };
+
+  const input = `${base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(claims))}`;
+  return `${input}.${base64UrlEncode(sign(input, options.secret))}`;
+}
+
+/**
+ * Check a token's signature, lifetime, issuer and audience.
+ */
+export function verifySessionToken(
+  token: string,
+  options: SessionTokenOptions
+): SessionTokenVerification {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return { valid: false, reason: 'Token is not a JWT' };
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+  const header = parseSegment(headerSegment);
+  if (!header || header.alg !== 'HS256') {
+    return { valid: false, reason: 'Token must be signed with HS256' };
+  }
+
+  const expected = sign(`${headerSegment}.${payloadSegment}`, options.secret);
+  const actual = Buffer.from(signatureSegment, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { valid: false, reason: 'Token signature is invalid' };
+  }
+
+  const claims = parseSegment(payloadSegment);
+  if (!claims || typeof claims.sub !== 'string' || claims.sub === '') {
+    return { valid: false, reason: 'Token has no subject (sub) claim' };
+  }
+  if (typeof claims.exp !== 'number') {
+    return { valid: false, reason: 'Token has no expiry (exp) claim' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.exp + CLOCK_SKEW_SECONDS <= now) {
+    return { valid: false, reason: 'Token has expired' };
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    return { valid: false, reason: 'Token is not valid yet' };
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    return { valid: false, reason: `Token was not issued by '${options.issuer}'` };
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      return { valid: false, reason: `Token is not intended for '${options.audience}'` };
+    }
+  }
+
+  return { valid: true, claims: claims as unknown as SessionTokenClaims };
+}
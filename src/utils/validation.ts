@@ -59,6 +59,16 @@ export const dateSchema = z.string().regex(
   'Date must be in YYYY-MM-DD format'
 );
 
+export const currencySchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO 4217 code (e.g. USD, EUR)')
+  .transform((code) => code.toUpperCase());
+
+export const countrySchema = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/, 'Country must be a 2-letter ISO 3166-1 code (e.g. US, GB)')
+  .transform((code) => code.toUpperCase());
+
 export const itemTypeSchema = z.enum(['flight', 'hotel', 'meal', 'transport']);
 
 export const tripStatusSchema = z.enum([
@@ -67,14 +77,59 @@ export const tripStatusSchema = z.enum([
   'approved',
   'approved_exception',
   'denied',
+  'cancelled',
 ]);
 
 export const approvalDecisionSchema = z.enum([
   'approved',
   'approved_exception',
   'denied',
+  'changes_requested',
 ]);
 
+export const RECEIPT_CONTENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/heic',
+  'image/webp',
+] as const;
+
+export const receiptContentTypeSchema = z.enum(RECEIPT_CONTENT_TYPES);
+
+/**
+ * Whether text is base64 (line breaks and missing padding allowed). Checked
+ * by decoding and re-encoding, which takes linear time on large uploads.
+ */
+function isBase64(value: string): boolean {
+  const compact = value.replace(/\s+/g, '').replace(/=+$/, '');
+  if (compact.length === 0) return false;
+  return Buffer.from(compact, 'base64').toString('base64').replace(/=+$/, '') === compact;
+}
+
+export const userRoleSchema = z.enum(['employee', 'finance_manager', 'admin']);
+
+/**
+ * Allowed ranges for the travel policy values an admin can set. Amounts are
+ * in cents of the reporting currency.
+ */
+export const TRAVEL_POLICY_BOUNDS = {
+  hotelNightlyCapCents: { min: 5_000, max: 200_000 },
+  mealDailyCapCents: { min: 1_000, max: 50_000 },
+  preapprovalOverCents: { min: 10_000, max: 5_000_000 },
+  receiptRequiredOverCents: { min: 0, max: 100_000 },
+  businessClassMinFlightHours: { min: 1, max: 24 },
+} as const;
+
+function boundedCentsSchema(field: keyof typeof TRAVEL_POLICY_BOUNDS) {
+  const { min, max } = TRAVEL_POLICY_BOUNDS[field];
+  return z
+    .number()
+    .int('Amount must be a whole number of cents')
+    .min(min, `Must be at least ${min} cents`)
+    .max(max, `Must be at most ${max} cents`);
+}
+
 export const groupByViolationSchema = z.enum(['type', 'department']);
 export const groupBySpendSchema = z.enum(['department', 'employee']);
 
@@ -84,6 +139,7 @@ export const groupBySpendSchema = z.enum(['department', 'employee']);
 
 export const createTripArgsSchema = z.object({
   destinationCity: z.string().min(1, 'Destination city is required'),
+  destinationCountry: countrySchema.optional(),
   startDate: dateSchema,
   endDate: dateSchema,
   purpose: z.string().min(1, 'Purpose is required'),
@@ -92,18 +148,115 @@ export const createTripArgsSchema = z.object({
   { message: 'Start date must be on or before end date' }
 );
 
-export const addTripItemArgsSchema = z.object({
+export const updateTripArgsSchema = z.object({
+  tripId: uuidSchema,
+  destinationCity: z.string().min(1, 'Destination city is required').optional(),
+  destinationCountry: countrySchema.nullable().optional(),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  purpose: z.string().min(1, 'Purpose is required').optional(),
+}).refine(
+  (data) =>
+    data.destinationCity !== undefined ||
+    data.destinationCountry !== undefined ||
+    data.startDate !== undefined ||
+    data.endDate !== undefined ||
+    data.purpose !== undefined,
+  { message: 'Provide at least one field to change' }
+);
+
+export const cancelTripArgsSchema = z.object({
+  tripId: uuidSchema,
+});
+
+export const withdrawTripArgsSchema = z.object({
   tripId: uuidSchema,
+});
+
+/** Item fields shared by adding and updating an item */
+const tripItemFieldsSchema = z.object({
   type: itemTypeSchema,
   description: z.string().min(1, 'Description is required'),
   amountCents: z.number().int().positive('Amount must be a positive integer (cents)'),
+  currency: currencySchema.optional(),
   meta: z.record(z.unknown()).optional().default({}),
+  companyPaid: z.boolean().optional().default(false),
+});
+
+export const addTripItemArgsSchema = z.object({
+  tripId: uuidSchema,
+}).merge(tripItemFieldsSchema);
+
+export const updateTripItemArgsSchema = z.object({
+  tripItemId: uuidSchema,
+}).merge(tripItemFieldsSchema.partial()).refine(
+  (data) =>
+    data.type !== undefined ||
+    data.description !== undefined ||
+    data.amountCents !== undefined ||
+    data.currency !== undefined ||
+    data.meta !== undefined ||
+    data.companyPaid !== undefined,
+  { message: 'Provide at least one field to change' }
+);
+
+export const removeTripItemArgsSchema = z.object({
+  tripItemId: uuidSchema,
+});
+
+export const importBookingConfirmationArgsSchema = z.object({
+  tripId: uuidSchema,
+  text: z
+    .string()
+    .min(20, 'Paste the full confirmation text')
+    .max(20000, 'Confirmation text is too long (max 20,000 characters)'),
+  addToTrip: z.boolean().optional().default(false),
 });
 
 export const submitTripArgsSchema = z.object({
   tripId: uuidSchema,
 });
 
+export const previewPolicyViolationsArgsSchema = z.object({
+  tripId: uuidSchema,
+});
+
+export const attachReceiptArgsSchema = z.object({
+  tripItemId: uuidSchema,
+  fileName: z.string().min(1, 'File name is required').max(255, 'File name is too long'),
+  contentType: receiptContentTypeSchema,
+  contentBase64: z
+    .string()
+    .min(1, 'Receipt content is required')
+    .refine(isBase64, 'Receipt content must be base64 encoded'),
+});
+
+export const listReceiptsArgsSchema = z.object({
+  tripId: uuidSchema,
+});
+
+export const addActualExpenseArgsSchema = z.object({
+  tripId: uuidSchema,
+  type: itemTypeSchema,
+  description: z.string().min(1, 'Description is required'),
+  amountCents: z.number().int().positive('Amount must be a positive integer (cents)'),
+  currency: currencySchema.optional(),
+  expenseDate: dateSchema,
+  companyPaid: z.boolean().optional().default(false),
+});
+
+export const removeActualExpenseArgsSchema = z.object({
+  expenseId: uuidSchema,
+});
+
+export const submitExpenseReportArgsSchema = z.object({
+  tripId: uuidSchema,
+});
+
+export const getExpenseReportArgsSchema = z.object({
+  tripId: uuidSchema,
+});
+
 export const getMyTripsArgsSchema = z.object({
   status: tripStatusSchema.optional(),
 }).optional().transform(val => val ?? {});
@@ -117,10 +270,21 @@ export const getTripReviewPacketArgsSchema = z.object({
   tripId: uuidSchema,
 });
 
+export const getTripHistoryArgsSchema = z.object({
+  tripId: uuidSchema,
+});
+
+export const reviewCommentSchema = z.object({
+  tripItemId: uuidSchema.optional(),
+  violationId: uuidSchema.optional(),
+  comment: z.string().trim().min(1, 'Comment is required'),
+});
+
 export const decideTripArgsSchema = z.object({
   tripId: uuidSchema,
   decision: approvalDecisionSchema,
   reason: z.string().optional(),
+  comments: z.array(reviewCommentSchema).optional(),
 }).refine(
   (data) => {
     // Reason is required for approved_exception
@@ -133,8 +297,49 @@ export const decideTripArgsSchema = z.object({
     message: 'Reason is required when approving with exception',
     path: ['reason'],
   }
+).refine(
+  (data) => {
+    // The employee needs to know what to fix
+    if (data.decision === 'changes_requested' && !data.reason?.trim() && !data.comments?.length) {
+      return false;
+    }
+    return true;
+  },
+  {
+    message: 'A reason or at least one comment is required when requesting changes',
+    path: ['comments'],
+  }
+);
+
+export const delegateApprovalsArgsSchema = z.object({
+  delegateUserId: uuidSchema,
+  startDate: dateSchema,
+  endDate: dateSchema,
+  note: z.string().max(500, 'Note is too long (max 500 characters)').optional(),
+}).refine(
+  (data) => data.startDate <= data.endDate,
+  { message: 'Start date must be on or before end date', path: ['endDate'] }
 );
 
+export const revokeApprovalDelegationArgsSchema = z.object({
+  delegationId: uuidSchema,
+});
+
+export const separationOfDutiesRuleSchema = z.enum([
+  'reports_to_owner',
+  'same_department',
+  'distinct_stage_approvers',
+]);
+
+export const updateSeparationOfDutiesRuleArgsSchema = z.object({
+  rule: separationOfDutiesRuleSchema,
+  enabled: z.boolean(),
+});
+
+export const getPolicyHistoryArgsSchema = z.object({
+  tripId: uuidSchema.optional(),
+}).optional().transform(val => val ?? {});
+
 export const violationAnalyticsArgsSchema = z.object({
   startDate: dateSchema,
   endDate: dateSchema,
@@ -151,4 +356,110 @@ export const spendAnalyticsArgsSchema = z.object({
 }).refine(
   (data) => data.startDate <= data.endDate,
   { message: 'Start date must be on or before end date' }
-);
\ No newline at end of file
+);
+
+export const getBudgetStatusArgsSchema = z.object({
+  department: z.string().trim().min(1).optional(),
+  onDate: dateSchema.optional(),
+}).optional().transform(val => val ?? {});
+
+export const reimbursementStatusSchema = z.enum(['unpaid', 'partially_paid', 'paid']);
+
+export const listReimbursementsArgsSchema = z.object({
+  status: reimbursementStatusSchema.optional(),
+  department: z.string().trim().min(1).optional(),
+}).optional().transform(val => val ?? {});
+
+export const createPaymentBatchArgsSchema = z.object({
+  payments: z
+    .array(
+      z.object({
+        tripId: uuidSchema,
+        amountCents: z.number().int().positive('Amount must be a positive integer (cents)').optional(),
+      })
+    )
+    .min(1, 'List at least one trip, or leave payments out to include every outstanding trip')
+    .refine(
+      (payments) => new Set(payments.map((p) => p.tripId)).size === payments.length,
+      { message: 'Each trip can appear only once in a batch' }
+    )
+    .optional(),
+}).optional().transform(val => val ?? {});
+
+export const exportPaymentBatchArgsSchema = z.object({
+  batchId: uuidSchema,
+});
+
+export const markPaymentBatchPaidArgsSchema = z.object({
+  batchId: uuidSchema,
+});
+
+export const exportApprovedTripsArgsSchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema,
+}).refine(
+  (data) => data.startDate <= data.endDate,
+  { message: 'Start date must be on or before end date' }
+);
+
+export const listUsersArgsSchema = z.object({
+  department: z.string().min(1).optional(),
+  role: userRoleSchema.optional(),
+  includeDeactivated: z.boolean().optional(),
+}).optional().transform(val => val ?? {});
+
+export const createUserArgsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  role: userRoleSchema,
+  department: z.string().trim().min(1, 'Department is required'),
+  managerId: uuidSchema.optional(),
+});
+
+export const updateUserArgsSchema = z.object({
+  userId: uuidSchema,
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  role: userRoleSchema.optional(),
+  department: z.string().trim().min(1, 'Department is required').optional(),
+  managerId: uuidSchema.nullable().optional(),
+}).refine(
+  (data) =>
+    data.name !== undefined ||
+    data.role !== undefined ||
+    data.department !== undefined ||
+    data.managerId !== undefined,
+  { message: 'Provide at least one field to change' }
+);
+
+export const deactivateUserArgsSchema = z.object({
+  userId: uuidSchema,
+});
+
+export const updateTravelPolicyArgsSchema = z.object({
+  economyOnly: z.boolean().optional(),
+  hotelNightlyCapCents: boundedCentsSchema('hotelNightlyCapCents').optional(),
+  mealDailyCapCents: boundedCentsSchema('mealDailyCapCents').optional(),
+  preapprovalOverCents: boundedCentsSchema('preapprovalOverCents').optional(),
+  receiptRequiredOverCents: boundedCentsSchema('receiptRequiredOverCents').optional(),
+  businessClassMinFlightHours: z
+    .number()
+    .min(TRAVEL_POLICY_BOUNDS.businessClassMinFlightHours.min, `Must be at least ${TRAVEL_POLICY_BOUNDS.businessClassMinFlightHours.min} hour`)
+    .max(TRAVEL_POLICY_BOUNDS.businessClassMinFlightHours.max, `Must be at most ${TRAVEL_POLICY_BOUNDS.businessClassMinFlightHours.max} hours`)
+    .refine((hours) => Math.abs(Math.round(hours * 10) - hours * 10) < 1e-9, 'Use at most one decimal place')
+    .nullable()
+    .optional(),
+  effectiveFrom: dateSchema.optional(),
+  changeNote: z.string().trim().min(1, 'Change note cannot be empty').optional(),
+  confirm: z.boolean().default(false),
+}).refine(
+  (data) =>
+    data.economyOnly !== undefined ||
+    data.hotelNightlyCapCents !== undefined ||
+    data.mealDailyCapCents !== undefined ||
+    data.preapprovalOverCents !== undefined ||
+    data.receiptRequiredOverCents !== undefined ||
+    data.businessClassMinFlightHours !== undefined,
+  { message: 'Provide at least one policy value to change' }
+).refine(
+  (data) => !data.confirm || data.changeNote !== undefined,
+  { message: 'A change note is required to apply a policy change', path: ['changeNote'] }
+);